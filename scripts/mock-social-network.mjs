@@ -0,0 +1,599 @@
+// Offline stand-in for the four networks the publisher talks to. It serves
+// the same endpoints under /x, /linkedin, /instagram and /tiktok, keeps posts
+// in memory and lists them at GET /.
+//
+//   MOCK_SOCIAL_PORT          port to listen on (default 4010)
+//   MOCK_SOCIAL_FAILURE_RATE  0–1 chance of a 503 on any publish call
+//
+// Any bearer token is accepted except "revoked". Text containing #mockfail is
+// rejected like a policy violation. TikTok posts stay processing for a few
+// seconds before completing, like the real async publish flow. Instagram and
+// TikTok posts need media URLs, as on the real APIs, but the files are never
+// downloaded. X and LinkedIn take files through their upload flows, and posts
+// may only refer to uploads that finished.
+
+import { createServer } from "node:http";
+import { randomUUID } from "node:crypto";
+
+const port = Number(process.env.MOCK_SOCIAL_PORT ?? 4010);
+const failureRate = Number(process.env.MOCK_SOCIAL_FAILURE_RATE ?? 0);
+const TIKTOK_PROCESSING_MS = 3000;
+const LINKEDIN_PART_BYTES = 4 * 1024 * 1024;
+
+/** @type {Map<string, { platform: string; id: string; text: string; media: number; createdAt: number }>} */
+const posts = new Map();
+const containers = new Map();
+/** @type {Map<string, { bytes: number; received: number; ready: boolean }>} */
+const uploads = new Map();
+
+const numericId = () =>
+  `${Date.now()}${Math.floor(Math.random() * 1e6)
+    .toString()
+    .padStart(6, "0")}`;
+
+const send = (response, status, body, headers = {}) => {
+  response.writeHead(status, {
+    "Content-Type": "application/json",
+    ...headers,
+  });
+  response.end(body === undefined ? "" : JSON.stringify(body));
+};
+
+const readBody = (request) =>
+  new Promise((resolve) => {
+    let raw = "";
+    request.on("data", (chunk) => (raw += chunk));
+    request.on("end", () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch {
+        resolve(null);
+      }
+    });
+  });
+
+/** Drains a request body, resolving to its size in bytes. */
+const countBody = (request) =>
+  new Promise((resolve) => {
+    let bytes = 0;
+    request.on("data", (chunk) => (bytes += chunk.length));
+    request.on("end", () => resolve(bytes));
+  });
+
+const store = (platform, id, text, media = 0) => {
+  posts.set(`${platform}:${id}`, {
+    platform,
+    id,
+    text,
+    media,
+    createdAt: Date.now(),
+  });
+  console.log(
+    `[${platform}] published ${id}${media ? ` with ${media} files` : ""}: ${text.split("\n")[0]}`,
+  );
+};
+
+const unfinishedUpload = (ids) => ids.find((id) => !uploads.get(id)?.ready);
+
+const rejectText = (text) =>
+  typeof text === "string" && text.includes("#mockfail");
+const flaky = () => Math.random() < failureRate;
+
+/** Totals that grow with a post's age: ~2 views a second, ~4% engaging. */
+const reach = (post) => {
+  const impressions = Math.floor((Date.now() - post.createdAt) / 500);
+  return { impressions, engagements: Math.floor(impressions * 0.04) };
+};
+
+/** X's chunked media upload: initialize, append parts, finalize, poll. */
+async function xUpload(request, response, mediaId, step) {
+  const key = `x:${mediaId}`;
+  if (request.method === "POST" && mediaId === "initialize") {
+    const body = await readBody(request);
+    if (!body?.media_type || !(body.total_bytes > 0)) {
+      return send(response, 400, {
+        title: "Invalid Request",
+        detail: "media_type and total_bytes are required",
+      });
+    }
+    const id = numericId();
+    uploads.set(`x:${id}`, {
+      bytes: body.total_bytes,
+      received: 0,
+      ready: false,
+      video: body.media_category === "tweet_video",
+    });
+    return send(response, 200, { data: { id, media_key: `3_${id}` } });
+  }
+  const upload = uploads.get(key);
+  if (request.method === "POST" && step === "append" && upload) {
+    // Multipart framing counts too, so this only tracks that parts arrived.
+    upload.received += await countBody(request);
+    return send(response, 200, { data: {} });
+  }
+  if (request.method === "POST" && step === "finalize" && upload) {
+    if (!upload.received) {
+      return send(response, 400, {
+        title: "Invalid Request",
+        detail: "No media was appended",
+      });
+    }
+    upload.ready = !upload.video;
+    return send(response, 200, {
+      data: {
+        id: mediaId,
+        ...(upload.video
+          ? { processing_info: { state: "pending", check_after_secs: 1 } }
+          : {}),
+      },
+    });
+  }
+  const statusOf = new URL(request.url, "http://localhost").searchParams.get(
+    "media_id",
+  );
+  const pending = uploads.get(`x:${statusOf}`);
+  if (request.method === "GET" && !mediaId && pending?.received) {
+    pending.ready = true;
+    return send(response, 200, {
+      data: {
+        id: statusOf,
+        processing_info: { state: "succeeded", progress_percent: 100 },
+      },
+    });
+  }
+  return send(response, 404, { title: "Not Found", detail: "Unknown media" });
+}
+
+const routes = {
+  async x(request, response, segments) {
+    const [, resource, id, mediaId, step] = segments;
+    if (resource === "media" && id === "upload") {
+      return xUpload(request, response, mediaId, step);
+    }
+    if (request.method === "GET" && resource === "users" && id === "me") {
+      return send(response, 200, {
+        data: { id: "1", name: "Orbit Mock", username: "orbit_mock" },
+      });
+    }
+    if (request.method === "POST" && resource === "tweets" && !id) {
+      const body = await readBody(request);
+      if (flaky())
+        return send(response, 503, {
+          title: "Service Unavailable",
+          detail: "Mock outage",
+        });
+      if (!body || typeof body.text !== "string" || !body.text.trim()) {
+        return send(response, 400, {
+          title: "Invalid Request",
+          detail: "text is required",
+        });
+      }
+      if ([...body.text].length > 280) {
+        return send(response, 403, {
+          title: "Forbidden",
+          detail: "Text exceeds 280 characters",
+        });
+      }
+      if (rejectText(body.text)) {
+        return send(response, 403, {
+          title: "Forbidden",
+          detail: "Post violates the mock network rules",
+        });
+      }
+      const mediaIds = body.media?.media_ids ?? [];
+      const pending = unfinishedUpload(mediaIds.map((item) => `x:${item}`));
+      if (pending) {
+        return send(response, 400, {
+          title: "Invalid Request",
+          detail: `Media ${pending.slice(2)} isn't uploaded`,
+        });
+      }
+      const replyTo = body.reply?.in_reply_to_tweet_id;
+      if (replyTo !== undefined && !posts.has(`x:${replyTo}`)) {
+        return send(response, 400, {
+          title: "Invalid Request",
+          detail: "The post being replied to doesn't exist",
+        });
+      }
+      const postId = numericId();
+      store("x", postId, body.text, mediaIds.length);
+      return send(response, 201, { data: { id: postId, text: body.text } });
+    }
+    if (request.method === "GET" && resource === "tweets" && id) {
+      const post = posts.get(`x:${id}`);
+      return post
+        ? send(response, 200, {
+            data: {
+              id,
+              text: post.text,
+              public_metrics: {
+                impression_count: reach(post).impressions,
+                like_count: reach(post).engagements,
+                retweet_count: 0,
+                reply_count: 0,
+                quote_count: 0,
+                bookmark_count: 0,
+              },
+            },
+          })
+        : send(response, 404, {
+            title: "Not Found Error",
+            detail: `Could not find tweet ${id}`,
+          });
+    }
+    return send(response, 404, { title: "Not Found" });
+  },
+
+  async linkedin(request, response, segments) {
+    const [scope, resource, id] = segments;
+    const action = new URL(request.url, "http://localhost").searchParams.get(
+      "action",
+    );
+    if (request.method === "PUT" && scope === "uploads") {
+      const urn = decodeURIComponent(resource);
+      const upload = uploads.get(urn);
+      if (!upload) {
+        return send(response, 404, { message: "Unknown upload", status: 404 });
+      }
+      upload.received += await countBody(request);
+      // Images are usable once their bytes are in; videos once finalized.
+      if (urn.startsWith("urn:li:image:")) {
+        upload.ready = upload.received > 0;
+      }
+      return send(response, 201, undefined, { etag: `"${randomUUID()}"` });
+    }
+    if (
+      request.method === "POST" &&
+      scope === "rest" &&
+      (resource === "images" || resource === "videos") &&
+      action === "initializeUpload"
+    ) {
+      const body = await readBody(request);
+      const bytes = Number(body?.initializeUploadRequest?.fileSizeBytes ?? 0);
+      if (!body?.initializeUploadRequest?.owner) {
+        return send(response, 422, {
+          message: "owner is required",
+          status: 422,
+        });
+      }
+      const urn = `urn:li:${resource.slice(0, -1)}:${numericId()}`;
+      const uploadUrl = `http://localhost:${port}/linkedin/uploads/${encodeURIComponent(urn)}`;
+      uploads.set(urn, { bytes, received: 0, ready: false });
+      if (resource === "images") {
+        return send(response, 200, { value: { uploadUrl, image: urn } });
+      }
+      if (!(bytes > 0)) {
+        return send(response, 422, {
+          message: "fileSizeBytes is required",
+          status: 422,
+        });
+      }
+      const uploadInstructions = [];
+      for (let first = 0; first < bytes; first += LINKEDIN_PART_BYTES) {
+        uploadInstructions.push({
+          uploadUrl: `${uploadUrl}?part=${uploadInstructions.length}`,
+          firstByte: first,
+          lastByte: Math.min(first + LINKEDIN_PART_BYTES, bytes) - 1,
+        });
+      }
+      return send(response, 200, {
+        value: { video: urn, uploadToken: "", uploadInstructions },
+      });
+    }
+    if (
+      request.method === "POST" &&
+      scope === "rest" &&
+      resource === "videos" &&
+      action === "finalizeUpload"
+    ) {
+      const body = await readBody(request);
+      const upload = uploads.get(body?.finalizeUploadRequest?.video);
+      if (!upload || upload.received !== upload.bytes) {
+        return send(response, 400, {
+          message: "Video upload is incomplete",
+          status: 400,
+        });
+      }
+      upload.ready = true;
+      return send(response, 200, undefined);
+    }
+    if (
+      request.method === "GET" &&
+      scope === "rest" &&
+      resource === "videos" &&
+      id
+    ) {
+      const upload = uploads.get(decodeURIComponent(id));
+      return upload
+        ? send(response, 200, {
+            id: decodeURIComponent(id),
+            status: upload.ready ? "AVAILABLE" : "WAITING_UPLOAD",
+          })
+        : send(response, 404, { message: "Unknown video", status: 404 });
+    }
+    if (request.method === "GET" && scope === "v2" && resource === "userinfo") {
+      return send(response, 200, { sub: "mock-member", name: "Orbit Mock" });
+    }
+    if (
+      scope === "rest" &&
+      resource === "posts" &&
+      request.method === "POST" &&
+      !id
+    ) {
+      const body = await readBody(request);
+      if (flaky())
+        return send(response, 503, { message: "Mock outage", status: 503 });
+      if (
+        !body ||
+        typeof body.commentary !== "string" ||
+        typeof body.author !== "string"
+      ) {
+        return send(response, 422, {
+          message: "author and commentary are required",
+          status: 422,
+        });
+      }
+      if (rejectText(body.commentary)) {
+        return send(response, 422, {
+          message: "Post violates the mock network rules",
+          status: 422,
+        });
+      }
+      const media = body.content?.multiImage
+        ? (body.content.multiImage.images ?? []).map((image) => image.id)
+        : body.content?.media
+          ? [body.content.media.id]
+          : [];
+      const pending = unfinishedUpload(media);
+      if (pending) {
+        return send(response, 422, {
+          message: `${pending} isn't uploaded`,
+          status: 422,
+        });
+      }
+      const urn = `urn:li:share:${numericId()}`;
+      store("linkedin", urn, body.commentary, media.length);
+      return send(response, 201, undefined, { "x-restli-id": urn });
+    }
+    if (
+      scope === "rest" &&
+      resource === "posts" &&
+      request.method === "GET" &&
+      id
+    ) {
+      const urn = decodeURIComponent(id);
+      const post = posts.get(`linkedin:${urn}`);
+      return post
+        ? send(response, 200, {
+            id: urn,
+            commentary: post.text,
+            lifecycleState: "PUBLISHED",
+          })
+        : send(response, 404, {
+            message: `Post ${urn} not found`,
+            status: 404,
+          });
+    }
+    return send(response, 404, { message: "Not Found", status: 404 });
+  },
+
+  async instagram(request, response, segments) {
+    const [node, edge] = segments;
+    if (request.method === "GET" && edge === "insights") {
+      const post = posts.get(`instagram:${node}`);
+      if (!post) {
+        return send(response, 400, {
+          error: { message: `Unknown media ${node}`, code: 100 },
+        });
+      }
+      const { impressions, engagements } = reach(post);
+      return send(response, 200, {
+        data: [
+          {
+            name: "impressions",
+            period: "lifetime",
+            values: [{ value: impressions }],
+          },
+          {
+            name: "total_interactions",
+            period: "lifetime",
+            values: [{ value: engagements }],
+          },
+        ],
+      });
+    }
+    if (request.method === "GET" && node && !edge) {
+      if (containers.has(node)) {
+        return send(response, 200, { id: node, status_code: "FINISHED" });
+      }
+      const post = posts.get(`instagram:${node}`);
+      if (post) {
+        return send(response, 200, {
+          id: node,
+          permalink: `http://localhost:${port}/instagram/web/p/${node}`,
+        });
+      }
+      return send(response, 200, { id: node, username: "orbit_mock" });
+    }
+    if (request.method === "POST" && edge === "media") {
+      const body = await readBody(request);
+      if (flaky())
+        return send(response, 503, {
+          error: { message: "Mock outage", code: 2 },
+        });
+      if (!body || !(body.image_url || body.video_url || body.children)) {
+        return send(response, 400, {
+          error: {
+            message: "image_url, video_url or children is required",
+            code: 100,
+          },
+        });
+      }
+      if (body.is_carousel_item) {
+        const childId = numericId();
+        containers.set(childId, null);
+        return send(response, 200, { id: childId });
+      }
+      const unknownChild = String(body.children ?? "")
+        .split(",")
+        .filter(Boolean)
+        .find((child) => containers.get(child) !== null);
+      if (unknownChild) {
+        return send(response, 400, {
+          error: {
+            message: `Unknown carousel item ${unknownChild}`,
+            code: 100,
+          },
+        });
+      }
+      if (typeof body.caption !== "string") {
+        return send(response, 400, {
+          error: { message: "caption is required", code: 100 },
+        });
+      }
+      if (rejectText(body.caption)) {
+        return send(response, 400, {
+          error: {
+            message: "Caption violates the mock network rules",
+            code: 100,
+          },
+        });
+      }
+      const creationId = numericId();
+      containers.set(creationId, body.caption);
+      return send(response, 200, { id: creationId });
+    }
+    if (request.method === "POST" && edge === "media_publish") {
+      const body = await readBody(request);
+      const caption = containers.get(body?.creation_id);
+      if (typeof caption !== "string") {
+        return send(response, 400, {
+          error: { message: "Unknown creation_id", code: 100 },
+        });
+      }
+      containers.delete(body.creation_id);
+      const mediaId = numericId();
+      store("instagram", mediaId, caption);
+      return send(response, 200, { id: mediaId });
+    }
+    return send(response, 404, {
+      error: { message: "Unsupported request", code: 100 },
+    });
+  },
+
+  async tiktok(request, response, segments) {
+    const path = segments.join("/");
+    const ok = { code: "ok", message: "", log_id: randomUUID() };
+    if (request.method === "GET" && path === "v2/user/info") {
+      return send(response, 200, {
+        data: { user: { open_id: "mock-open-id", display_name: "Orbit Mock" } },
+        error: ok,
+      });
+    }
+    if (
+      request.method === "POST" &&
+      (path === "v2/post/publish/content/init" ||
+        path === "v2/post/publish/video/init")
+    ) {
+      const body = await readBody(request);
+      if (flaky())
+        return send(response, 503, {
+          error: { code: "internal_error", message: "Mock outage" },
+        });
+      const text = body?.post_info?.description ?? body?.post_info?.title;
+      if (typeof text !== "string") {
+        return send(response, 400, {
+          error: { code: "invalid_params", message: "post_info is required" },
+        });
+      }
+      const source = body.source_info ?? {};
+      if (
+        path.endsWith("video/init")
+          ? !source.video_url
+          : !source.photo_images?.length
+      ) {
+        return send(response, 400, {
+          error: {
+            code: "invalid_params",
+            message: "source_info needs a video_url or photo_images",
+          },
+        });
+      }
+      if (rejectText(text)) {
+        return send(response, 200, {
+          error: {
+            code: "spam_risk_text",
+            message: "Text violates the mock network rules",
+          },
+        });
+      }
+      const publishId = `p_pub_url~v2.${numericId()}`;
+      store("tiktok", publishId, text);
+      return send(response, 200, {
+        data: { publish_id: publishId },
+        error: ok,
+      });
+    }
+    if (request.method === "POST" && path === "v2/post/publish/status/fetch") {
+      const body = await readBody(request);
+      const post = posts.get(`tiktok:${body?.publish_id}`);
+      if (!post) {
+        return send(response, 200, {
+          data: { status: "FAILED", fail_reason: "publish_id not found" },
+          error: ok,
+        });
+      }
+      const done = Date.now() - post.createdAt >= TIKTOK_PROCESSING_MS;
+      return send(response, 200, {
+        data: { status: done ? "PUBLISH_COMPLETE" : "PROCESSING_DOWNLOAD" },
+        error: ok,
+      });
+    }
+    return send(response, 404, {
+      error: { code: "not_found", message: "Unsupported request" },
+    });
+  },
+};
+
+createServer(async (request, response) => {
+  const url = new URL(request.url ?? "/", `http://localhost:${port}`);
+  const [platform, ...segments] = url.pathname.split("/").filter(Boolean);
+
+  if (!platform) {
+    return send(response, 200, { posts: [...posts.values()] });
+  }
+
+  const route = routes[platform];
+  if (!route) return send(response, 404, { error: "Unknown network" });
+
+  // Post permalinks the connectors hand out, e.g. /x/web/orbit_mock/status/<id>.
+  if (segments[0] === "web") {
+    const post = posts.get(
+      `${platform}:${decodeURIComponent(segments.at(-1) ?? "")}`,
+    );
+    return post
+      ? send(response, 200, post)
+      : send(response, 404, { error: "Post not found" });
+  }
+
+  const token = (request.headers.authorization ?? "").replace(
+    /^Bearer\s+/i,
+    "",
+  );
+  if (!token || token === "revoked") {
+    return send(response, 401, {
+      error: { message: "Invalid access token", code: 190 },
+      message: "Invalid access token",
+      title: "Unauthorized",
+    });
+  }
+
+  try {
+    await route(request, response, segments);
+  } catch (error) {
+    console.error(error);
+    send(response, 500, { error: { message: "Mock server error" } });
+  }
+}).listen(port, () => {
+  console.log(`Mock social network listening on http://localhost:${port}`);
+});
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { findAssetFile, streamAssetFile } from "../../../server/assetStore";
+import {
+  errorResponse,
+  HttpError,
+  readWorkspaceId,
+} from "../../../server/http";
+import { isAssetId } from "../../../utils/assets";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * The single byte range a `Range` header asks for, null for the whole file
+ * (no header, or one asking for several ranges), or "unsatisfiable".
+ */
+function parseRange(header: string | null, bytes: number) {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header?.trim() ?? "");
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const [, first, last] = match;
+  // `bytes=-500` is the last 500 bytes.
+  const start = first ? Number(first) : Math.max(0, bytes - Number(last));
+  const end = first && last ? Math.min(Number(last), bytes - 1) : bytes - 1;
+  return start <= end ? { start, end } : "unsatisfiable";
+}
+
+/**
+ * The file behind `/api/assets/<assetId>?workspace=<id>`, streamed, with
+ * `Range` support so videos can seek.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ assetId: string }> },
+) {
+  try {
+    const { assetId } = await params;
+    if (!isAssetId(assetId)) {
+      throw new HttpError(400, "Malformed asset id");
+    }
+
+    const stored = await findAssetFile(readWorkspaceId(request), assetId);
+    if (!stored) {
+      throw new HttpError(404, `Asset ${assetId} not found`);
+    }
+
+    const range = parseRange(request.headers.get("range"), stored.bytes);
+    if (range === "unsatisfiable") {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { "Content-Range": `bytes */${stored.bytes}` },
+      });
+    }
+
+    return new NextResponse(streamAssetFile(stored, range ?? undefined), {
+      status: range ? 206 : 200,
+      headers: {
+        "Content-Type": stored.mimeType,
+        "Content-Length": String(
+          range ? range.end - range.start + 1 : stored.bytes,
+        ),
+        ...(range
+          ? {
+              "Content-Range": `bytes ${range.start}-${range.end}/${stored.bytes}`,
+            }
+          : {}),
+        "Accept-Ranges": "bytes",
+        // Ids are never reused, so the file behind one never changes.
+        "Cache-Control": "private, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
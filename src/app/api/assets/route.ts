@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { saveAssetFile } from "../../server/assetStore";
+import { errorResponse, HttpError, readWorkspaceId } from "../../server/http";
+import { createId } from "../../utils/agent";
+import { ASSET_TYPES, MAX_ASSET_BYTES } from "../../utils/assets";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Stores an uploaded file for `?workspace=` and returns its new id. The body
+ * is the file itself, typed by its `Content-Type`, and goes straight to disk.
+ * The client adds the asset record to the workspace itself, so the upload
+ * never races a pending save.
+ */
+export async function POST(request: Request) {
+  try {
+    const workspaceId = readWorkspaceId(request);
+    const mimeType = (request.headers.get("content-type") ?? "")
+      .split(";")[0]
+      .trim();
+    const tooLarge = new HttpError(
+      413,
+      `Files are limited to ${MAX_ASSET_BYTES / 1024 / 1024} MB`,
+    );
+
+    if (!ASSET_TYPES[mimeType]) {
+      throw new HttpError(
+        415,
+        `Unsupported file type ${mimeType || "(unknown)"}; use ${Object.keys(
+          ASSET_TYPES,
+        ).join(", ")}`,
+      );
+    }
+    if (Number(request.headers.get("content-length")) > MAX_ASSET_BYTES) {
+      throw tooLarge;
+    }
+    if (!request.body) {
+      throw new HttpError(400, "Send the file as the request body");
+    }
+
+    const id = createId();
+    const bytes = await saveAssetFile(
+      workspaceId,
+      id,
+      mimeType,
+      request.body,
+      MAX_ASSET_BYTES,
+    );
+    if (bytes === null) throw tooLarge;
+
+    return NextResponse.json({ id, mimeType, bytes }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { errorResponse, readWorkspaceId } from "../../../server/http";
+import { readWorkspace } from "../../../server/workspaceStore";
+import { buildCampaignCalendar, calendarFileName } from "../../../utils/ical";
+
+export const dynamic = "force-dynamic";
+
+/** Subscribable feed: `/api/calendar/<campaignId>.ics?workspace=<id>`. */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ campaignId: string }> },
+) {
+  try {
+    const { campaignId } = await params;
+    const id = decodeURIComponent(campaignId).replace(/\.ics$/i, "");
+    const { state } = await readWorkspace(readWorkspaceId(request));
+    const campaign = state?.campaigns.find((item) => item.id === id);
+
+    if (!state || !campaign) {
+      return NextResponse.json(
+        { error: `Campaign ${id} not found` },
+        { status: 404 },
+      );
+    }
+
+    return new NextResponse(
+      buildCampaignCalendar(campaign, state.drafts, state.ideas),
+      {
+        headers: {
+          "Content-Type": "text/calendar; charset=utf-8",
+          "Content-Disposition": `inline; filename="${calendarFileName(campaign)}"`,
+          "Cache-Control": "no-store",
+        },
+      },
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { Campaign } from "../../types";
+import {
+  errorResponse,
+  HttpError,
+  readBaseRevision,
+  readJsonBody,
+  readWorkspaceId,
+  requireState,
+} from "../../server/http";
+import { readWorkspace, writeWorkspace } from "../../server/workspaceStore";
+import { DEFAULT_EVERGREEN } from "../../utils/evergreen";
+import { isValidTimezone } from "../../utils/timezone";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const workspaceId = readWorkspaceId(request);
+    const { revision, state } = await readWorkspace(workspaceId);
+    return NextResponse.json({ revision, campaigns: state?.campaigns ?? [] });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** Creates or replaces a campaign by id. */
+export async function POST(request: Request) {
+  try {
+    const workspaceId = readWorkspaceId(request);
+    const body = await readJsonBody(request);
+    const baseRevision = readBaseRevision(body);
+    const campaign = body.campaign as Campaign | undefined;
+
+    if (
+      !campaign ||
+      typeof campaign.id !== "string" ||
+      typeof campaign.title !== "string" ||
+      !Array.isArray(campaign.platforms)
+    ) {
+      throw new HttpError(400, "`campaign` needs an id, title and platforms");
+    }
+    if (
+      campaign.timezone !== undefined &&
+      !isValidTimezone(campaign.timezone)
+    ) {
+      throw new HttpError(400, "`campaign.timezone` must be an IANA timezone");
+    }
+
+    // Servers have no meaningful local zone, so omitted ones mean UTC.
+    const zoned: Campaign = {
+      ...campaign,
+      timezone: campaign.timezone ?? "UTC",
+      series: campaign.series ?? [],
+      evergreen: campaign.evergreen ?? DEFAULT_EVERGREEN,
+    };
+
+    const snapshot = await writeWorkspace(
+      workspaceId,
+      baseRevision,
+      (current) => {
+        const state = requireState(current);
+        const exists = state.campaigns.some((item) => item.id === campaign.id);
+
+        return {
+          ...state,
+          campaigns: exists
+            ? state.campaigns.map((item) =>
+                item.id === campaign.id ? zoned : item,
+              )
+            : [zoned, ...state.campaigns],
+        };
+      },
+    );
+
+    return NextResponse.json({ revision: snapshot.revision, campaign: zoned });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,190 @@
+import { NextResponse } from "next/server";
+import { ContentDraft, PipelineStage } from "../../types";
+import {
+  errorResponse,
+  HttpError,
+  readBaseRevision,
+  readJsonBody,
+  readWorkspaceId,
+  requireState,
+} from "../../server/http";
+import { readWorkspace, writeWorkspace } from "../../server/workspaceStore";
+import { validateDraft, validateMedia } from "../../utils/platformRules";
+import { needsApproval } from "../../utils/review";
+import { isTooSoon } from "../../utils/scheduler";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const campaignId = new URL(request.url).searchParams.get("campaignId");
+    const workspaceId = readWorkspaceId(request);
+    const { revision, state } = await readWorkspace(workspaceId);
+    const drafts = (state?.drafts ?? []).filter(
+      (draft) => !campaignId || draft.campaignId === campaignId,
+    );
+
+    return NextResponse.json({ revision, drafts });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+const isStrings = (value: unknown) =>
+  Array.isArray(value) && value.every(isString);
+
+/** Stages a client may move a draft to; only the publisher publishes. */
+const PATCHABLE_STAGES: PipelineStage[] = ["drafts", "in_review", "scheduled"];
+
+/** The fields a client may change, with the shape each must have. */
+const PATCHABLE: Partial<
+  Record<keyof ContentDraft, [(value: unknown) => boolean, string]>
+> = {
+  caption: [isString, "a string"],
+  hashtags: [isStrings, "a list of strings"],
+  assetBrief: [isString, "a string"],
+  schedule: [
+    (value) => isString(value) && !Number.isNaN(Date.parse(value)),
+    "an ISO date-time",
+  ],
+  stage: [
+    (value) => PATCHABLE_STAGES.includes(value as PipelineStage),
+    `one of ${PATCHABLE_STAGES.join(", ")}`,
+  ],
+  parts: [
+    (value) =>
+      Array.isArray(value) &&
+      value.every(
+        (part) =>
+          !!part &&
+          isString(part.id) &&
+          isString(part.text) &&
+          isString(part.assetBrief),
+      ),
+    "a list of {id, text, assetBrief}",
+  ],
+  assetIds: [isStrings, "a list of asset ids"],
+};
+
+function readDraftPatch(value: unknown): Partial<ContentDraft> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new HttpError(400, "Provide a draft `id` and a `patch` object");
+  }
+
+  Object.entries(value).forEach(([field, fieldValue]) => {
+    const rule = PATCHABLE[field as keyof ContentDraft];
+    if (!rule) {
+      throw new HttpError(
+        400,
+        `\`patch.${field}\` can't be changed; patch ${Object.keys(PATCHABLE).join(", ")}`,
+      );
+    }
+    if (!rule[0](fieldValue)) {
+      throw new HttpError(400, `\`patch.${field}\` must be ${rule[1]}`);
+    }
+  });
+
+  const patch = value as Partial<ContentDraft>;
+  return patch.schedule
+    ? { ...patch, schedule: new Date(patch.schedule).toISOString() }
+    : patch;
+}
+
+/**
+ * Applies a partial update to one draft's content, schedule or stage.
+ * Scheduling runs the same checks as the pipeline, and the publisher alone
+ * marks drafts published.
+ */
+export async function PATCH(request: Request) {
+  try {
+    const workspaceId = readWorkspaceId(request);
+    const body = await readJsonBody(request);
+    const baseRevision = readBaseRevision(body);
+    const { id } = body;
+
+    if (typeof id !== "string") {
+      throw new HttpError(400, "Provide a draft `id` and a `patch` object");
+    }
+    const patch = readDraftPatch(body.patch);
+
+    let updated: ContentDraft | undefined;
+    const snapshot = await writeWorkspace(
+      workspaceId,
+      baseRevision,
+      (current) => {
+        const state = requireState(current);
+        const target = state.drafts.find((draft) => draft.id === id);
+
+        if (!target) {
+          throw new HttpError(404, `Draft ${id} not found`);
+        }
+        if (target.stage === "published") {
+          throw new HttpError(409, `Draft ${id} is already published`);
+        }
+
+        const scheduling =
+          patch.stage === "scheduled" && target.stage !== "scheduled";
+        updated = {
+          ...target,
+          ...patch,
+          publication: scheduling ? undefined : target.publication,
+        };
+
+        const campaign = state.campaigns.find(
+          (item) => item.id === target.campaignId,
+        );
+        // Editing a scheduled draft voids its approval, so it goes back to
+        // the reviewers rather than out with unapproved content.
+        if (
+          !scheduling &&
+          updated.stage === "scheduled" &&
+          needsApproval(updated, campaign)
+        ) {
+          updated = { ...updated, stage: "in_review" };
+        }
+        if (scheduling && needsApproval(updated, campaign)) {
+          throw new HttpError(
+            400,
+            `Campaign ${campaign?.title} requires an approval before scheduling`,
+          );
+        }
+
+        if (updated.stage === "scheduled") {
+          if (
+            (scheduling || updated.schedule !== target.schedule) &&
+            isTooSoon(updated, updated.schedule, new Date())
+          ) {
+            throw new HttpError(
+              400,
+              "A scheduled draft's `schedule` must be in the future, past the scheduler's lead time",
+            );
+          }
+          const blocking = [
+            ...validateDraft(updated),
+            ...validateMedia(updated, state.assets),
+          ].filter((violation) => violation.severity === "error");
+          if (blocking.length) {
+            throw new HttpError(
+              400,
+              `Draft can't be scheduled: ${blocking
+                .map((violation) => violation.message)
+                .join("; ")}`,
+            );
+          }
+        }
+
+        return {
+          ...state,
+          drafts: state.drafts.map((draft) =>
+            draft.id === id ? (updated as ContentDraft) : draft,
+          ),
+        };
+      },
+    );
+
+    return NextResponse.json({ revision: snapshot.revision, draft: updated });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
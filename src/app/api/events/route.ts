@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { errorResponse, readWorkspaceId } from "../../server/http";
+import { readEventLog } from "../../server/eventLog";
+import { readEventFilter, toJsonLines } from "../../utils/eventLog";
+
+export const dynamic = "force-dynamic";
+
+const PAGE_LIMIT = 500;
+
+const readCount = (params: URLSearchParams, key: string, fallback: number) => {
+  const value = Number(params.get(key));
+  return params.has(key) && Number.isInteger(value) && value >= 0
+    ? value
+    : fallback;
+};
+
+/**
+ * The full activity log, newest first, filtered by `tone` (comma-separated),
+ * `entity` (a campaign, idea or draft id), `from`/`to` (ISO instants) and
+ * `q` (full text). `format=jsonl` downloads every match, oldest first.
+ */
+export async function GET(request: Request) {
+  try {
+    const workspaceId = readWorkspaceId(request);
+    const params = new URL(request.url).searchParams;
+    const filter = readEventFilter(params);
+
+    if (params.get("format") === "jsonl") {
+      const { events } = await readEventLog(workspaceId, filter);
+      return new NextResponse(toJsonLines(events), {
+        headers: {
+          "Content-Type": "application/x-ndjson; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${workspaceId}-activity.jsonl"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    const page = await readEventLog(
+      workspaceId,
+      filter,
+      readCount(params, "offset", 0),
+      Math.min(readCount(params, "limit", 50), PAGE_LIMIT),
+    );
+    return NextResponse.json(page);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
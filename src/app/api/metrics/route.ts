@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { ContentDraft, MetricSample } from "../../types";
+import {
+  errorResponse,
+  HttpError,
+  readJsonBody,
+  readWorkspaceId,
+} from "../../server/http";
+import {
+  listWorkspaceIds,
+  readWorkspace,
+  updateWorkspace,
+} from "../../server/workspaceStore";
+import { checkMetricReading, withMetricSample } from "../../utils/analytics";
+
+export const dynamic = "force-dynamic";
+
+const matches = (draft: ContentDraft, draftId: unknown, postId: unknown) =>
+  (typeof draftId === "string" && draft.id === draftId) ||
+  (typeof postId === "string" && draft.publication?.externalId === postId);
+
+/**
+ * Hook for analytics pipelines and custom connectors: appends one reading to
+ * a draft, found by `draftId` or by the network's `postId` in the
+ * `?workspace=` given, or in any workspace without one. No revision is
+ * needed since readings only ever append.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await readJsonBody(request);
+    const { draftId, postId, impressions, engagements } = body;
+    const capturedAt =
+      body.capturedAt === undefined
+        ? new Date()
+        : new Date(String(body.capturedAt));
+
+    const problem = checkMetricReading(
+      Number(impressions),
+      Number(engagements),
+    );
+    if (
+      problem ||
+      typeof impressions !== "number" ||
+      typeof engagements !== "number"
+    ) {
+      throw new HttpError(
+        400,
+        problem ?? "Send numeric impressions and engagements",
+      );
+    }
+    if (Number.isNaN(capturedAt.getTime())) {
+      throw new HttpError(400, "`capturedAt` must be an ISO date");
+    }
+
+    const candidates = new URL(request.url).searchParams.has("workspace")
+      ? [readWorkspaceId(request)]
+      : await listWorkspaceIds();
+    let workspaceId: string | undefined;
+    for (const id of candidates) {
+      const { state } = await readWorkspace(id);
+      if (state?.drafts.some((draft) => matches(draft, draftId, postId))) {
+        workspaceId = id;
+        break;
+      }
+    }
+    if (!workspaceId) {
+      throw new HttpError(404, "No draft matches `draftId` or `postId`");
+    }
+
+    const sample: MetricSample = {
+      capturedAt: capturedAt.toISOString(),
+      impressions,
+      engagements,
+      source: "connector",
+    };
+    const snapshot = await updateWorkspace(workspaceId, (current) => ({
+      ...current,
+      drafts: current.drafts.map((draft) =>
+        matches(draft, draftId, postId)
+          ? withMetricSample(draft, sample)
+          : draft,
+      ),
+    }));
+
+    return NextResponse.json(
+      { workspace: workspaceId, revision: snapshot.revision, sample },
+      { status: 201 },
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { errorResponse } from "../../../server/http";
+import { runBackgroundJobs } from "../../../server/scheduler";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Publishes due drafts and reads metrics immediately; cron hooks call this
+ * where timers can't run.
+ */
+export async function POST() {
+  try {
+    return NextResponse.json(await runBackgroundJobs());
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,39 @@
+import {
+  errorResponse,
+  HttpError,
+  isAgentState,
+  readBaseRevision,
+  readJsonBody,
+  readWorkspaceId,
+  snapshotResponse,
+} from "../../server/http";
+import { readWorkspace, writeWorkspace } from "../../server/workspaceStore";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    return snapshotResponse(await readWorkspace(readWorkspaceId(request)));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const workspaceId = readWorkspaceId(request);
+    const body = await readJsonBody(request);
+    const baseRevision = readBaseRevision(body);
+
+    if (!isAgentState(body.state)) {
+      throw new HttpError(400, "`state` is not a valid workspace");
+    }
+
+    const state = body.state;
+    return snapshotResponse(
+      await writeWorkspace(workspaceId, baseRevision, () => state),
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
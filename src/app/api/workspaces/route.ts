@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { errorResponse } from "../../server/http";
+import { listWorkspaceIds, readWorkspace } from "../../server/workspaceStore";
+
+export const dynamic = "force-dynamic";
+
+/** Every saved workspace, named after its brand, for the switcher. */
+export async function GET() {
+  try {
+    const workspaces = await Promise.all(
+      (await listWorkspaceIds()).map(async (id) => {
+        const { revision, updatedAt, state } = await readWorkspace(id);
+        return { id, name: state?.brand.name ?? id, revision, updatedAt };
+      }),
+    );
+
+    return NextResponse.json({ workspaces });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
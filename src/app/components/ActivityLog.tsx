@@ -0,0 +1,330 @@
+"use client";
+
+import { useState } from "react";
+import { AgentEvent, AgentState, EntityRef } from "../types";
+import { activityLogUrl, useActivityLog } from "../hooks/useActivityLog";
+import { downloadFile } from "../utils/download";
+import {
+  EventFilter,
+  matchesEventFilter,
+  toJsonLines,
+} from "../utils/eventLog";
+import { EventChanges } from "./EventChanges";
+
+const PAGE_SIZE = 25;
+
+const TONES: { tone: AgentEvent["tone"]; label: string; dot: string }[] = [
+  { tone: "info", label: "Info", dot: "bg-sky-400" },
+  { tone: "success", label: "Success", dot: "bg-emerald-400" },
+  { tone: "warning", label: "Warning", dot: "bg-amber-400" },
+];
+
+const formatWhen = (value: string) =>
+  new Intl.DateTimeFormat("en", {
+    dateStyle: "medium",
+    timeStyle: "medium",
+  }).format(new Date(value));
+
+/** `<input type="date">` values are local days; the log filters on instants. */
+const dayBoundary = (day: string, end: boolean) =>
+  day
+    ? new Date(`${day}T${end ? "23:59:59.999" : "00:00:00"}`).toISOString()
+    : undefined;
+
+function entityName(ref: EntityRef, state: AgentState) {
+  if (ref.type === "campaign") {
+    const campaign = state.campaigns.find((item) => item.id === ref.id);
+    return campaign ? campaign.title : "Deleted campaign";
+  }
+  if (ref.type === "idea") {
+    const idea = state.ideas.find((item) => item.id === ref.id);
+    return idea ? `Idea: ${idea.headline}` : "Deleted idea";
+  }
+  const draft = state.drafts.find((item) => item.id === ref.id);
+  if (!draft) return "Deleted draft";
+  const caption = draft.caption.split("\n")[0];
+  return `Draft: ${caption.length > 40 ? `${caption.slice(0, 37)}…` : caption}`;
+}
+
+/**
+ * The full, searchable activity log: filters by tone, linked record, date
+ * range and text, pages back through archives and exports what matches.
+ */
+export function ActivityLog({
+  workspaceId,
+  state,
+  onRevert,
+  onExported,
+}: {
+  workspaceId: string;
+  state: AgentState;
+  onRevert: (event: AgentEvent) => void;
+  onExported: (count: number) => void;
+}) {
+  const [tones, setTones] = useState<AgentEvent["tone"][]>([]);
+  const [entityId, setEntityId] = useState("");
+  const [fromDay, setFromDay] = useState("");
+  const [toDay, setToDay] = useState("");
+  const [query, setQuery] = useState("");
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const filter: EventFilter = {
+    tones,
+    entityId: entityId || undefined,
+    from: dayBoundary(fromDay, false),
+    to: dayBoundary(toDay, true),
+    query,
+  };
+  const { events, total, offline } = useActivityLog(
+    workspaceId,
+    state.events,
+    filter,
+    limit,
+  );
+  const isFiltered =
+    !!tones.length || !!entityId || !!fromDay || !!toDay || !!query.trim();
+
+  // Narrowing the filter starts again from the newest page.
+  const refine =
+    <T,>(set: (value: T) => void) =>
+    (value: T) => {
+      set(value);
+      setLimit(PAGE_SIZE);
+    };
+
+  const toggleTone = (tone: AgentEvent["tone"]) =>
+    refine(setTones)(
+      tones.includes(tone)
+        ? tones.filter((item) => item !== tone)
+        : [...tones, tone],
+    );
+
+  const clearFilters = () => {
+    setTones([]);
+    setEntityId("");
+    setFromDay("");
+    setToDay("");
+    setQuery("");
+    setLimit(PAGE_SIZE);
+  };
+
+  const exportLog = async () => {
+    setIsExporting(true);
+    let content: string;
+    try {
+      const response = await fetch(
+        activityLogUrl(workspaceId, filter, { format: "jsonl" }),
+        { cache: "no-store" },
+      );
+      if (!response.ok) {
+        throw new Error(`Export failed with HTTP ${response.status}`);
+      }
+      content = await response.text();
+    } catch (error) {
+      // Offline, the recent events are better than nothing.
+      console.error("Failed to export the activity log", error);
+      content = toJsonLines(
+        state.events.filter((event) => matchesEventFilter(event, filter)),
+      );
+    } finally {
+      setIsExporting(false);
+    }
+
+    downloadFile(
+      `${workspaceId}-activity.jsonl`,
+      content,
+      "application/x-ndjson;charset=utf-8",
+    );
+    onExported(content.split("\n").filter(Boolean).length);
+  };
+
+  const isCampaign = state.campaigns.some((item) => item.id === entityId);
+  const selectedRef = events
+    .flatMap((event) => event.entities ?? [])
+    .find((ref) => ref.id === entityId);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {TONES.map(({ tone, label, dot }) => (
+          <button
+            key={tone}
+            type="button"
+            onClick={() => toggleTone(tone)}
+            aria-pressed={tones.includes(tone)}
+            className={`flex items-center gap-2 rounded-full border px-3 py-1 uppercase tracking-wide transition ${
+              tones.includes(tone)
+                ? "border-emerald-400/60 bg-emerald-500/10 text-emerald-100"
+                : "border-white/10 text-slate-300 hover:bg-white/10"
+            }`}
+          >
+            <span className={`h-2 w-2 rounded-full ${dot}`} />
+            {label}
+          </button>
+        ))}
+        <select
+          value={entityId}
+          onChange={(event) => refine(setEntityId)(event.target.value)}
+          className="rounded-full border border-white/10 bg-slate-950/70 px-3 py-1 text-slate-200 outline-none focus:border-emerald-400/60"
+        >
+          <option value="">All records</option>
+          {entityId && !isCampaign ? (
+            <option value={entityId}>
+              {selectedRef ? entityName(selectedRef, state) : "Selected record"}
+            </option>
+          ) : null}
+          {state.campaigns.map((campaign) => (
+            <option key={campaign.id} value={campaign.id}>
+              {campaign.title}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-slate-400">
+          From
+          <input
+            type="date"
+            value={fromDay}
+            onChange={(event) => refine(setFromDay)(event.target.value)}
+            className="rounded-lg border border-white/10 bg-slate-950/70 px-2 py-1 text-slate-200 outline-none focus:border-emerald-400/60"
+          />
+        </label>
+        <label className="flex items-center gap-1 text-slate-400">
+          To
+          <input
+            type="date"
+            value={toDay}
+            onChange={(event) => refine(setToDay)(event.target.value)}
+            className="rounded-lg border border-white/10 bg-slate-950/70 px-2 py-1 text-slate-200 outline-none focus:border-emerald-400/60"
+          />
+        </label>
+        <input
+          type="search"
+          value={query}
+          placeholder="Search activity"
+          onChange={(event) => refine(setQuery)(event.target.value)}
+          className="min-w-40 flex-1 rounded-full border border-white/10 bg-slate-950/70 px-3 py-1 text-slate-200 outline-none placeholder:text-slate-500 focus:border-emerald-400/60"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-slate-400">
+        <p>
+          {total} event{total === 1 ? "" : "s"}
+          {isFiltered ? " match" : ""}
+          {offline ? " · offline, showing recent events only" : ""}
+          {isFiltered ? (
+            <>
+              {" · "}
+              <button
+                type="button"
+                onClick={clearFilters}
+                className="underline hover:text-slate-200"
+              >
+                clear filters
+              </button>
+            </>
+          ) : null}
+        </p>
+        <button
+          type="button"
+          onClick={exportLog}
+          disabled={isExporting || !total}
+          className="rounded-full border border-white/10 px-3 py-1 uppercase tracking-wide text-slate-200 transition hover:bg-white/10 disabled:cursor-not-allowed disabled:text-slate-500"
+        >
+          {isExporting ? "Exporting…" : "Export JSONL"}
+        </button>
+      </div>
+
+      {events.length ? (
+        <ul className="space-y-3">
+          {events.map((event) => (
+            <li
+              key={event.id}
+              className={`flex items-start gap-3 rounded-2xl border bg-slate-900/70 px-4 py-3 text-sm ${
+                event.tone === "success"
+                  ? "border-emerald-400/40"
+                  : event.tone === "warning"
+                    ? "border-amber-400/40"
+                    : "border-white/10"
+              }`}
+            >
+              <span
+                className={`mt-1 h-2 w-2 shrink-0 rounded-full ${
+                  TONES.find((item) => item.tone === event.tone)?.dot
+                }`}
+              />
+              <div className="min-w-0 flex-1">
+                <p className="text-xs uppercase tracking-wide text-slate-400">
+                  {formatWhen(event.timestamp)}
+                </p>
+                <p className="font-semibold text-white">{event.label}</p>
+                <p className="text-slate-300/90">{event.details}</p>
+                {event.entities?.length ? (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {event.entities.map((ref) => (
+                      <button
+                        key={`${ref.type}-${ref.id}`}
+                        type="button"
+                        onClick={() => refine(setEntityId)(ref.id)}
+                        className={`rounded-full border px-2 py-0.5 text-[11px] transition ${
+                          ref.id === entityId
+                            ? "border-emerald-400/60 text-emerald-100"
+                            : "border-white/10 text-slate-300 hover:bg-white/10"
+                        }`}
+                      >
+                        {entityName(ref, state)}
+                      </button>
+                    ))}
+                  </div>
+                ) : null}
+                {event.changes ? (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setExpandedId((current) =>
+                        current === event.id ? null : event.id,
+                      )
+                    }
+                    aria-expanded={expandedId === event.id}
+                    className="mt-1 text-[11px] uppercase tracking-wide text-emerald-300/80 hover:text-emerald-200"
+                  >
+                    {event.changes.length} change
+                    {event.changes.length === 1 ? "" : "s"}
+                    {event.compacted ? " (archived)" : ""}{" "}
+                    {expandedId === event.id ? "▴" : "▾"}
+                  </button>
+                ) : null}
+                {event.changes && expandedId === event.id ? (
+                  <EventChanges
+                    changes={event.changes}
+                    state={state}
+                    onRevert={
+                      event.compacted ? undefined : () => onRevert(event)
+                    }
+                  />
+                ) : null}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="rounded-2xl border border-white/5 bg-white/5 p-6 text-sm text-slate-300">
+          {isFiltered
+            ? "No activity matches these filters."
+            : "As you collaborate with the agent, every move is summarised here for auditability."}
+        </p>
+      )}
+
+      {events.length < total ? (
+        <button
+          type="button"
+          onClick={() => setLimit((value) => value + PAGE_SIZE)}
+          className="text-xs uppercase tracking-wide text-emerald-300/80 hover:text-emerald-200"
+        >
+          Load older ({total - events.length} more)
+        </button>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Campaign, ContentDraft, ContentIdea } from "../types";
+import {
+  AnalyticsDimension,
+  analyticsDimensions,
+  engagementBreakdown,
+  formatRate,
+  splitTestResults,
+  summarizeEngagement,
+} from "../utils/analytics";
+import { importMetricsCsv, MetricsImportResult } from "../utils/metricsCsv";
+
+export function AnalyticsPanel({
+  campaign,
+  campaigns,
+  drafts,
+  ideas,
+  onImport,
+  onDownloadTemplate,
+}: {
+  campaign: Campaign;
+  campaigns: Campaign[];
+  drafts: ContentDraft[];
+  ideas: ContentIdea[];
+  onImport: (result: MetricsImportResult) => void;
+  onDownloadTemplate: () => void;
+}) {
+  const [scope, setScope] = useState<"campaign" | "all">("campaign");
+  const [dimension, setDimension] = useState<AnalyticsDimension>("platform");
+  const [showImport, setShowImport] = useState(false);
+  const [text, setText] = useState("");
+
+  const scoped = useMemo(
+    () =>
+      scope === "all"
+        ? drafts
+        : drafts.filter((draft) => draft.campaignId === campaign.id),
+    [scope, drafts, campaign.id],
+  );
+  const summary = useMemo(() => summarizeEngagement(scoped), [scoped]);
+  const buckets = useMemo(
+    () => engagementBreakdown(scoped, ideas, campaigns, dimension),
+    [scoped, ideas, campaigns, dimension],
+  );
+  const splitTests = useMemo(() => splitTestResults(scoped), [scoped]);
+  const topRate = Math.max(...buckets.map((bucket) => bucket.rate ?? 0), 0);
+  const preview = useMemo(
+    () => (text.trim() ? importMetricsCsv(text, drafts) : null),
+    [text, drafts],
+  );
+
+  const chip = (active: boolean) =>
+    `rounded-full border px-3 py-1 text-[11px] font-semibold transition ${
+      active
+        ? "border-emerald-400/60 bg-emerald-500/15 text-emerald-100"
+        : "border-white/10 bg-slate-900/70 text-slate-300 hover:border-emerald-400/40 hover:text-white"
+    }`;
+
+  return (
+    <div className="flex flex-col gap-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => setScope("campaign")}
+            className={chip(scope === "campaign")}
+          >
+            {campaign.title}
+          </button>
+          <button
+            type="button"
+            onClick={() => setScope("all")}
+            className={chip(scope === "all")}
+          >
+            All {campaigns.length} campaigns
+          </button>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onDownloadTemplate}
+            className="rounded-full border border-white/10 px-3 py-1 text-[11px] uppercase tracking-wide text-slate-300 transition hover:bg-white/10"
+          >
+            Metrics Template
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowImport((value) => !value)}
+            className="rounded-full border border-emerald-400/60 px-3 py-1 text-[11px] uppercase tracking-wide text-emerald-200 transition hover:bg-emerald-500/10"
+          >
+            Import Metrics CSV
+          </button>
+        </div>
+      </div>
+
+      {showImport ? (
+        <div className="flex flex-col gap-3 rounded-2xl border border-emerald-400/30 bg-slate-900/70 p-4">
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-slate-400">
+              Columns: Draft ID or Post ID, Impressions, Engagements, optional
+              Captured At.
+            </p>
+            <input
+              type="file"
+              accept="text/csv,.csv"
+              onChange={async (event) => {
+                const file = event.target.files?.[0];
+                if (file) setText(await file.text());
+              }}
+              className="max-w-[11rem] text-xs text-slate-300 file:mr-2 file:rounded-full file:border file:border-white/10 file:bg-transparent file:px-3 file:py-1 file:text-xs file:text-slate-200"
+            />
+          </div>
+          <textarea
+            rows={3}
+            value={text}
+            placeholder="Draft ID,Impressions,Engagements,Captured At"
+            onChange={(event) => setText(event.target.value)}
+            className="rounded-xl border border-white/10 bg-slate-950/70 px-3 py-2 font-mono text-xs text-slate-200 outline-none placeholder:text-slate-500 focus:border-emerald-400/60"
+          />
+          {preview ? (
+            <div className="text-xs">
+              <p className="text-slate-300">
+                {preview.readings.length} of {preview.totalRows} readings ready
+              </p>
+              {preview.issues.length ? (
+                <ul className="mt-2 max-h-28 space-y-1 overflow-y-auto">
+                  {preview.issues.map((issue, index) => (
+                    <li
+                      key={`${issue.row}-${index}`}
+                      className={
+                        issue.severity === "error"
+                          ? "text-rose-300"
+                          : "text-amber-200/90"
+                      }
+                    >
+                      Row {issue.row}: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+            </div>
+          ) : null}
+          <button
+            type="button"
+            disabled={!preview?.readings.length}
+            onClick={() => {
+              if (!preview) return;
+              onImport(preview);
+              setText("");
+              setShowImport(false);
+            }}
+            className="self-end rounded-full bg-emerald-500/90 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-white/10 disabled:text-slate-400"
+          >
+            Import Readings
+          </button>
+        </div>
+      ) : null}
+
+      <div className="grid gap-3 sm:grid-cols-4">
+        {[
+          { label: "measured posts", value: summary.posts.toLocaleString() },
+          { label: "impressions", value: summary.impressions.toLocaleString() },
+          { label: "engagements", value: summary.engagements.toLocaleString() },
+          { label: "engagement rate", value: formatRate(summary.rate) },
+        ].map((stat) => (
+          <div
+            key={stat.label}
+            className="rounded-2xl border border-white/10 bg-slate-900/70 p-4"
+          >
+            <p className="text-xl font-semibold text-white">{stat.value}</p>
+            <p className="text-[11px] uppercase tracking-wide text-slate-400">
+              {stat.label}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(analyticsDimensions) as AnalyticsDimension[]).map(
+          (option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setDimension(option)}
+              className={chip(dimension === option)}
+            >
+              By {analyticsDimensions[option].toLowerCase()}
+            </button>
+          ),
+        )}
+      </div>
+
+      {buckets.length ? (
+        <ul className="space-y-2">
+          {buckets.map((bucket) => (
+            <li key={bucket.key} className="text-xs">
+              <div className="flex items-baseline justify-between gap-3">
+                <span className="truncate text-slate-200" title={bucket.label}>
+                  {bucket.label}
+                </span>
+                <span className="shrink-0 text-slate-400">
+                  <span className="font-semibold text-white">
+                    {formatRate(bucket.rate)}
+                  </span>{" "}
+                  · {bucket.posts} posts ·{" "}
+                  {bucket.impressions.toLocaleString()} impressions
+                </span>
+              </div>
+              <div className="mt-1 h-2 rounded-full bg-white/5">
+                <div
+                  className="h-2 rounded-full bg-emerald-400/70"
+                  style={{
+                    width: `${topRate ? ((bucket.rate ?? 0) / topRate) * 100 : 0}%`,
+                  }}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="rounded-2xl border border-white/5 bg-white/5 p-6 text-sm text-slate-300">
+          No readings yet. Record impressions and engagements on published
+          posts, import a metrics CSV, or let connected networks report them.
+        </p>
+      )}
+
+      {splitTests.length ? (
+        <div className="flex flex-col gap-3">
+          <p className="text-xs font-semibold uppercase tracking-wide text-emerald-300/90">
+            Split Tests
+          </p>
+          {splitTests.map((test) => (
+            <div
+              key={test.testId}
+              className="rounded-2xl border border-white/10 bg-slate-900/70 p-4 text-xs"
+            >
+              <p className="mb-2 text-slate-300">
+                {test.platform} ·{" "}
+                {test.leader
+                  ? `Variant ${test.leader} leads`
+                  : "Waiting for readings on two or more variants"}
+              </p>
+              <ul className="space-y-1">
+                {test.arms.map((arm) => (
+                  <li
+                    key={arm.draft.id}
+                    className="flex items-baseline justify-between gap-3"
+                  >
+                    <span
+                      className={`truncate ${
+                        arm.variant.label === test.leader
+                          ? "text-emerald-200"
+                          : "text-slate-200"
+                      }`}
+                      title={`${arm.variant.hook} · ${arm.variant.cta}`}
+                    >
+                      {arm.variant.label} · {arm.variant.hook}
+                    </span>
+                    <span className="shrink-0 text-slate-400">
+                      <span className="font-semibold text-white">
+                        {formatRate(arm.rate)}
+                      </span>{" "}
+                      · {arm.impressions.toLocaleString()} impressions
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { ContentDraft, MediaAsset } from "../types";
+import {
+  ASSET_TYPES,
+  describeAsset,
+  draftsUsing,
+  matchesAssetQuery,
+  parseTags,
+} from "../utils/assets";
+import { AssetThumb } from "./AssetThumb";
+
+/**
+ * The workspace's images and videos: upload, tag and search them, and see
+ * how many drafts post each one.
+ */
+export function AssetLibrary({
+  workspaceId,
+  assets,
+  drafts,
+  uploading,
+  onUpload,
+  onRetag,
+  onRemove,
+}: {
+  workspaceId: string;
+  assets: MediaAsset[];
+  drafts: ContentDraft[];
+  uploading: boolean;
+  onUpload: (files: File[]) => void;
+  onRetag: (asset: MediaAsset, tags: string[]) => void;
+  onRemove: (asset: MediaAsset) => void;
+}) {
+  const [query, setQuery] = useState("");
+  const shown = assets.filter((asset) => matchesAssetQuery(asset, query));
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <label
+          className={`rounded-full px-4 py-2 text-xs font-semibold uppercase tracking-wide transition ${
+            uploading
+              ? "cursor-wait bg-white/10 text-slate-400"
+              : "cursor-pointer bg-emerald-500/90 text-slate-950 hover:bg-emerald-400"
+          }`}
+        >
+          {uploading ? "Uploading…" : "Upload"}
+          <input
+            type="file"
+            multiple
+            disabled={uploading}
+            accept={Object.keys(ASSET_TYPES).join(",")}
+            onChange={(event) => {
+              const files = [...(event.target.files ?? [])];
+              event.target.value = "";
+              if (files.length) onUpload(files);
+            }}
+            className="hidden"
+          />
+        </label>
+        <input
+          value={query}
+          placeholder="Search names and tags"
+          onChange={(event) => setQuery(event.target.value)}
+          className="min-w-0 flex-1 rounded-xl border border-white/10 bg-slate-900/70 px-3 py-2 text-sm outline-none placeholder:text-slate-500 focus:border-emerald-400/60"
+        />
+      </div>
+
+      {shown.length ? (
+        <ul className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
+          {shown.map((asset) => {
+            const uses = draftsUsing(asset, drafts).length;
+            return (
+              <li
+                key={asset.id}
+                className="flex gap-3 rounded-xl border border-white/10 bg-slate-900/70 p-3 text-xs"
+              >
+                <AssetThumb asset={asset} workspaceId={workspaceId} size={64} />
+                <div className="flex min-w-0 flex-1 flex-col gap-1">
+                  <p className="truncate text-slate-200" title={asset.name}>
+                    {asset.name}
+                  </p>
+                  <p className="text-[11px] text-slate-400">
+                    {describeAsset(asset)} · {uses} draft
+                    {uses === 1 ? "" : "s"}
+                  </p>
+                  <input
+                    // Re-mounts when the tags change elsewhere, e.g. on undo.
+                    key={asset.tags.join(",")}
+                    defaultValue={asset.tags.join(", ")}
+                    placeholder="Tags, comma separated"
+                    onBlur={(event) => {
+                      const tags = parseTags(event.target.value);
+                      if (tags.join(",") !== asset.tags.join(",")) {
+                        onRetag(asset, tags);
+                      }
+                    }}
+                    className="rounded-lg border border-white/10 bg-slate-950/70 px-2 py-1 text-[11px] outline-none placeholder:text-slate-500 focus:border-emerald-400/60"
+                  />
+                </div>
+                <button
+                  type="button"
+                  aria-label={`Remove ${asset.name}`}
+                  title={
+                    uses
+                      ? `Also detaches it from ${uses} draft${uses === 1 ? "" : "s"}`
+                      : undefined
+                  }
+                  onClick={() => onRemove(asset)}
+                  className="self-start text-slate-400 transition hover:text-white"
+                >
+                  ×
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-xs text-slate-400">
+          {assets.length
+            ? "No asset matches that search."
+            : "Upload the images and videos your asset briefs call for, then attach them to drafts from the pipeline."}
+        </p>
+      )}
+    </div>
+  );
+}
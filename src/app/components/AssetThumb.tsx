@@ -0,0 +1,43 @@
+"use client";
+
+import Image from "next/image";
+import { MediaAsset } from "../types";
+import { assetUrl, describeAsset } from "../utils/assets";
+
+/** A square preview of an image, or a video's first frame. */
+export function AssetThumb({
+  asset,
+  workspaceId,
+  size = 48,
+}: {
+  asset: MediaAsset;
+  workspaceId: string;
+  size?: number;
+}) {
+  const src = assetUrl(workspaceId, asset.id);
+  const title = `${asset.name} · ${describeAsset(asset)}`;
+
+  return asset.kind === "image" ? (
+    <Image
+      src={src}
+      alt={asset.name}
+      title={title}
+      width={size}
+      height={size}
+      // Library files are served as uploaded by `/api/assets`.
+      unoptimized
+      className="rounded-lg border border-white/10 bg-slate-900 object-cover"
+      style={{ width: size, height: size }}
+    />
+  ) : (
+    <video
+      src={`${src}#t=0.1`}
+      title={title}
+      muted
+      playsInline
+      preload="metadata"
+      className="rounded-lg border border-white/10 bg-slate-900 object-cover"
+      style={{ width: size, height: size }}
+    />
+  );
+}
@@ -0,0 +1,350 @@
+"use client";
+
+import { DragEvent, useState } from "react";
+import { Campaign, ContentDraft, PipelineStage, Platform } from "../types";
+import {
+  CalendarView,
+  coverageGaps,
+  dayKey,
+  draftsByDay,
+  rescheduleTo,
+  shiftAnchor,
+  visibleDays,
+} from "../utils/calendar";
+import { isReschedulable, isTooSoon } from "../utils/scheduler";
+import {
+  browserTimezone,
+  formatInZone,
+  zonedDayKey,
+  zonedTime,
+} from "../utils/timezone";
+
+const PLATFORMS: Platform[] = ["Instagram", "LinkedIn", "TikTok", "X"];
+
+const platformColors: Record<Platform, string> = {
+  Instagram: "bg-pink-400",
+  LinkedIn: "bg-sky-400",
+  TikTok: "bg-fuchsia-400",
+  X: "bg-slate-200",
+};
+
+const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const DRAFT_MIME = "application/x-draft-id";
+
+/** Local midnight of a `YYYY-MM-DD` key, the form the views step through. */
+const dayFromKey = (key: string) => new Date(`${key}T00:00:00`);
+
+const formatHeading = (view: CalendarView, days: Date[]) => {
+  const first = days[0];
+  if (view === "day") {
+    return new Intl.DateTimeFormat("en", { dateStyle: "full" }).format(first);
+  }
+  if (view === "week") {
+    const range = new Intl.DateTimeFormat("en", {
+      month: "short",
+      day: "numeric",
+    });
+    return `${range.format(first)} – ${range.format(days[6])}, ${days[6].getFullYear()}`;
+  }
+  const middle = days[Math.floor(days.length / 2)];
+  return new Intl.DateTimeFormat("en", {
+    month: "long",
+    year: "numeric",
+  }).format(middle);
+};
+
+/**
+ * Month, week and day views of every campaign's drops, on the active
+ * campaign's clock. Unpublished drops can be dragged to another day (or
+ * hour, in the day view), though a scheduled one won't land in the past; the
+ * gap detector shades days in the active
+ * campaign's timeline without a post on a channel.
+ */
+export function ContentCalendar({
+  drafts,
+  campaigns,
+  activeCampaign,
+  stageLabels,
+  stageAccent,
+  onMove,
+}: {
+  drafts: ContentDraft[];
+  campaigns: Campaign[];
+  activeCampaign?: Campaign;
+  stageLabels: Record<PipelineStage, string>;
+  stageAccent: Record<PipelineStage, string>;
+  onMove: (draft: ContentDraft, schedule: string) => void;
+}) {
+  // Everything is laid out on the clocks of the campaign being planned.
+  const zone = activeCampaign?.timezone ?? browserTimezone();
+  const todayKey = zonedDayKey(new Date(), zone);
+  const [view, setView] = useState<CalendarView>("month");
+  const [anchor, setAnchor] = useState(() => dayFromKey(todayKey));
+  const [gapPlatform, setGapPlatform] = useState<Platform | "">("");
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  // The dragged card; its id isn't readable from the event until the drop.
+  const [dragging, setDragging] = useState<ContentDraft | null>(null);
+
+  const days = visibleDays(view, anchor);
+  const byDay = draftsByDay(drafts, zone);
+  const gaps =
+    activeCampaign && gapPlatform
+      ? coverageGaps(activeCampaign, drafts, gapPlatform)
+      : new Set<string>();
+  const visibleGaps = days.filter((day) => gaps.has(dayKey(day))).length;
+
+  const campaignTitle = (draft: ContentDraft) =>
+    campaigns.find((campaign) => campaign.id === draft.campaignId)?.title ??
+    "Unknown campaign";
+
+  const dropHandlers = (target: string, day: Date, hour?: number) => ({
+    onDragOver: (event: DragEvent) => {
+      if (!event.dataTransfer.types.includes(DRAFT_MIME)) return;
+      if (
+        dragging &&
+        isTooSoon(
+          dragging,
+          rescheduleTo(dragging.schedule, day, zone, hour),
+          new Date(),
+        )
+      ) {
+        return;
+      }
+      event.preventDefault();
+      event.dataTransfer.dropEffect = "move";
+      setDropTarget(target);
+    },
+    onDragLeave: () =>
+      setDropTarget((current) => (current === target ? null : current)),
+    onDrop: (event: DragEvent) => {
+      event.preventDefault();
+      setDropTarget(null);
+      const draft = drafts.find(
+        (item) => item.id === event.dataTransfer.getData(DRAFT_MIME),
+      );
+      if (!draft) return;
+      const schedule = rescheduleTo(draft.schedule, day, zone, hour);
+      if (schedule !== new Date(draft.schedule).toISOString()) {
+        onMove(draft, schedule);
+      }
+    },
+  });
+
+  const renderCard = (draft: ContentDraft, compact: boolean) => {
+    const movable = isReschedulable(draft);
+    return (
+      <li
+        key={draft.id}
+        draggable={movable}
+        onDragStart={(event) => {
+          event.dataTransfer.setData(DRAFT_MIME, draft.id);
+          event.dataTransfer.effectAllowed = "move";
+          setDragging(draft);
+        }}
+        onDragEnd={() => setDragging(null)}
+        title={`${draft.platform} · ${stageLabels[draft.stage]} · ${campaignTitle(draft)}${
+          movable ? "" : " · already published"
+        }`}
+        className={`flex items-center gap-2 rounded-lg border bg-slate-900/80 px-2 py-1 text-[11px] text-slate-200 ${
+          stageAccent[draft.stage]
+        } ${movable ? "cursor-grab active:cursor-grabbing" : "opacity-70"}`}
+      >
+        <span
+          className={`h-2 w-2 shrink-0 rounded-full ${platformColors[draft.platform]}`}
+        />
+        <span className="shrink-0 text-slate-400">
+          {formatInZone(draft.schedule, zone, { timeStyle: "short" })}
+        </span>
+        <span className="truncate">
+          {compact ? draft.platform : draft.caption.split("\n")[0]}
+        </span>
+      </li>
+    );
+  };
+
+  const dayCellClass = (key: string, faded: boolean) =>
+    `rounded-xl border p-2 transition ${
+      dropTarget === key
+        ? "border-emerald-400/70 bg-emerald-500/10"
+        : gaps.has(key)
+          ? "border-amber-400/50 bg-amber-500/10"
+          : "border-white/10 bg-slate-900/40"
+    } ${faded ? "opacity-50" : ""}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 text-xs">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() =>
+              setAnchor((current) => shiftAnchor(view, current, -1))
+            }
+            aria-label="Previous"
+            className="rounded-full border border-white/10 px-3 py-1 text-slate-200 transition hover:bg-white/10"
+          >
+            ←
+          </button>
+          <button
+            type="button"
+            onClick={() => setAnchor(dayFromKey(todayKey))}
+            className="rounded-full border border-white/10 px-3 py-1 uppercase tracking-wide text-slate-200 transition hover:bg-white/10"
+          >
+            Today
+          </button>
+          <button
+            type="button"
+            onClick={() =>
+              setAnchor((current) => shiftAnchor(view, current, 1))
+            }
+            aria-label="Next"
+            className="rounded-full border border-white/10 px-3 py-1 text-slate-200 transition hover:bg-white/10"
+          >
+            →
+          </button>
+          <p className="ml-2 text-sm font-semibold text-white">
+            {formatHeading(view, days)}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {(["month", "week", "day"] as CalendarView[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setView(option)}
+              aria-pressed={view === option}
+              className={`rounded-full border px-3 py-1 uppercase tracking-wide transition ${
+                view === option
+                  ? "border-emerald-400/60 bg-emerald-500/10 text-emerald-100"
+                  : "border-white/10 text-slate-300 hover:bg-white/10"
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+          <select
+            value={gapPlatform}
+            onChange={(event) =>
+              setGapPlatform(event.target.value as Platform | "")
+            }
+            disabled={!activeCampaign}
+            className="rounded-full border border-white/10 bg-slate-950/70 px-3 py-1 text-slate-200 outline-none focus:border-emerald-400/60"
+          >
+            <option value="">No gap check</option>
+            {PLATFORMS.map((platform) => (
+              <option key={platform} value={platform}>
+                Gaps on {platform}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-[11px] text-slate-400">
+        <span>Times in {zone.replaceAll("_", " ")}</span>
+        {PLATFORMS.map((platform) => (
+          <span key={platform} className="flex items-center gap-1">
+            <span
+              className={`h-2 w-2 rounded-full ${platformColors[platform]}`}
+            />
+            {platform}
+          </span>
+        ))}
+        {gapPlatform && activeCampaign ? (
+          <span className="text-amber-200/90">
+            {visibleGaps
+              ? `${visibleGaps} day${visibleGaps === 1 ? "" : "s"} in view with no ${gapPlatform} drop for ${activeCampaign.title}`
+              : `${activeCampaign.title} has ${gapPlatform} covered every day in view`}
+          </span>
+        ) : null}
+      </div>
+
+      {view === "day" ? (
+        <ol className="divide-y divide-white/5 rounded-xl border border-white/10">
+          {HOURS.map((hour) => {
+            const key = `${dayKey(days[0])}-${hour}`;
+            const drops = (byDay.get(dayKey(days[0])) ?? []).filter(
+              (draft) =>
+                zonedTime(new Date(draft.schedule), zone).hour === hour,
+            );
+            return (
+              <li
+                key={hour}
+                {...dropHandlers(key, days[0], hour)}
+                className={`flex gap-3 px-3 py-1 ${
+                  dropTarget === key
+                    ? "bg-emerald-500/10"
+                    : gaps.has(dayKey(days[0]))
+                      ? "bg-amber-500/5"
+                      : ""
+                }`}
+              >
+                <span className="w-12 shrink-0 pt-1 text-[11px] text-slate-500">
+                  {String(hour).padStart(2, "0")}:00
+                </span>
+                <ul className="flex min-h-7 flex-1 flex-wrap gap-1">
+                  {drops.map((draft) => renderCard(draft, false))}
+                </ul>
+              </li>
+            );
+          })}
+        </ol>
+      ) : (
+        <div className="grid grid-cols-7 gap-2">
+          {WEEKDAY_LABELS.map((label) => (
+            <p
+              key={label}
+              className="text-center text-[11px] uppercase tracking-wide text-slate-500"
+            >
+              {label}
+            </p>
+          ))}
+          {days.map((day) => {
+            const key = dayKey(day);
+            const drops = byDay.get(key) ?? [];
+            const shown = view === "month" ? drops.slice(0, 3) : drops;
+            return (
+              <div
+                key={key}
+                {...dropHandlers(key, day)}
+                className={`${dayCellClass(
+                  key,
+                  view === "month" && day.getMonth() !== anchor.getMonth(),
+                )} ${view === "week" ? "min-h-48" : "min-h-24"}`}
+              >
+                <button
+                  type="button"
+                  onClick={() => {
+                    setAnchor(day);
+                    setView("day");
+                  }}
+                  className={`mb-1 text-[11px] font-semibold hover:text-emerald-200 ${
+                    key === todayKey ? "text-emerald-300" : "text-slate-400"
+                  }`}
+                >
+                  {day.getDate()}
+                </button>
+                <ul className="space-y-1">
+                  {shown.map((draft) => renderCard(draft, view === "month"))}
+                </ul>
+                {drops.length > shown.length ? (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setAnchor(day);
+                      setView("day");
+                    }}
+                    className="mt-1 text-[11px] text-emerald-300/80 hover:text-emerald-200"
+                  >
+                    +{drops.length - shown.length} more
+                  </button>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
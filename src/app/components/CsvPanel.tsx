@@ -0,0 +1,145 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Campaign, ContentIdea } from "../types";
+import {
+  CsvImportResult,
+  CsvLayout,
+  csvLayouts,
+  importDraftsCsv,
+} from "../utils/draftCsv";
+
+export function CsvPanel({
+  campaign,
+  ideas,
+  onExport,
+  onImport,
+  onClose,
+}: {
+  campaign: Campaign;
+  ideas: ContentIdea[];
+  onExport: (layout: CsvLayout) => void;
+  onImport: (result: CsvImportResult) => void;
+  onClose: () => void;
+}) {
+  const [layout, setLayout] = useState<CsvLayout>("orbit");
+  const [text, setText] = useState("");
+  const preview = useMemo(
+    () => (text.trim() ? importDraftsCsv(text, campaign, ideas) : null),
+    [text, campaign, ideas],
+  );
+  const errorRows = preview
+    ? new Set(
+        preview.issues
+          .filter((issue) => issue.severity === "error")
+          .map((issue) => issue.row),
+      ).size
+    : 0;
+
+  return (
+    <div className="mb-4 grid gap-4 rounded-2xl border border-emerald-400/30 bg-slate-900/70 p-5 md:grid-cols-2">
+      <div className="flex flex-col gap-3">
+        <p className="text-xs font-semibold uppercase tracking-wide text-emerald-300/90">
+          Export Drafts
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(csvLayouts) as CsvLayout[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setLayout(option)}
+              className={`rounded-full border px-3 py-1 text-[11px] font-semibold transition ${
+                layout === option
+                  ? "border-emerald-400/60 bg-emerald-500/15 text-emerald-100"
+                  : "border-white/10 bg-slate-900/70 text-slate-300 hover:border-emerald-400/40 hover:text-white"
+              }`}
+            >
+              {csvLayouts[option].label}
+            </button>
+          ))}
+        </div>
+        <p className="text-[11px] text-slate-400">
+          Buffer and Hootsuite layouts write posting times on each
+          network&apos;s audience clock ({campaign.timezone} unless set
+          otherwise); imported local times are read the same way.
+        </p>
+        <button
+          type="button"
+          onClick={() => onExport(layout)}
+          className="self-start rounded-full bg-emerald-500/90 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-emerald-400"
+        >
+          Download CSV
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <div className="flex items-center justify-between">
+          <p className="text-xs font-semibold uppercase tracking-wide text-emerald-300/90">
+            Import Into {campaign.title}
+          </p>
+          <input
+            type="file"
+            accept="text/csv,.csv"
+            onChange={async (event) => {
+              const file = event.target.files?.[0];
+              if (file) setText(await file.text());
+            }}
+            className="max-w-[11rem] text-xs text-slate-300 file:mr-2 file:rounded-full file:border file:border-white/10 file:bg-transparent file:px-3 file:py-1 file:text-xs file:text-slate-200"
+          />
+        </div>
+        <textarea
+          rows={4}
+          value={text}
+          placeholder="Platform,Caption,Hashtags,Schedule,Stage,Asset Brief,Idea Headline"
+          onChange={(event) => setText(event.target.value)}
+          className="rounded-xl border border-white/10 bg-slate-950/70 px-3 py-2 font-mono text-xs text-slate-200 outline-none placeholder:text-slate-500 focus:border-emerald-400/60"
+        />
+        {preview ? (
+          <div className="text-xs">
+            <p className="text-slate-300">
+              {preview.drafts.length} of {preview.totalRows} rows ready
+              {errorRows ? ` · ${errorRows} rejected` : ""}
+            </p>
+            {preview.issues.length ? (
+              <ul className="mt-2 max-h-32 space-y-1 overflow-y-auto">
+                {preview.issues.map((issue, index) => (
+                  <li
+                    key={`${issue.row}-${index}`}
+                    className={
+                      issue.severity === "error"
+                        ? "text-rose-300"
+                        : "text-amber-200/90"
+                    }
+                  >
+                    Row {issue.row}: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+          </div>
+        ) : null}
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-white/10 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:bg-white/10"
+          >
+            Close
+          </button>
+          <button
+            type="button"
+            disabled={!preview?.drafts.length}
+            onClick={() => {
+              if (!preview) return;
+              onImport(preview);
+              setText("");
+            }}
+            className="rounded-full bg-emerald-500/90 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-white/10 disabled:text-slate-400"
+          >
+            Import Rows
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { ContentDraft, MediaAsset } from "../types";
+import { describeAsset } from "../utils/assets";
+import { partFormat } from "../utils/platformRules";
+import { AssetThumb } from "./AssetThumb";
+
+/**
+ * Thumbnails of the assets a draft posts, in order. While it's editable,
+ * assets can be detached and more attached from the library, those tagged
+ * with words from the asset brief listed first.
+ */
+export function DraftAssets({
+  draft,
+  assets,
+  workspaceId,
+  editable,
+  onChange,
+}: {
+  draft: ContentDraft;
+  assets: MediaAsset[];
+  workspaceId: string;
+  editable: boolean;
+  onChange: (assetIds: string[], label: string) => void;
+}) {
+  const ids = draft.assetIds ?? [];
+  const brief = draft.assetBrief.toLowerCase();
+  const matchesBrief = (asset: MediaAsset) =>
+    asset.tags.some((tag) => brief.includes(tag));
+  const options = assets
+    .filter((asset) => !ids.includes(asset.id))
+    .sort((a, b) => Number(matchesBrief(b)) - Number(matchesBrief(a)));
+  const carousel =
+    partFormat(draft.platform) === "carousel" && !!draft.parts?.length;
+
+  if (!ids.length && !editable) return null;
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-2">
+      {ids.map((id, index) => {
+        const asset = assets.find((item) => item.id === id);
+        return (
+          <div key={id} className="relative">
+            {asset ? (
+              <AssetThumb asset={asset} workspaceId={workspaceId} />
+            ) : (
+              <div
+                title="No longer in the library"
+                className="flex h-12 w-12 items-center justify-center rounded-lg border border-rose-400/50 text-[10px] text-rose-300"
+              >
+                missing
+              </div>
+            )}
+            {carousel ? (
+              <span className="absolute bottom-0 left-0 rounded-br-lg rounded-tl-lg bg-slate-950/80 px-1 text-[10px] text-slate-200">
+                {index + 1}
+              </span>
+            ) : null}
+            {editable ? (
+              <button
+                type="button"
+                aria-label={`Detach ${asset?.name ?? "asset"}`}
+                onClick={() =>
+                  onChange(
+                    ids.filter((item) => item !== id),
+                    `Asset detached: ${asset?.name ?? id}`,
+                  )
+                }
+                className="absolute -right-1 -top-1 h-4 w-4 rounded-full bg-slate-800 text-[10px] leading-4 text-slate-200 transition hover:bg-rose-500"
+              >
+                ×
+              </button>
+            ) : null}
+          </div>
+        );
+      })}
+      {editable && options.length ? (
+        <select
+          value=""
+          onChange={(event) => {
+            const asset = assets.find((item) => item.id === event.target.value);
+            if (asset) {
+              onChange([...ids, asset.id], `Asset attached: ${asset.name}`);
+            }
+          }}
+          className="rounded-xl border border-white/10 bg-slate-900/60 px-2 py-1 text-[11px] text-slate-300 outline-none focus:border-emerald-400/60"
+        >
+          <option value="">
+            {carousel ? `+ Slide ${ids.length + 1} asset` : "+ Attach asset"}
+          </option>
+          {options.map((asset) => (
+            <option key={asset.id} value={asset.id}>
+              {matchesBrief(asset) ? "★ " : ""}
+              {asset.name} · {describeAsset(asset)}
+            </option>
+          ))}
+        </select>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,332 @@
+"use client";
+
+import { useState } from "react";
+import { ContentDraft, DraftPart } from "../types";
+import { createId, normalizeHashtag, RegenerableField } from "../utils/agent";
+import {
+  measureCaption,
+  partLabel,
+  PLATFORM_RULES,
+} from "../utils/platformRules";
+
+const fieldLabels: Record<RegenerableField, string> = {
+  caption: "Caption",
+  hashtags: "Hashtags",
+  assetBrief: "Asset Brief",
+};
+
+const RegenerateButton = ({
+  field,
+  onRegenerate,
+  disabled,
+}: {
+  field: RegenerableField;
+  onRegenerate: (field: RegenerableField) => void;
+  disabled: boolean;
+}) => (
+  <button
+    type="button"
+    onClick={() => onRegenerate(field)}
+    disabled={disabled}
+    title={
+      disabled
+        ? "Source idea no longer exists"
+        : `Regenerate ${fieldLabels[field].toLowerCase()} from the source idea`
+    }
+    className="rounded-full border border-white/10 px-2 py-[2px] text-[10px] uppercase tracking-wide text-slate-300 transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40"
+  >
+    ↻ Regenerate
+  </button>
+);
+
+export function DraftEditor({
+  draft,
+  canRegenerate,
+  onChange,
+  onRegenerate,
+  onClose,
+}: {
+  draft: ContentDraft;
+  canRegenerate: boolean;
+  onChange: (patch: Partial<ContentDraft>, label: string) => void;
+  onRegenerate: (field: RegenerableField) => void;
+  onClose: () => void;
+}) {
+  const [pendingTag, setPendingTag] = useState("");
+  const rules = PLATFORM_RULES[draft.platform];
+  const captionLength = measureCaption(
+    draft.caption,
+    draft.hashtags,
+    draft.platform,
+  );
+
+  const addHashtag = () => {
+    const candidates = pendingTag
+      .split(/[,\s]+/)
+      .map((tag) => tag.trim())
+      .filter((tag) => tag && tag !== "#")
+      .map(normalizeHashtag)
+      .filter((tag) => tag.length > 1 && !draft.hashtags.includes(tag));
+
+    setPendingTag("");
+    if (!candidates.length) return;
+
+    onChange(
+      { hashtags: [...draft.hashtags, ...new Set(candidates)] },
+      `Hashtag added: ${candidates.join(" ")}`,
+    );
+  };
+
+  const removeHashtag = (tag: string) => {
+    onChange(
+      { hashtags: draft.hashtags.filter((item) => item !== tag) },
+      `Hashtag removed: ${tag}`,
+    );
+  };
+
+  const parts = draft.parts ?? [];
+  const partRules = rules.parts;
+  // Dropping the last part turns the draft back into a single post.
+  const setParts = (next: DraftPart[], label: string) =>
+    onChange({ parts: next.length ? next : undefined }, label);
+  const updatePart = (
+    index: number,
+    patch: Partial<DraftPart>,
+    label: string,
+  ) =>
+    setParts(
+      parts.map((part, position) =>
+        position === index ? { ...part, ...patch } : part,
+      ),
+      label,
+    );
+  const movePart = (index: number) =>
+    setParts(
+      parts.map((part, position) =>
+        position === index - 1
+          ? parts[index]
+          : position === index
+            ? parts[index - 1]
+            : part,
+      ),
+      `${partLabel(draft.platform, index)} moved up`,
+    );
+
+  return (
+    <div className="mt-3 flex flex-col gap-3 rounded-xl border border-emerald-400/30 bg-slate-900/70 p-3">
+      <label className="flex flex-col gap-2 text-xs text-slate-300">
+        <span className="flex items-center justify-between">
+          <span>
+            {fieldLabels.caption}{" "}
+            <span
+              className={
+                captionLength > rules.maxCaptionLength
+                  ? "text-rose-300"
+                  : "text-slate-500"
+              }
+            >
+              {captionLength}/{rules.maxCaptionLength}
+            </span>
+          </span>
+          <RegenerateButton
+            field="caption"
+            onRegenerate={onRegenerate}
+            disabled={!canRegenerate}
+          />
+        </span>
+        <textarea
+          rows={7}
+          value={draft.caption}
+          onChange={(event) =>
+            onChange({ caption: event.target.value }, "Caption rewritten")
+          }
+          className="rounded-xl border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 outline-none focus:border-emerald-400/60"
+        />
+      </label>
+
+      <div className="flex flex-col gap-2 text-xs text-slate-300">
+        <span className="flex items-center justify-between">
+          <span>
+            {fieldLabels.hashtags}{" "}
+            <span
+              className={
+                draft.hashtags.length > rules.maxHashtags
+                  ? "text-rose-300"
+                  : "text-slate-500"
+              }
+            >
+              {draft.hashtags.length}/{rules.maxHashtags}
+            </span>
+          </span>
+          <RegenerateButton
+            field="hashtags"
+            onRegenerate={onRegenerate}
+            disabled={!canRegenerate}
+          />
+        </span>
+        <div className="flex flex-wrap gap-1">
+          {draft.hashtags.map((tag) => (
+            <span
+              key={tag}
+              className="flex items-center gap-1 rounded-full bg-white/10 px-2 py-1 text-[11px] uppercase tracking-wide text-slate-200"
+            >
+              {tag}
+              <button
+                type="button"
+                aria-label={`Remove ${tag}`}
+                onClick={() => removeHashtag(tag)}
+                className="text-slate-400 transition hover:text-white"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+        <input
+          value={pendingTag}
+          placeholder="Add hashtag and press Enter"
+          onChange={(event) => setPendingTag(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter" || event.key === ",") {
+              event.preventDefault();
+              addHashtag();
+            }
+          }}
+          onBlur={addHashtag}
+          className="rounded-xl border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 outline-none placeholder:text-slate-500 focus:border-emerald-400/60"
+        />
+      </div>
+
+      <label className="flex flex-col gap-2 text-xs text-slate-300">
+        <span className="flex items-center justify-between">
+          <span>{fieldLabels.assetBrief}</span>
+          <RegenerateButton
+            field="assetBrief"
+            onRegenerate={onRegenerate}
+            disabled={!canRegenerate}
+          />
+        </span>
+        <textarea
+          rows={2}
+          value={draft.assetBrief}
+          onChange={(event) =>
+            onChange({ assetBrief: event.target.value }, "Asset brief reworked")
+          }
+          className="rounded-xl border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 outline-none focus:border-emerald-400/60"
+        />
+      </label>
+
+      {parts.length && partRules ? (
+        <div className="flex flex-col gap-2 text-xs text-slate-300">
+          <span>
+            {partRules.format === "thread" ? "Thread Posts" : "Slides"}{" "}
+            <span
+              className={
+                parts.length > partRules.maxParts
+                  ? "text-rose-300"
+                  : "text-slate-500"
+              }
+            >
+              {parts.length}/{partRules.maxParts}
+            </span>
+          </span>
+          {parts.map((part, index) => {
+            const label = partLabel(draft.platform, index);
+            const length = measureCaption(part.text, [], draft.platform);
+            return (
+              <div
+                key={part.id}
+                className="flex flex-col gap-2 rounded-xl border border-white/10 p-2"
+              >
+                <span className="flex items-center justify-between">
+                  <span>
+                    {label}{" "}
+                    <span
+                      className={
+                        length <= partRules.maxPartLength
+                          ? "text-slate-500"
+                          : partRules.format === "thread"
+                            ? "text-rose-300"
+                            : "text-amber-200/90"
+                      }
+                    >
+                      {length}/{partRules.maxPartLength}
+                    </span>
+                  </span>
+                  <span className="flex gap-1">
+                    <button
+                      type="button"
+                      aria-label={`Move ${label} up`}
+                      disabled={index === 0}
+                      onClick={() => movePart(index)}
+                      className="rounded-full border border-white/10 px-2 py-[2px] text-[10px] text-slate-300 transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      aria-label={`Remove ${label}`}
+                      onClick={() =>
+                        setParts(
+                          parts.filter((_, position) => position !== index),
+                          `${label} removed`,
+                        )
+                      }
+                      className="rounded-full border border-white/10 px-2 py-[2px] text-[10px] text-slate-300 transition hover:bg-white/10"
+                    >
+                      ×
+                    </button>
+                  </span>
+                </span>
+                <textarea
+                  rows={3}
+                  value={part.text}
+                  onChange={(event) =>
+                    updatePart(
+                      index,
+                      { text: event.target.value },
+                      `${label} rewritten`,
+                    )
+                  }
+                  className="rounded-xl border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 outline-none focus:border-emerald-400/60"
+                />
+                <input
+                  value={part.assetBrief}
+                  placeholder="Asset brief"
+                  onChange={(event) =>
+                    updatePart(
+                      index,
+                      { assetBrief: event.target.value },
+                      `${label} asset brief reworked`,
+                    )
+                  }
+                  className="rounded-xl border border-white/10 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 outline-none placeholder:text-slate-500 focus:border-emerald-400/60"
+                />
+              </div>
+            );
+          })}
+          <button
+            type="button"
+            onClick={() =>
+              setParts(
+                [...parts, { id: createId(), text: "", assetBrief: "" }],
+                `${partLabel(draft.platform, parts.length)} added`,
+              )
+            }
+            className="self-start rounded-full border border-white/10 px-3 py-1 text-[11px] uppercase tracking-wide text-slate-300 transition hover:bg-white/10"
+          >
+            + {partRules.format === "thread" ? "Post" : "Slide"}
+          </button>
+        </div>
+      ) : null}
+
+      <button
+        type="button"
+        onClick={onClose}
+        className="self-end rounded-full border border-emerald-400/60 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-emerald-200 transition hover:bg-emerald-500/10"
+      >
+        Done
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { DraftPart, Platform } from "../types";
+import { partFormat, partLabel, RuleViolation } from "../utils/platformRules";
+
+/**
+ * A thread's follow-up posts or a carousel's slides in order, each with its
+ * asset brief. Parts breaking a rule are outlined; the card lists why.
+ */
+export function DraftParts({
+  parts,
+  platform,
+  violations,
+}: {
+  parts: DraftPart[];
+  platform: Platform;
+  violations: RuleViolation[];
+}) {
+  const format = partFormat(platform);
+  const severityOf = (index: number) => {
+    const issues = violations.filter((violation) => violation.part === index);
+    if (issues.some((violation) => violation.severity === "error")) {
+      return "error";
+    }
+    return issues.length ? "warning" : null;
+  };
+
+  return (
+    <div className="mt-3">
+      <p className="text-[11px] uppercase tracking-wide text-slate-400">
+        {format === "thread"
+          ? `Thread · ${parts.length + 1} posts`
+          : format === "carousel"
+            ? `Carousel · ${parts.length} slides`
+            : `${parts.length} parts ${platform} can't post`}
+      </p>
+      <ol className="mt-2 space-y-2">
+        {parts.map((part, index) => (
+          <li
+            key={part.id}
+            className={`rounded-xl border bg-slate-900/60 px-3 py-2 text-[11px] ${
+              severityOf(index) === "error"
+                ? "border-rose-400/50"
+                : severityOf(index) === "warning"
+                  ? "border-amber-300/40"
+                  : "border-white/10"
+            }`}
+          >
+            <p className="font-semibold uppercase tracking-wide text-slate-400">
+              {partLabel(platform, index)}
+            </p>
+            <p className="mt-1 whitespace-pre-line text-xs text-slate-200">
+              {part.text}
+            </p>
+            {part.assetBrief ? (
+              <p className="mt-1 text-slate-400">Visual: {part.assetBrief}</p>
+            ) : null}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
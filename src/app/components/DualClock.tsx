@@ -0,0 +1,28 @@
+"use client";
+
+import {
+  browserTimezone,
+  formatInZone,
+  zoneAbbreviation,
+} from "../utils/timezone";
+
+/**
+ * A drop time on the audience's clock, followed by the viewer's own clock
+ * when the two differ.
+ */
+export function DualClock({ iso, zone }: { iso: string; zone: string }) {
+  const viewer = browserTimezone();
+  const audience = `${formatInZone(iso, zone)} ${zoneAbbreviation(iso, zone)}`;
+  const local = `${formatInZone(iso, viewer)} ${zoneAbbreviation(iso, viewer)}`;
+
+  return (
+    <p className="mt-4 text-[11px] uppercase tracking-wide text-slate-400">
+      Deploys {audience}
+      {local !== audience ? (
+        <span className="block normal-case tracking-normal text-slate-500">
+          {local} your time
+        </span>
+      ) : null}
+    </p>
+  );
+}
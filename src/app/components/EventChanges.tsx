@@ -0,0 +1,63 @@
+"use client";
+
+import { AgentState, StateChange } from "../types";
+import { summarizeChange } from "../utils/history";
+
+export function EventChanges({
+  changes,
+  state,
+  onRevert,
+}: {
+  changes: StateChange[];
+  state: AgentState;
+  /** Left out for archived events, whose values were compacted away. */
+  onRevert?: () => void;
+}) {
+  return (
+    <div className="mt-2 space-y-2 rounded-xl border border-white/10 bg-slate-950/60 p-3 text-[11px]">
+      <ul className="space-y-2">
+        {changes.map((change, index) => {
+          const summary = summarizeChange(change, state);
+          return (
+            <li key={`${change.collection}-${change.id ?? ""}-${index}`}>
+              <p
+                className={
+                  change.kind === "added"
+                    ? "text-emerald-200"
+                    : change.kind === "removed"
+                      ? "text-rose-300"
+                      : "text-slate-200"
+                }
+              >
+                {change.kind === "added"
+                  ? "+"
+                  : change.kind === "removed"
+                    ? "−"
+                    : "~"}{" "}
+                {summary.title}
+              </p>
+              {summary.lines.map((line) => (
+                <p key={line} className="break-words pl-3 text-slate-400">
+                  {line}
+                </p>
+              ))}
+            </li>
+          );
+        })}
+      </ul>
+      {onRevert ? (
+        <button
+          type="button"
+          onClick={onRevert}
+          className="rounded-full border border-amber-300/50 px-3 py-1 uppercase tracking-wide text-amber-200 transition hover:bg-amber-400/10"
+        >
+          Revert
+        </button>
+      ) : (
+        <p className="text-slate-500">
+          Archived — details compacted, so this can no longer be reverted.
+        </p>
+      )}
+    </div>
+  );
+}
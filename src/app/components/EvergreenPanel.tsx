@@ -0,0 +1,143 @@
+"use client";
+
+import { Campaign, ContentDraft, EvergreenSettings } from "../types";
+import { EvergreenCandidate, evergreenQueue, isDue } from "../utils/evergreen";
+import { formatInZone } from "../utils/timezone";
+
+/**
+ * Evergreen settings plus the campaign's top posts waiting out their
+ * cooldown. Any of them can be re-run early by hand.
+ */
+export function EvergreenPanel({
+  campaign,
+  drafts,
+  onChange,
+  onRecycle,
+}: {
+  campaign: Campaign;
+  drafts: ContentDraft[];
+  onChange: (evergreen: EvergreenSettings, label: string) => void;
+  onRecycle: (candidates: EvergreenCandidate[]) => void;
+}) {
+  const { evergreen } = campaign;
+  const queue = evergreenQueue(campaign, drafts);
+  const due = queue.filter((candidate) => isDue(candidate));
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span className="text-xs font-semibold uppercase tracking-wide text-emerald-300/90">
+          Evergreen Queue
+        </span>
+        <button
+          type="button"
+          disabled={!due.length}
+          onClick={() => onRecycle(due)}
+          className="rounded-full border border-emerald-400/40 px-3 py-1 text-[11px] uppercase tracking-wide text-emerald-100 transition hover:bg-emerald-500/10 disabled:cursor-not-allowed disabled:border-white/10 disabled:text-slate-500"
+        >
+          Recycle {due.length || ""} due
+        </button>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <label className="flex items-center gap-3 rounded-xl border border-white/10 bg-slate-900/70 px-4 py-2 text-xs text-slate-200">
+          <input
+            type="checkbox"
+            checked={evergreen.enabled}
+            onChange={(event) =>
+              onChange(
+                { ...evergreen, enabled: event.target.checked },
+                event.target.checked
+                  ? "Evergreen posts now re-run automatically"
+                  : "Evergreen posts only re-run by hand",
+              )
+            }
+            className="accent-emerald-400"
+          />
+          Recycle automatically
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <span className="shrink-0">Cooldown</span>
+          <input
+            type="number"
+            min={1}
+            className="w-20 rounded-xl border border-white/10 bg-slate-900/70 px-3 py-2 text-sm outline-none focus:border-emerald-400/60"
+            value={evergreen.cooldownDays}
+            onChange={(event) => {
+              const days = Math.round(Number(event.target.value));
+              if (days >= 1) {
+                onChange(
+                  { ...evergreen, cooldownDays: days },
+                  `Evergreen cooldown set to ${days} days`,
+                );
+              }
+            }}
+          />
+          <span>days</span>
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <span className="shrink-0">Min lift ×</span>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            className="w-20 rounded-xl border border-white/10 bg-slate-900/70 px-3 py-2 text-sm outline-none focus:border-emerald-400/60"
+            value={evergreen.minLift}
+            onChange={(event) => {
+              const lift = Number(event.target.value);
+              if (Number.isFinite(lift) && lift >= 0) {
+                onChange(
+                  { ...evergreen, minLift: lift },
+                  `Evergreen posts need ×${lift} the platform's engagement`,
+                );
+              }
+            }}
+          />
+        </label>
+      </div>
+
+      {queue.length ? (
+        <ul className="space-y-2">
+          {queue.map((candidate) => (
+            <li
+              key={candidate.originalId}
+              className="flex items-center justify-between gap-3 rounded-xl border border-white/10 bg-slate-900/70 px-4 py-2 text-xs"
+            >
+              <div className="min-w-0">
+                <p className="truncate text-slate-200">
+                  {candidate.source.platform} ·{" "}
+                  {candidate.source.caption.split("\n")[0]}
+                </p>
+                <p className="text-slate-400">
+                  ×{candidate.lift.toFixed(2)} engagement
+                  {candidate.reruns
+                    ? ` · re-run ${candidate.reruns} time${candidate.reruns === 1 ? "" : "s"}`
+                    : ""}{" "}
+                  ·{" "}
+                  {isDue(candidate)
+                    ? "due now"
+                    : `due ${formatInZone(candidate.dueAt, campaign.timezone, {
+                        dateStyle: "medium",
+                      })}`}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => onRecycle([candidate])}
+                className="shrink-0 rounded-full border border-white/10 px-3 py-1 text-[11px] uppercase tracking-wide text-slate-200 transition hover:bg-white/10"
+              >
+                Re-run now
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-slate-400">
+          Published posts that beat their platform&apos;s average engagement by
+          ×{evergreen.minLift} show up here, ready to re-run{" "}
+          {evergreen.cooldownDays} days after they last went out.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  ImportMode,
+  parsePlanBlueprint,
+  PlanBlueprint,
+} from "../utils/planTransfer";
+
+const modeCopy: Record<ImportMode, string> = {
+  merge: "Add as a new campaign and keep the current brand",
+  replace: "Overwrite the campaign with the same id and restore its brand",
+};
+
+export function ImportPlanPanel({
+  onImport,
+  onClose,
+}: {
+  onImport: (blueprint: PlanBlueprint, mode: ImportMode) => void;
+  onClose: () => void;
+}) {
+  const [text, setText] = useState("");
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const parsed = useMemo(
+    () => (text.trim() ? parsePlanBlueprint(text) : null),
+    [text],
+  );
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+  };
+
+  return (
+    <div className="mt-6 flex flex-col gap-4 rounded-2xl border border-emerald-400/30 bg-slate-900/70 p-5">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-semibold uppercase tracking-wide text-emerald-300/90">
+          Import Plan JSON
+        </p>
+        <input
+          type="file"
+          accept="application/json,.json"
+          onChange={(event) => loadFile(event.target.files?.[0])}
+          className="text-xs text-slate-300 file:mr-3 file:rounded-full file:border file:border-white/10 file:bg-transparent file:px-3 file:py-1 file:text-xs file:text-slate-200"
+        />
+      </div>
+
+      <textarea
+        rows={6}
+        value={text}
+        placeholder="Paste a plan exported with Copy Plan JSON…"
+        onChange={(event) => setText(event.target.value)}
+        className="rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 font-mono text-xs text-slate-200 outline-none placeholder:text-slate-500 focus:border-emerald-400/60"
+      />
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(modeCopy) as ImportMode[]).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setMode(option)}
+            title={modeCopy[option]}
+            className={`rounded-full border px-4 py-2 text-xs font-semibold capitalize transition ${
+              mode === option
+                ? "border-emerald-400/60 bg-emerald-500/15 text-emerald-100"
+                : "border-white/10 bg-slate-900/70 text-slate-300 hover:border-emerald-400/40 hover:text-white"
+            }`}
+          >
+            {option}
+          </button>
+        ))}
+        <p className="self-center text-xs text-slate-400">{modeCopy[mode]}</p>
+      </div>
+
+      {parsed ? (
+        parsed.ok ? (
+          <p className="text-xs text-emerald-200">
+            “{parsed.blueprint.campaign.title}” · {parsed.blueprint.ideas.length}{" "}
+            ideas · {parsed.blueprint.drafts.length} drafts
+            {parsed.blueprint.brand ? ` · brand ${parsed.blueprint.brand.name}` : ""}
+            {parsed.repaired ? ` · ${parsed.repaired} fields repaired` : ""}
+            {parsed.skipped ? ` · ${parsed.skipped} records skipped` : ""}
+          </p>
+        ) : (
+          <p className="text-xs text-rose-300">{parsed.error}</p>
+        )
+      ) : null}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full border border-white/10 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:bg-white/10"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          disabled={!parsed?.ok}
+          onClick={() => {
+            if (parsed?.ok) onImport(parsed.blueprint, mode);
+          }}
+          className="rounded-full bg-emerald-500/90 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-white/10 disabled:text-slate-400"
+        >
+          Import
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import { ContentDraft } from "../types";
+import {
+  checkMetricReading,
+  engagementRate,
+  formatRate,
+  latestSample,
+} from "../utils/analytics";
+
+const sourceLabels = {
+  manual: "entered",
+  csv: "imported",
+  connector: "from network",
+} as const;
+
+export function MetricsEntry({
+  draft,
+  onRecord,
+}: {
+  draft: ContentDraft;
+  onRecord: (impressions: number, engagements: number) => void;
+}) {
+  const [impressions, setImpressions] = useState("");
+  const [engagements, setEngagements] = useState("");
+  const latest = latestSample(draft);
+  const problem =
+    impressions && engagements
+      ? checkMetricReading(Number(impressions), Number(engagements))
+      : null;
+
+  return (
+    <div className="mt-3 rounded-xl border border-white/10 bg-slate-900/60 p-3 text-[11px] text-slate-300">
+      {latest ? (
+        <p
+          title={(draft.metrics ?? [])
+            .map(
+              (sample) =>
+                `${new Date(sample.capturedAt).toLocaleString()}: ${sample.impressions} / ${sample.engagements} (${sourceLabels[sample.source]})`,
+            )
+            .join("\n")}
+        >
+          <span className="font-semibold text-white">
+            {latest.impressions.toLocaleString()}
+          </span>{" "}
+          impressions ·{" "}
+          <span className="font-semibold text-white">
+            {latest.engagements.toLocaleString()}
+          </span>{" "}
+          engagements ·{" "}
+          {formatRate(engagementRate(latest.impressions, latest.engagements))}{" "}
+          ER
+          <span className="text-slate-500">
+            {" "}
+            · {draft.metrics?.length} reading
+            {draft.metrics?.length === 1 ? "" : "s"}
+          </span>
+        </p>
+      ) : (
+        <p className="text-slate-400">No performance readings yet.</p>
+      )}
+      <form
+        className="mt-2 flex flex-wrap items-center gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (!impressions || !engagements || problem) return;
+          onRecord(Number(impressions), Number(engagements));
+          setImpressions("");
+          setEngagements("");
+        }}
+      >
+        <input
+          type="number"
+          min={0}
+          value={impressions}
+          placeholder="Impressions"
+          onChange={(event) => setImpressions(event.target.value)}
+          className="w-24 rounded-lg border border-white/10 bg-slate-950/70 px-2 py-1 outline-none focus:border-emerald-400/60"
+        />
+        <input
+          type="number"
+          min={0}
+          value={engagements}
+          placeholder="Engagements"
+          onChange={(event) => setEngagements(event.target.value)}
+          className="w-24 rounded-lg border border-white/10 bg-slate-950/70 px-2 py-1 outline-none focus:border-emerald-400/60"
+        />
+        <button
+          type="submit"
+          disabled={!impressions || !engagements || !!problem}
+          className="rounded-full border border-emerald-400/60 px-3 py-1 uppercase tracking-wide text-emerald-200 transition hover:bg-emerald-500/10 disabled:cursor-not-allowed disabled:border-white/10 disabled:text-slate-500"
+        >
+          Record
+        </button>
+      </form>
+      {problem ? <p className="mt-1 text-rose-300">{problem}</p> : null}
+    </div>
+  );
+}
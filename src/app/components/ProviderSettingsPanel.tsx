@@ -0,0 +1,77 @@
+"use client";
+
+import { ProviderId } from "../types";
+import { ProviderSettings, providerLabels } from "../utils/providers";
+
+const inputClass =
+  "rounded-xl border border-white/10 bg-slate-900/70 px-3 py-2 text-sm text-slate-200 outline-none placeholder:text-slate-500 focus:border-emerald-400/60";
+
+export function ProviderSettingsPanel({
+  settings,
+  onChange,
+}: {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+}) {
+  const update = (patch: Partial<ProviderSettings>) =>
+    onChange({ ...settings, ...patch });
+
+  return (
+    <div className="mb-5 flex flex-col gap-3 rounded-2xl border border-white/10 bg-white/5 p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-semibold uppercase tracking-wide text-emerald-300/90">
+          Generation Provider
+        </span>
+        {(Object.keys(providerLabels) as ProviderId[]).map((provider) => (
+          <button
+            key={provider}
+            type="button"
+            onClick={() => update({ provider })}
+            className={`rounded-full border px-3 py-1 text-[11px] font-semibold transition ${
+              settings.provider === provider
+                ? "border-emerald-400/60 bg-emerald-500/15 text-emerald-100"
+                : "border-white/10 bg-slate-900/70 text-slate-300 hover:border-emerald-400/40 hover:text-white"
+            }`}
+          >
+            {providerLabels[provider]}
+          </button>
+        ))}
+      </div>
+
+      {settings.provider === "openai-compatible" ? (
+        <div className="grid gap-3 md:grid-cols-3">
+          <label className="flex flex-col gap-1 text-xs text-slate-300">
+            <span>Base URL</span>
+            <input
+              value={settings.baseUrl}
+              placeholder="http://localhost:11434/v1"
+              onChange={(event) => update({ baseUrl: event.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-300">
+            <span>Model</span>
+            <input
+              value={settings.model}
+              onChange={(event) => update({ model: event.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-300">
+            <span>API Key (optional)</span>
+            <input
+              type="password"
+              value={settings.apiKey}
+              onChange={(event) => update({ apiKey: event.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <p className="text-[11px] text-slate-400 md:col-span-3">
+            Requests go straight from this browser to the endpoint. If it fails
+            or returns an invalid payload, the template engine fills in.
+          </p>
+        </div>
+      ) : null}
+    </div>
+  );
+}
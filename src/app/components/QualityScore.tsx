@@ -0,0 +1,62 @@
+"use client";
+
+import { QualityBreakdown } from "../utils/quality";
+
+const band = (score: number) =>
+  score >= 0.75
+    ? "bg-emerald-400/80"
+    : score >= 0.4
+      ? "bg-amber-300/80"
+      : "bg-rose-400/80";
+
+export function QualityScore({
+  quality,
+  open,
+  onToggle,
+}: {
+  quality: QualityBreakdown;
+  open: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      aria-expanded={open}
+      title="Show how this score was reached"
+      className="shrink-0 rounded-full border border-emerald-400/50 px-3 py-1 text-[11px] font-semibold text-emerald-200 transition hover:bg-emerald-500/10"
+    >
+      Score {quality.total} {open ? "▴" : "▾"}
+    </button>
+  );
+}
+
+export function QualityBreakdownList({
+  quality,
+}: {
+  quality: QualityBreakdown;
+}) {
+  return (
+    <ul className="mt-3 space-y-2 rounded-xl border border-white/10 bg-slate-900/60 p-3 text-[11px]">
+      {quality.criteria.map((criterion) => (
+        <li key={criterion.id}>
+          <div className="flex items-baseline justify-between gap-3">
+            <span className="text-slate-200">{criterion.label}</span>
+            <span className="shrink-0 text-slate-400">
+              {criterion.weight
+                ? `${Math.round(criterion.points)} / ${Math.round(criterion.maxPoints)}`
+                : "off"}
+            </span>
+          </div>
+          <div className="mt-1 h-1.5 rounded-full bg-white/5">
+            <div
+              className={`h-1.5 rounded-full ${band(criterion.score)}`}
+              style={{ width: `${criterion.score * 100}%` }}
+            />
+          </div>
+          <p className="mt-1 text-slate-400">{criterion.note}</p>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import { ContentDraft, ReviewDecision } from "../types";
+import {
+  CommentThread,
+  commentThreads,
+  describeDecision,
+  isApprovalOutdated,
+  latestDecision,
+} from "../utils/review";
+
+/** Author of comments left by whoever drafts the content. */
+const CONTENT_TEAM = "Content team";
+
+const formatWhen = (value: string) =>
+  new Intl.DateTimeFormat("en", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(new Date(value));
+
+/** One-line sign-off state for a pipeline card; nothing until someone decides. */
+export function ReviewStatus({ draft }: { draft: ContentDraft }) {
+  const decision = latestDecision(draft);
+  if (!decision) return null;
+  const outdated = isApprovalOutdated(draft);
+
+  return (
+    <p
+      className={`mt-2 text-[11px] ${
+        decision.verdict === "approved" && !outdated
+          ? "text-emerald-200"
+          : "text-amber-200/90"
+      }`}
+    >
+      {decision.verdict === "approved" ? "✓" : "↺"} {describeDecision(decision)}
+      {outdated ? " · edited since, needs another sign-off" : ""}
+    </p>
+  );
+}
+
+export function ReviewPanel({
+  draft,
+  reviewers,
+  canDecide,
+  onComment,
+  onDecide,
+}: {
+  draft: ContentDraft;
+  reviewers: string[];
+  /** Sign-off is only offered while the draft sits in review. */
+  canDecide: boolean;
+  onComment: (author: string, body: string, replyTo?: string) => void;
+  onDecide: (reviewer: string, verdict: ReviewDecision["verdict"]) => void;
+}) {
+  const [actingAs, setActingAs] = useState(reviewers[0] ?? CONTENT_TEAM);
+  const [body, setBody] = useState("");
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const author = [...reviewers, CONTENT_TEAM].includes(actingAs)
+    ? actingAs
+    : CONTENT_TEAM;
+  const isReviewer = reviewers.includes(author);
+  const threads = commentThreads(draft.review?.comments ?? []);
+  const decisions = draft.review?.decisions ?? [];
+
+  const renderThread = ({ comment, replies }: CommentThread) => (
+    <li key={comment.id}>
+      <p className="text-slate-400">
+        <span className="font-semibold text-slate-200">{comment.author}</span> ·{" "}
+        {formatWhen(comment.createdAt)}
+      </p>
+      <p className="whitespace-pre-wrap text-slate-200">{comment.body}</p>
+      <button
+        type="button"
+        onClick={() => setReplyTo(comment.id)}
+        className="text-emerald-300/80 hover:text-emerald-200"
+      >
+        Reply
+      </button>
+      {replies.length ? (
+        <ul className="mt-2 space-y-2 border-l border-white/10 pl-3">
+          {replies.map(renderThread)}
+        </ul>
+      ) : null}
+    </li>
+  );
+
+  const replyingTo = draft.review?.comments.find(
+    (comment) => comment.id === replyTo,
+  );
+
+  return (
+    <div className="mt-3 space-y-3 rounded-xl border border-white/10 bg-slate-900/60 p-3 text-[11px] text-slate-300">
+      <label className="flex items-center gap-2">
+        <span className="uppercase tracking-wide text-slate-400">
+          Acting as
+        </span>
+        <select
+          value={author}
+          onChange={(event) => setActingAs(event.target.value)}
+          className="rounded-lg border border-white/10 bg-slate-950/70 px-2 py-1 outline-none focus:border-emerald-400/60"
+        >
+          {[...reviewers, CONTENT_TEAM].map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {canDecide ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            disabled={!isReviewer}
+            onClick={() => onDecide(author, "approved")}
+            className="rounded-full border border-emerald-400/60 px-3 py-1 uppercase tracking-wide text-emerald-200 transition hover:bg-emerald-500/10 disabled:cursor-not-allowed disabled:border-white/10 disabled:text-slate-500"
+          >
+            Approve
+          </button>
+          <button
+            type="button"
+            disabled={!isReviewer}
+            onClick={() => onDecide(author, "changes_requested")}
+            className="rounded-full border border-amber-300/50 px-3 py-1 uppercase tracking-wide text-amber-200 transition hover:bg-amber-400/10 disabled:cursor-not-allowed disabled:border-white/10 disabled:text-slate-500"
+          >
+            Request Changes
+          </button>
+          {!isReviewer ? (
+            <span className="text-slate-500">
+              {reviewers.length
+                ? "Pick a reviewer to sign off."
+                : "Add reviewers to the campaign to sign off."}
+            </span>
+          ) : null}
+        </div>
+      ) : null}
+
+      {decisions.length ? (
+        <ul className="space-y-1">
+          {decisions.map((decision, index) => (
+            <li
+              key={`${decision.decidedAt}-${index}`}
+              className={
+                decision.verdict === "approved"
+                  ? "text-emerald-200"
+                  : "text-amber-200/90"
+              }
+            >
+              {decision.verdict === "approved" ? "✓" : "↺"}{" "}
+              {describeDecision(decision)} · {formatWhen(decision.decidedAt)}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {threads.length ? (
+        <ul className="space-y-3">{threads.map(renderThread)}</ul>
+      ) : (
+        <p className="text-slate-400">No comments yet.</p>
+      )}
+
+      <form
+        className="space-y-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (!body.trim()) return;
+          onComment(author, body.trim(), replyingTo?.id);
+          setBody("");
+          setReplyTo(null);
+        }}
+      >
+        {replyingTo ? (
+          <p className="text-slate-400">
+            Replying to {replyingTo.author} ·{" "}
+            <button
+              type="button"
+              onClick={() => setReplyTo(null)}
+              className="underline"
+            >
+              cancel
+            </button>
+          </p>
+        ) : null}
+        <textarea
+          rows={2}
+          value={body}
+          placeholder="Leave a comment"
+          onChange={(event) => setBody(event.target.value)}
+          className="w-full rounded-lg border border-white/10 bg-slate-950/70 px-2 py-1 outline-none placeholder:text-slate-500 focus:border-emerald-400/60"
+        />
+        <button
+          type="submit"
+          disabled={!body.trim()}
+          className="rounded-full border border-emerald-400/60 px-3 py-1 uppercase tracking-wide text-emerald-200 transition hover:bg-emerald-500/10 disabled:cursor-not-allowed disabled:border-white/10 disabled:text-slate-500"
+        >
+          {replyingTo ? "Reply" : "Comment"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import { ScoreCriterion, ScoreWeights } from "../types";
+import {
+  DEFAULT_SCORE_WEIGHTS,
+  MAX_SCORE_WEIGHT,
+  scoreCriteria,
+} from "../utils/quality";
+
+export function ScoreWeightsPanel({
+  weights,
+  onSave,
+  onClose,
+}: {
+  weights: ScoreWeights;
+  onSave: (weights: ScoreWeights) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState(weights);
+  const ids = Object.keys(scoreCriteria) as ScoreCriterion[];
+  const total = ids.reduce((sum, id) => sum + draft[id], 0);
+  const changed = ids.some((id) => draft[id] !== weights[id]);
+
+  return (
+    <div className="mb-4 flex flex-col gap-4 rounded-2xl border border-emerald-400/30 bg-slate-900/70 p-5">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs font-semibold uppercase tracking-wide text-emerald-300/90">
+          Score Weights
+        </p>
+        <p className="text-xs text-slate-400">
+          Weights are relative; 0 leaves a criterion out of the score.
+        </p>
+      </div>
+      <div className="grid gap-3 md:grid-cols-2">
+        {ids.map((id) => (
+          <label
+            key={id}
+            className="flex flex-col gap-1 text-xs text-slate-300"
+          >
+            <span className="flex justify-between">
+              <span>{scoreCriteria[id]}</span>
+              <span className="text-slate-400">
+                {draft[id]} ·{" "}
+                {total ? Math.round((draft[id] / total) * 100) : 0}%
+              </span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={MAX_SCORE_WEIGHT}
+              step={1}
+              value={draft[id]}
+              onChange={(event) =>
+                setDraft((prev) => ({
+                  ...prev,
+                  [id]: Number(event.target.value),
+                }))
+              }
+              className="accent-emerald-400"
+            />
+          </label>
+        ))}
+      </div>
+      {!total ? (
+        <p className="text-xs text-rose-300">
+          Give at least one criterion some weight.
+        </p>
+      ) : null}
+      <div className="flex flex-wrap justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => setDraft(DEFAULT_SCORE_WEIGHTS)}
+          className="rounded-full border border-white/10 px-4 py-2 text-xs uppercase tracking-wide text-slate-300 transition hover:bg-white/10"
+        >
+          Reset Defaults
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full border border-white/10 px-4 py-2 text-xs uppercase tracking-wide text-slate-300 transition hover:bg-white/10"
+        >
+          Close
+        </button>
+        <button
+          type="button"
+          disabled={!changed || !total}
+          onClick={() => onSave(draft)}
+          className="rounded-full bg-emerald-500/90 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-white/10 disabled:text-slate-400"
+        >
+          Save Weights
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import { useState } from "react";
+import { Campaign, ContentSeries, Platform } from "../types";
+import { createId } from "../utils/agent";
+import {
+  DEFAULT_RULE,
+  describeRule,
+  isRuleTime,
+  seriesOccurrences,
+} from "../utils/series";
+
+const WEEKDAYS = [
+  { day: 1, label: "Mon" },
+  { day: 2, label: "Tue" },
+  { day: 3, label: "Wed" },
+  { day: 4, label: "Thu" },
+  { day: 5, label: "Fri" },
+  { day: 6, label: "Sat" },
+  { day: 0, label: "Sun" },
+];
+
+const INTERVALS = [1, 2, 3, 4];
+
+const toggle = <T,>(items: T[], item: T) =>
+  items.includes(item)
+    ? items.filter((value) => value !== item)
+    : [...items, item];
+
+const chipClass = (selected: boolean) =>
+  `rounded-full border px-3 py-1 text-[11px] font-semibold transition ${
+    selected
+      ? "border-emerald-400/60 bg-emerald-500/15 text-emerald-100"
+      : "border-white/10 bg-slate-900/70 text-slate-300 hover:border-emerald-400/40 hover:text-white"
+  }`;
+
+/**
+ * The campaign's recurring series, each with a draft per occurrence and
+ * channel through the timeline, and a form to start another.
+ */
+export function SeriesPanel({
+  campaign,
+  onAdd,
+  onRemove,
+}: {
+  campaign: Campaign;
+  onAdd: (series: ContentSeries) => void;
+  onRemove: (series: ContentSeries) => void;
+}) {
+  const [name, setName] = useState("");
+  const [brief, setBrief] = useState("");
+  const [platforms, setPlatforms] = useState<Platform[]>([]);
+  const [rule, setRule] = useState(DEFAULT_RULE);
+
+  // Until channels are picked the series runs on the whole channel mix.
+  const channels = platforms.length
+    ? platforms.filter((platform) => campaign.platforms.includes(platform))
+    : campaign.platforms;
+  const ready =
+    !!name.trim() &&
+    channels.length > 0 &&
+    rule.weekdays.length > 0 &&
+    isRuleTime(rule.time);
+
+  const add = () => {
+    if (!ready) return;
+    onAdd({
+      id: createId(),
+      name: name.trim(),
+      platforms: channels,
+      rule,
+      brief: brief.trim(),
+    });
+    setName("");
+    setBrief("");
+    setPlatforms([]);
+    setRule(DEFAULT_RULE);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <span className="text-xs font-semibold uppercase tracking-wide text-emerald-300/90">
+        Recurring Series
+      </span>
+
+      {campaign.series.length ? (
+        <ul className="space-y-2">
+          {campaign.series.map((series) => {
+            const episodes = seriesOccurrences(campaign, series).length;
+            return (
+              <li
+                key={series.id}
+                className="flex items-start justify-between gap-3 rounded-xl border border-white/10 bg-slate-900/70 px-4 py-3 text-xs"
+              >
+                <div>
+                  <p className="text-sm font-semibold text-white">
+                    {series.name}
+                  </p>
+                  <p className="text-slate-400">
+                    {describeRule(series.rule)} · {series.platforms.join(", ")}{" "}
+                    · {episodes} episode{episodes === 1 ? "" : "s"} in the
+                    timeline
+                  </p>
+                  {series.brief ? (
+                    <p className="mt-1 text-slate-300">{series.brief}</p>
+                  ) : null}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onRemove(series)}
+                  className="shrink-0 rounded-full border border-white/10 px-3 py-1 text-[11px] uppercase tracking-wide text-slate-300 transition hover:border-rose-400/50 hover:text-rose-200"
+                >
+                  End series
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-xs text-slate-400">
+          No recurring slots yet — add one like “Tip Tuesday” and every
+          occurrence in the timeline gets a draft.
+        </p>
+      )}
+
+      <div className="flex flex-col gap-3 rounded-xl border border-dashed border-white/15 p-4">
+        <div className="grid gap-3 sm:grid-cols-2">
+          <input
+            className="rounded-xl border border-white/10 bg-slate-900/70 px-4 py-2 text-sm outline-none focus:border-emerald-400/60"
+            value={name}
+            placeholder="Series name, e.g. Tip Tuesday"
+            onChange={(event) => setName(event.target.value)}
+          />
+          <input
+            className="rounded-xl border border-white/10 bg-slate-900/70 px-4 py-2 text-sm outline-none focus:border-emerald-400/60"
+            value={brief}
+            placeholder="What each episode covers"
+            onChange={(event) => setBrief(event.target.value)}
+          />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {campaign.platforms.map((platform) => (
+            <button
+              key={platform}
+              type="button"
+              aria-pressed={channels.includes(platform)}
+              onClick={() =>
+                setPlatforms(
+                  toggle(
+                    platforms.length ? platforms : campaign.platforms,
+                    platform,
+                  ),
+                )
+              }
+              className={chipClass(channels.includes(platform))}
+            >
+              {platform}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {WEEKDAYS.map(({ day, label }) => (
+            <button
+              key={day}
+              type="button"
+              aria-pressed={rule.weekdays.includes(day)}
+              onClick={() =>
+                setRule((prev) => ({
+                  ...prev,
+                  weekdays: toggle(prev.weekdays, day),
+                }))
+              }
+              className={chipClass(rule.weekdays.includes(day))}
+            >
+              {label}
+            </button>
+          ))}
+          <select
+            className="rounded-full border border-white/10 bg-slate-900/70 px-3 py-1 text-xs outline-none focus:border-emerald-400/60"
+            value={rule.intervalWeeks}
+            onChange={(event) =>
+              setRule((prev) => ({
+                ...prev,
+                intervalWeeks: Number(event.target.value),
+              }))
+            }
+          >
+            {INTERVALS.map((weeks) => (
+              <option key={weeks} value={weeks}>
+                {weeks === 1 ? "Every week" : `Every ${weeks} weeks`}
+              </option>
+            ))}
+          </select>
+          <input
+            type="time"
+            className="rounded-full border border-white/10 bg-slate-900/70 px-3 py-1 text-xs outline-none focus:border-emerald-400/60"
+            value={rule.time}
+            onChange={(event) =>
+              setRule((prev) => ({ ...prev, time: event.target.value }))
+            }
+          />
+        </div>
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-[11px] text-slate-400">
+            {rule.weekdays.length
+              ? `${describeRule(rule)} on each audience's clock`
+              : "Pick at least one day"}
+          </p>
+          <button
+            type="button"
+            disabled={!ready}
+            onClick={add}
+            className="rounded-full bg-emerald-500/90 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-white/10 disabled:text-slate-400"
+          >
+            Add Series
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { SyncStatus } from "../hooks/useServerSync";
+
+const statusCopy = (status: SyncStatus) => {
+  switch (status.kind) {
+    case "loading":
+      return "Connecting to workspace…";
+    case "saving":
+      return "Saving to workspace…";
+    case "synced":
+      return `Synced · revision ${status.revision}`;
+    case "offline":
+      return "Offline · changes cached in this browser";
+    case "conflict":
+      return `Conflict · server moved to revision ${status.server.revision}`;
+  }
+};
+
+export function SyncIndicator({
+  status,
+  onResolve,
+}: {
+  status: SyncStatus;
+  onResolve: (keep: "server" | "local") => void;
+}) {
+  return (
+    <div
+      className={`flex flex-wrap items-center gap-2 rounded-2xl border px-4 py-2 text-xs ${
+        status.kind === "conflict"
+          ? "border-amber-400/60 bg-amber-500/10 text-amber-100"
+          : status.kind === "offline"
+          ? "border-white/10 bg-white/5 text-slate-300"
+          : "border-emerald-400/30 bg-emerald-500/5 text-emerald-100"
+      }`}
+    >
+      <span>{statusCopy(status)}</span>
+      {status.kind === "conflict" ? (
+        <>
+          <button
+            type="button"
+            onClick={() => onResolve("server")}
+            className="rounded-full border border-amber-300/60 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide transition hover:bg-amber-500/20"
+          >
+            Load Server Copy
+          </button>
+          <button
+            type="button"
+            onClick={() => onResolve("local")}
+            className="rounded-full border border-white/20 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide transition hover:bg-white/10"
+          >
+            Overwrite With Mine
+          </button>
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { useState } from "react";
+import { BrandProfile, CaptionVariant, Platform, ScoreWeights } from "../types";
+import { hashtagSets } from "../utils/agent";
+import { isCompliant, validateDraft } from "../utils/platformRules";
+import { scoreDraft } from "../utils/quality";
+import { QualityBreakdownList, QualityScore } from "./QualityScore";
+
+/**
+ * A draft's caption variants side by side with their quality scores. One
+ * can be kept as the caption, or all of them posted as a split test.
+ */
+export function VariantComparison({
+  variants,
+  platform,
+  brand,
+  weights,
+  onPick,
+  onSplitTest,
+  onDiscard,
+}: {
+  variants: CaptionVariant[];
+  platform: Platform;
+  brand: BrandProfile;
+  weights: ScoreWeights;
+  onPick: (variant: CaptionVariant) => void;
+  onSplitTest: () => void;
+  onDiscard: () => void;
+}) {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const scored = variants.map((variant) => {
+    const draft = {
+      caption: variant.caption,
+      hashtags: variant.hashtags,
+      platform,
+    };
+    return {
+      variant,
+      quality: scoreDraft(draft, brand, weights),
+      compliant: isCompliant(validateDraft(draft)),
+    };
+  });
+  const best = Math.max(...scored.map(({ quality }) => quality.total));
+
+  return (
+    <div className="mt-3 flex flex-col gap-3 rounded-xl border border-emerald-400/30 bg-slate-900/70 p-3">
+      <div className="grid gap-3">
+        {scored.map(({ variant, quality, compliant }) => (
+          <div
+            key={variant.id}
+            className={`rounded-xl border p-3 text-[11px] ${
+              quality.total === best
+                ? "border-emerald-400/50"
+                : "border-white/10"
+            }`}
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-xs font-semibold text-white">
+                  Variant {variant.label}
+                </p>
+                <p className="truncate text-slate-400" title={variant.hook}>
+                  Hook: {variant.hook}
+                </p>
+                <p className="text-slate-400">
+                  CTA: {variant.cta || "Brand default"} ·{" "}
+                  {hashtagSets[variant.hashtagSet]}
+                </p>
+              </div>
+              <QualityScore
+                quality={quality}
+                open={openId === variant.id}
+                onToggle={() =>
+                  setOpenId((current) =>
+                    current === variant.id ? null : variant.id,
+                  )
+                }
+              />
+            </div>
+            {openId === variant.id ? (
+              <QualityBreakdownList quality={quality} />
+            ) : null}
+            <p className="mt-2 whitespace-pre-line text-xs text-slate-200">
+              {variant.caption}
+            </p>
+            <p className="mt-2 text-slate-400">{variant.hashtags.join(" ")}</p>
+            {!compliant ? (
+              <p className="mt-1 text-rose-300">✕ Breaks a platform rule</p>
+            ) : null}
+            <button
+              type="button"
+              onClick={() => onPick(variant)}
+              className="mt-2 rounded-full border border-emerald-400/60 px-3 py-1 uppercase tracking-wide text-emerald-200 transition hover:bg-emerald-500/10"
+            >
+              Pick as winner
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap justify-end gap-2">
+        <button
+          type="button"
+          onClick={onDiscard}
+          className="rounded-full border border-white/10 px-3 py-1 text-[11px] uppercase tracking-wide text-slate-300 transition hover:bg-white/10"
+        >
+          Discard variants
+        </button>
+        <button
+          type="button"
+          onClick={onSplitTest}
+          title="Post every variant as its own drop and compare their engagement"
+          className="rounded-full bg-emerald-500/90 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-emerald-400"
+        >
+          Split test all {variants.length}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import {
+  VoiceCompliance,
+  VoiceIssueCode,
+  voiceIssueLabels,
+} from "../utils/brandVoice";
+
+export function VoiceSummary({ compliance }: { compliance: VoiceCompliance }) {
+  const { checked, compliant, byCode } = compliance;
+  const share = checked ? Math.round((compliant / checked) * 100) : 100;
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-3 rounded-2xl border border-white/10 bg-slate-900/60 px-4 py-3 text-xs">
+      <span className="font-semibold uppercase tracking-wide text-emerald-300/90">
+        Voice Compliance
+      </span>
+      <span className="text-slate-200">
+        <span className="font-semibold text-white">{share}%</span> · {compliant}{" "}
+        of {checked} drafts on-brand
+      </span>
+      <div className="h-1.5 w-24 rounded-full bg-white/5">
+        <div
+          className="h-1.5 rounded-full bg-emerald-400/70"
+          style={{ width: `${share}%` }}
+        />
+      </div>
+      {(Object.keys(byCode) as VoiceIssueCode[]).map((code) => (
+        <span
+          key={code}
+          className="rounded-full border border-amber-300/30 px-2 py-[2px] text-[11px] text-amber-200/90"
+        >
+          {byCode[code]} {voiceIssueLabels[code]}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+import { WorkspaceRegistry } from "../utils/workspaces";
+
+export function WorkspaceSwitcher({
+  registry,
+  onSwitch,
+  onCreate,
+  onExport,
+}: {
+  registry: WorkspaceRegistry;
+  onSwitch: (workspaceId: string) => void;
+  onCreate: (name: string) => void;
+  onExport: () => void;
+}) {
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("");
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <label className="flex items-center gap-2">
+        <span className="uppercase tracking-wide text-emerald-300/80">
+          Workspace
+        </span>
+        <select
+          value={registry.activeId}
+          onChange={(event) => onSwitch(event.target.value)}
+          className="rounded-full border border-white/10 bg-slate-900/70 px-3 py-1 text-slate-100 outline-none focus:border-emerald-400/60"
+        >
+          {registry.workspaces.map((workspace) => (
+            <option key={workspace.id} value={workspace.id}>
+              {workspace.name || "Untitled brand"}
+            </option>
+          ))}
+        </select>
+      </label>
+      {creating ? (
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (!name.trim()) return;
+            onCreate(name.trim());
+            setName("");
+            setCreating(false);
+          }}
+        >
+          <input
+            autoFocus
+            value={name}
+            placeholder="Client or brand name"
+            onChange={(event) => setName(event.target.value)}
+            className="w-44 rounded-full border border-white/10 bg-slate-900/70 px-3 py-1 text-slate-100 outline-none placeholder:text-slate-500 focus:border-emerald-400/60"
+          />
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="rounded-full border border-emerald-400/60 px-3 py-1 uppercase tracking-wide text-emerald-200 transition hover:bg-emerald-500/10 disabled:cursor-not-allowed disabled:border-white/10 disabled:text-slate-500"
+          >
+            Create
+          </button>
+          <button
+            type="button"
+            onClick={() => setCreating(false)}
+            className="rounded-full border border-white/10 px-3 py-1 uppercase tracking-wide text-slate-300 transition hover:bg-white/10"
+          >
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setCreating(true)}
+          className="rounded-full border border-emerald-400/60 px-3 py-1 uppercase tracking-wide text-emerald-200 transition hover:bg-emerald-500/10"
+        >
+          New Client
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={onExport}
+        className="rounded-full border border-white/10 px-3 py-1 uppercase tracking-wide text-slate-300 transition hover:bg-white/10"
+      >
+        Export Workspace
+      </button>
+    </div>
+  );
+}
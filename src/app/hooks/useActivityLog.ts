@@ -0,0 +1,92 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AgentEvent } from "../types";
+import {
+  EventFilter,
+  eventFilterParams,
+  matchesEventFilter,
+  mergeEvents,
+} from "../utils/eventLog";
+
+interface LogPage {
+  events: AgentEvent[];
+  total: number;
+}
+
+/** Lets typing in the search box settle before asking the server. */
+const SEARCH_DEBOUNCE_MS = 300;
+
+export const activityLogUrl = (
+  workspaceId: string,
+  filter: EventFilter,
+  extra: Record<string, string> = {},
+) => {
+  const params = eventFilterParams(filter);
+  params.set("workspace", workspaceId);
+  Object.entries(extra).forEach(([key, value]) => params.set(key, value));
+  return `/api/events?${params.toString()}`;
+};
+
+/**
+ * The newest `limit` events matching `filter`, read from the server's full
+ * log and topped up with local events that haven't been saved yet. Offline,
+ * it falls back to the recent events kept in the working state.
+ */
+export function useActivityLog(
+  workspaceId: string,
+  localEvents: AgentEvent[],
+  filter: EventFilter,
+  limit: number,
+) {
+  const [page, setPage] = useState<LogPage | null>(null);
+  const [offline, setOffline] = useState(false);
+  const url = activityLogUrl(workspaceId, filter, { limit: String(limit) });
+  // Refetch whenever something new is logged.
+  const latestId = localEvents[0]?.id;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => {
+      fetch(url, { cache: "no-store", signal: controller.signal })
+        .then(async (response) => {
+          if (!response.ok) {
+            throw new Error(`Activity log failed with HTTP ${response.status}`);
+          }
+          setPage((await response.json()) as LogPage);
+          setOffline(false);
+        })
+        .catch((error: unknown) => {
+          if (controller.signal.aborted) return;
+          console.error("Failed to load the activity log", error);
+          setOffline(true);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [url, latestId]);
+
+  const matches = (event: AgentEvent) => matchesEventFilter(event, filter);
+  const local = localEvents.filter(matches);
+
+  if (offline || !page) {
+    return { events: local.slice(0, limit), total: local.length, offline };
+  }
+
+  // A page fetched for the previous filter is narrowed until the next lands.
+  const fetched = page.events.filter(matches);
+  const fetchedIds = new Set(page.events.map((event) => event.id));
+  const newest = page.events[0]?.timestamp ?? "";
+  const unsaved = local.filter(
+    (event) => !fetchedIds.has(event.id) && event.timestamp > newest,
+  );
+
+  return {
+    events: mergeEvents(fetched, local).slice(0, limit),
+    total: page.total + unsaved.length,
+    offline,
+  };
+}
@@ -2,17 +2,48 @@
 
 import { useEffect, useState } from "react";
 
-export function useLocalStorage<T>(key: string, initialValue: T) {
+interface StorageOptions<T> {
+  /** Older keys to read from (and then clear) when `key` holds nothing yet. */
+  legacyKeys?: string[];
+  /** Turns parsed JSON into a `T`; defaults to a plain cast. */
+  deserialize?: (value: unknown) => T;
+}
+
+export function useLocalStorage<T>(
+  key: string,
+  initialValue: T,
+  options: StorageOptions<T> = {},
+) {
   const [value, setValue] = useState<T>(() => {
     if (typeof window === "undefined") {
       return initialValue;
     }
 
+    let stored: string | null = null;
+    let sourceKey: string | undefined;
+
     try {
-      const stored = window.localStorage.getItem(key);
-      return stored ? (JSON.parse(stored) as T) : initialValue;
+      sourceKey = [key, ...(options.legacyKeys ?? [])].find(
+        (candidate) => window.localStorage.getItem(candidate) !== null,
+      );
+      stored = sourceKey ? window.localStorage.getItem(sourceKey) : null;
+
+      if (!sourceKey || !stored) {
+        return initialValue;
+      }
+
+      const parsed: unknown = JSON.parse(stored);
+      if (sourceKey !== key) {
+        window.localStorage.removeItem(sourceKey);
+      }
+
+      return options.deserialize ? options.deserialize(parsed) : (parsed as T);
     } catch (error) {
       console.error("Failed to parse storage value", error);
+      if (sourceKey && stored) {
+        // Keep the unreadable payload around instead of overwriting it.
+        window.localStorage.setItem(`${sourceKey}:corrupt`, stored);
+      }
       return initialValue;
     }
   });
@@ -0,0 +1,238 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AgentState } from "../types";
+import { workspaceStorageKey } from "../utils/workspaces";
+
+interface ServerSnapshot {
+  revision: number;
+  updatedAt: string | null;
+  state: AgentState | null;
+}
+
+export type SyncStatus =
+  | { kind: "loading" }
+  | { kind: "saving" }
+  | { kind: "synced"; revision: number; updatedAt: string | null }
+  | { kind: "offline" }
+  | { kind: "conflict"; server: ServerSnapshot };
+
+interface SyncMeta {
+  /** Last server revision this browser saw. */
+  revision: number;
+  /** Local edits that have not reached the server yet. */
+  dirty: boolean;
+}
+
+const META_KEY = "agentic-sync-meta";
+const SAVE_DEBOUNCE_MS = 800;
+/** Picks up writes made elsewhere, e.g. by the background publisher. */
+const POLL_INTERVAL_MS = 30_000;
+
+const readMeta = (key: string): SyncMeta => {
+  try {
+    const stored = window.localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as SyncMeta) : { revision: 0, dirty: false };
+  } catch {
+    return { revision: 0, dirty: false };
+  }
+};
+
+const writeMeta = (key: string, meta: SyncMeta) => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(meta));
+  } catch (error) {
+    console.error("Failed to persist sync metadata", error);
+  }
+};
+
+/**
+ * Mirrors the local (localStorage-cached) state of one workspace to
+ * `/api/state`. Saves carry the last seen revision; a 409 surfaces as a
+ * conflict instead of overwriting someone else's work.
+ */
+export function useServerSync(
+  workspaceId: string,
+  state: AgentState,
+  replaceState: (state: AgentState) => void,
+  /** Upgrades and validates whatever the server sends back. */
+  deserialize: (raw: unknown) => AgentState,
+) {
+  const [status, setStatus] = useState<SyncStatus>({ kind: "loading" });
+  const latestRef = useRef(state);
+  const lastSyncedRef = useRef<string | null>(null);
+  const readyRef = useRef(false);
+  const inflightRef = useRef(false);
+  const pendingRef = useRef(false);
+  const metaKey = workspaceStorageKey(META_KEY, workspaceId);
+  const endpoint = `/api/state?workspace=${encodeURIComponent(workspaceId)}`;
+
+  const push = useCallback(async (baseRevision?: number) => {
+    if (inflightRef.current) {
+      pendingRef.current = true;
+      return;
+    }
+
+    inflightRef.current = true;
+    const snapshot = latestRef.current;
+    const serialized = JSON.stringify(snapshot);
+    const revision = baseRevision ?? readMeta(metaKey).revision;
+    setStatus({ kind: "saving" });
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ baseRevision: revision, state: snapshot }),
+      });
+      const body = (await response.json()) as ServerSnapshot;
+
+      if (response.status === 409) {
+        pendingRef.current = false;
+        setStatus({ kind: "conflict", server: body });
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(`Save failed with HTTP ${response.status}`);
+      }
+
+      lastSyncedRef.current = serialized;
+      const dirty = JSON.stringify(latestRef.current) !== serialized;
+      writeMeta(metaKey, { revision: body.revision, dirty });
+      setStatus({
+        kind: "synced",
+        revision: body.revision,
+        updatedAt: body.updatedAt,
+      });
+    } catch (error) {
+      console.error("Failed to sync workspace", error);
+      setStatus({ kind: "offline" });
+    } finally {
+      inflightRef.current = false;
+    }
+
+    if (pendingRef.current) {
+      pendingRef.current = false;
+      void push();
+    }
+  }, [endpoint, metaKey]);
+
+  const adopt = useCallback(
+    (snapshot: ServerSnapshot) => {
+      if (!snapshot.state) return;
+      const next = deserialize(snapshot.state);
+      lastSyncedRef.current = JSON.stringify(next);
+      latestRef.current = next;
+      writeMeta(metaKey, { revision: snapshot.revision, dirty: false });
+      replaceState(next);
+      setStatus({
+        kind: "synced",
+        revision: snapshot.revision,
+        updatedAt: snapshot.updatedAt,
+      });
+    },
+    [replaceState, deserialize, metaKey],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const response = await fetch(endpoint, { cache: "no-store" });
+        if (!response.ok) {
+          throw new Error(`Load failed with HTTP ${response.status}`);
+        }
+        const server = (await response.json()) as ServerSnapshot;
+        if (cancelled) return;
+
+        readyRef.current = true;
+        const meta = readMeta(metaKey);
+
+        if (!server.state) {
+          void push(server.revision);
+        } else if (!meta.dirty) {
+          adopt(server);
+        } else if (server.revision === meta.revision) {
+          void push(server.revision);
+        } else {
+          setStatus({ kind: "conflict", server });
+        }
+      } catch (error) {
+        if (cancelled) return;
+        console.error("Failed to load workspace", error);
+        readyRef.current = true;
+        setStatus({ kind: "offline" });
+      }
+    };
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+    // Runs once: later changes flow through the save effect below.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    latestRef.current = state;
+    if (!readyRef.current) return;
+
+    const serialized = JSON.stringify(state);
+    if (serialized === lastSyncedRef.current) return;
+
+    writeMeta(metaKey, { ...readMeta(metaKey), dirty: true });
+    const timer = setTimeout(() => void push(), SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [state, push, metaKey]);
+
+  useEffect(() => {
+    const retry = () => {
+      if (readMeta(metaKey).dirty) void push();
+    };
+
+    window.addEventListener("online", retry);
+    return () => window.removeEventListener("online", retry);
+  }, [push, metaKey]);
+
+  useEffect(() => {
+    const poll = async () => {
+      if (!readyRef.current || inflightRef.current || document.hidden) return;
+
+      try {
+        const response = await fetch(endpoint, { cache: "no-store" });
+        if (!response.ok) return;
+        const server = (await response.json()) as ServerSnapshot;
+        const meta = readMeta(metaKey);
+
+        if (!server.state || server.revision <= meta.revision) return;
+        if (meta.dirty) {
+          setStatus({ kind: "conflict", server });
+        } else {
+          adopt(server);
+        }
+      } catch {
+        // Offline; the save path already reports that.
+      }
+    };
+
+    const timer = setInterval(() => void poll(), POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [adopt, endpoint, metaKey]);
+
+  const resolveConflict = useCallback(
+    (keep: "server" | "local") => {
+      if (status.kind !== "conflict") return;
+
+      if (keep === "server") {
+        adopt(status.server);
+      } else {
+        void push(status.server.revision);
+      }
+    },
+    [status, adopt, push],
+  );
+
+  return { status, resolveConflict };
+}
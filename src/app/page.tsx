@@ -1,23 +1,140 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { ActivityLog } from "./components/ActivityLog";
+import { AnalyticsPanel } from "./components/AnalyticsPanel";
+import { AssetLibrary } from "./components/AssetLibrary";
+import { ContentCalendar } from "./components/ContentCalendar";
+import { CsvPanel } from "./components/CsvPanel";
+import { DraftAssets } from "./components/DraftAssets";
+import { DraftEditor } from "./components/DraftEditor";
+import { DraftParts } from "./components/DraftParts";
+import { DualClock } from "./components/DualClock";
+import { EvergreenPanel } from "./components/EvergreenPanel";
+import { ImportPlanPanel } from "./components/ImportPlanPanel";
+import { MetricsEntry } from "./components/MetricsEntry";
+import { ProviderSettingsPanel } from "./components/ProviderSettingsPanel";
+import { QualityBreakdownList, QualityScore } from "./components/QualityScore";
+import { ReviewPanel, ReviewStatus } from "./components/ReviewPanel";
+import { ScoreWeightsPanel } from "./components/ScoreWeightsPanel";
+import { SeriesPanel } from "./components/SeriesPanel";
+import { VariantComparison } from "./components/VariantComparison";
+import { SyncIndicator } from "./components/SyncIndicator";
+import { VoiceSummary } from "./components/VoiceSummary";
+import { WorkspaceSwitcher } from "./components/WorkspaceSwitcher";
 import { useLocalStorage } from "./hooks/useLocalStorage";
+import { useServerSync } from "./hooks/useServerSync";
 import {
   AgentEvent,
   AgentState,
   BrandProfile,
   Campaign,
+  CaptionVariant,
   ContentDraft,
   ContentIdea,
+  ContentSeries,
+  EvergreenSettings,
+  MediaAsset,
   PipelineStage,
   Platform,
+  ReviewDecision,
+  ScoreWeights,
+  StateChange,
 } from "./types";
 import {
+  captionVariants,
   createId,
-  draftsFromIdea,
-  generateIdeas,
-  scoreDraft,
+  outlineFromIdea,
+  RegenerableField,
+  regenerateDraftField,
+  slugify,
 } from "./utils/agent";
+import { templatePerformance, withMetricSample } from "./utils/analytics";
+import { describeAsset, draftsUsing, uploadAsset } from "./utils/assets";
+import { explainPick, explainPicks } from "./utils/bandit";
+import { lintBrandVoice, summarizeVoice } from "./utils/brandVoice";
+import {
+  entitiesFromChanges,
+  entitiesOf,
+  RECENT_EVENT_LIMIT,
+  uniqueEntities,
+} from "./utils/eventLog";
+import {
+  DEFAULT_EVERGREEN,
+  EvergreenCandidate,
+  recycleDrafts,
+} from "./utils/evergreen";
+import { diffStates, revertChanges } from "./utils/history";
+import { downloadFile } from "./utils/download";
+import {
+  CsvImportResult,
+  CsvLayout,
+  csvLayouts,
+  exportDraftsCsv,
+} from "./utils/draftCsv";
+import { buildCampaignCalendar, calendarFileName } from "./utils/ical";
+import { MetricsImportResult, metricsTemplateCsv } from "./utils/metricsCsv";
+import {
+  buildPlanBlueprint,
+  ImportMode,
+  importPlan,
+  PlanBlueprint,
+} from "./utils/planTransfer";
+import {
+  isCompliant,
+  partFormat,
+  validateDraft,
+  validateMedia,
+} from "./utils/platformRules";
+import {
+  defaultProviderSettings,
+  describeSource,
+  draftsFromIdeaWithProvider,
+  generateIdeasWithProvider,
+  ProviderSettings,
+  providerLabels,
+  writeCaptionWithProvider,
+} from "./utils/providers";
+import { DEFAULT_SCORE_WEIGHTS, scoreCriteria, scoreDraft } from "./utils/quality";
+import { createSeed } from "./utils/random";
+import {
+  isApprovalOutdated,
+  needsApproval,
+  withComment,
+  withDecision,
+} from "./utils/review";
+import {
+  crowdedNeighbours,
+  describeSchedule,
+  isReschedulable,
+  isTooSoon,
+  MIN_GAP_HOURS,
+  placeNewDrafts,
+  reflowCampaign,
+  resolveCollisions,
+  withSchedules,
+} from "./utils/scheduler";
+import { describeSeriesSync, syncSeriesDrafts } from "./utils/series";
+import { splitTestArms, withVariant } from "./utils/variants";
+import {
+  addDaysToKey,
+  audienceTimezone,
+  browserTimezone,
+  fromZonedInput,
+  timezoneOptions,
+  toZonedInput,
+  zonedDayKey,
+} from "./utils/timezone";
+import { CURRENT_SCHEMA_VERSION, migrateAgentState } from "./utils/schema";
+import {
+  blankWorkspaceState,
+  createWorkspaceId,
+  DEFAULT_WORKSPACE_ID,
+  withServerWorkspaces,
+  WorkspaceRegistry,
+  workspaceStorageKey,
+  WorkspaceSummary,
+} from "./utils/workspaces";
 
 const PLATFORMS: Platform[] = ["Instagram", "LinkedIn", "TikTok", "X"];
 
@@ -35,6 +152,7 @@ const defaultBrand: BrandProfile = {
   hashtags: ["#orbitstudio", "#contentops", "#socialplaybooks"],
   callToAction: "Book an async audit today",
   primaryAudience: "B2B marketing leads building creator-led funnels",
+  bannedPhrases: ["synergy", "game-changer", "guaranteed results"],
 };
 
 const defaultCampaign: Campaign = {
@@ -48,19 +166,58 @@ const defaultCampaign: Campaign = {
     start: toDateInputValue(today),
     end: toDateInputValue(horizon),
   },
+  timezone: browserTimezone(),
+  requiresApproval: false,
+  reviewers: [],
+  series: [],
+  evergreen: DEFAULT_EVERGREEN,
 };
 
 const initialState: AgentState = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   brand: defaultBrand,
   campaigns: [defaultCampaign],
   ideas: [],
   drafts: [],
+  assets: [],
   events: [],
+  scoreWeights: DEFAULT_SCORE_WEIGHTS,
+  quarantine: [],
+};
+
+const STATE_STORAGE_KEY = "agentic-state";
+const ACTIVE_CAMPAIGN_STORAGE_KEY = "agentic-active-campaign";
+const WORKSPACES_STORAGE_KEY = "agentic-workspaces";
+
+const initialRegistry: WorkspaceRegistry = {
+  activeId: DEFAULT_WORKSPACE_ID,
+  workspaces: [{ id: DEFAULT_WORKSPACE_ID, name: defaultBrand.name }],
+};
+
+/** Repairs stored state with the workspace's own defaults, never another's. */
+const loadAgentState = (raw: unknown, fallback: AgentState) => {
+  const { state, report } = migrateAgentState(raw, fallback);
+
+  if (report.toVersion > CURRENT_SCHEMA_VERSION) {
+    console.warn(
+      `Stored agent state is from a newer version of the app (schema ${report.toVersion}); what it added may not survive edits here`,
+      report,
+    );
+  } else if (
+    report.fromVersion !== report.toVersion ||
+    report.repaired ||
+    report.quarantined
+  ) {
+    console.info("Stored agent state upgraded", report);
+  }
+
+  return state;
 };
 
 const stageLabels: Record<PipelineStage, string> = {
   ideas: "Idea Vault",
   drafts: "Draft Studio",
+  in_review: "In Review",
   scheduled: "Scheduled Drops",
   published: "Shipped & Live",
 };
@@ -68,22 +225,36 @@ const stageLabels: Record<PipelineStage, string> = {
 const stageAccent: Record<PipelineStage, string> = {
   ideas: "border-slate-500/40",
   drafts: "border-amber-400/50",
+  in_review: "border-violet-400/50",
   scheduled: "border-emerald-400/60",
   published: "border-blue-400/60",
 };
 
-const stageOrder: PipelineStage[] = ["drafts", "scheduled", "published"];
+const stageOrder: PipelineStage[] = [
+  "drafts",
+  "in_review",
+  "scheduled",
+  "published",
+];
 
 const nextStage: Record<PipelineStage, PipelineStage | null> = {
   ideas: "drafts",
   drafts: "scheduled",
+  in_review: "scheduled",
   scheduled: "published",
   published: null,
 };
 
+/** Review is optional, so drafts skip it unless their campaign requires it. */
+const forwardStage = (draft: ContentDraft, campaign?: Campaign) =>
+  draft.stage === "drafts" && campaign?.requiresApproval
+    ? "in_review"
+    : nextStage[draft.stage];
+
 const prevStage: Record<PipelineStage, PipelineStage | null> = {
   ideas: null,
   drafts: null,
+  in_review: "drafts",
   scheduled: "drafts",
   published: "scheduled",
 };
@@ -94,25 +265,6 @@ const formatDateTime = (value: string) =>
     timeStyle: "short",
   }).format(new Date(value));
 
-const toLocalInput = (value: string) => {
-  const date = new Date(value);
-
-  if (Number.isNaN(date.getTime())) {
-    return "";
-  }
-
-  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
-  return local.toISOString().slice(0, 16);
-};
-
-const toIsoFromInput = (value: string) => {
-  if (!value) return new Date().toISOString();
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) return new Date().toISOString();
-  const tzOffset = date.getTimezoneOffset() * 60000;
-  return new Date(date.getTime() + tzOffset).toISOString();
-};
-
 const SectionCard = ({
   title,
   subtitle,
@@ -146,21 +298,147 @@ const StatPill = ({ label, value }: { label: string; value: string }) => (
 );
 
 export default function Home() {
+  const [registry, setRegistry] = useLocalStorage<WorkspaceRegistry>(
+    WORKSPACES_STORAGE_KEY,
+    initialRegistry,
+  );
+
+  useEffect(() => {
+    fetch("/api/workspaces", { cache: "no-store" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((body: { workspaces: WorkspaceSummary[] } | null) => {
+        if (body) {
+          setRegistry((prev) => withServerWorkspaces(prev, body.workspaces));
+        }
+      })
+      .catch(() => {
+        // Offline: the locally known workspaces are all we can offer.
+      });
+  }, [setRegistry]);
+
+  const renameWorkspace = useCallback(
+    (workspaceId: string, name: string) =>
+      setRegistry((prev) =>
+        prev.workspaces.some(
+          (workspace) => workspace.id === workspaceId && workspace.name !== name,
+        )
+          ? {
+              ...prev,
+              workspaces: prev.workspaces.map((workspace) =>
+                workspace.id === workspaceId ? { ...workspace, name } : workspace,
+              ),
+            }
+          : prev,
+      ),
+    [setRegistry],
+  );
+
+  const createWorkspace = (name: string) => {
+    const id = createWorkspaceId(name);
+    setRegistry((prev) => ({
+      activeId: id,
+      workspaces: [...prev.workspaces, { id, name }],
+    }));
+  };
+
+  const workspace =
+    registry.workspaces.find((item) => item.id === registry.activeId) ??
+    registry.workspaces[0] ??
+    initialRegistry.workspaces[0];
+
+  // Keyed so switching remounts with the other workspace's storage and sync.
+  return (
+    <Workspace
+      key={workspace.id}
+      workspace={workspace}
+      registry={registry}
+      onSwitch={(activeId) => setRegistry((prev) => ({ ...prev, activeId }))}
+      onCreate={createWorkspace}
+      onRename={renameWorkspace}
+    />
+  );
+}
+
+function Workspace({
+  workspace,
+  registry,
+  onSwitch,
+  onCreate,
+  onRename,
+}: {
+  workspace: WorkspaceSummary;
+  registry: WorkspaceRegistry;
+  onSwitch: (workspaceId: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (workspaceId: string, name: string) => void;
+}) {
+  const [fallback] = useState(() =>
+    workspace.id === DEFAULT_WORKSPACE_ID
+      ? initialState
+      : blankWorkspaceState(workspace.name),
+  );
+  const deserialize = useCallback(
+    (raw: unknown) => loadAgentState(raw, fallback),
+    [fallback],
+  );
   const [agentState, setAgentState] = useLocalStorage<AgentState>(
-    "agentic-state-v1",
-    initialState,
+    workspaceStorageKey(STATE_STORAGE_KEY, workspace.id),
+    fallback,
+    {
+      legacyKeys:
+        workspace.id === DEFAULT_WORKSPACE_ID ? ["agentic-state-v1"] : [],
+      deserialize,
+    },
+  );
+  const { status: syncStatus, resolveConflict } = useServerSync(
+    workspace.id,
+    agentState,
+    setAgentState,
+    deserialize,
   );
   const [activeCampaignId, setActiveCampaignId] = useLocalStorage<string>(
-    "agentic-active-campaign",
-    defaultCampaign.id,
+    workspaceStorageKey(ACTIVE_CAMPAIGN_STORAGE_KEY, workspace.id),
+    fallback.campaigns[0]?.id ?? "",
   );
+
+  useEffect(() => {
+    onRename(workspace.id, agentState.brand.name);
+  }, [onRename, workspace.id, agentState.brand.name]);
   const [ideaQuantity, setIdeaQuantity] = useState(4);
   const [creativeBrief, setCreativeBrief] = useState("");
+  const [ideaSeed, setIdeaSeed] = useState("");
+  const [providerSettings, setProviderSettings] =
+    useLocalStorage<ProviderSettings>(
+      "agentic-provider",
+      defaultProviderSettings,
+    );
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showCsv, setShowCsv] = useState(false);
+  const [showWeights, setShowWeights] = useState(false);
+  const [editingDraftId, setEditingDraftId] = useState<string | null>(null);
+  const [scoreDraftId, setScoreDraftId] = useState<string | null>(null);
+  const [reviewDraftId, setReviewDraftId] = useState<string | null>(null);
+  // Event ids, oldest first; history lives as long as the workspace is open.
+  const [undoIds, setUndoIds] = useState<string[]>([]);
+  const [redoIds, setRedoIds] = useState<string[]>([]);
 
   const activeCampaign =
     agentState.campaigns.find((campaign) => campaign.id === activeCampaignId) ??
     agentState.campaigns[0];
 
+  const timezones = useMemo(
+    () =>
+      timezoneOptions(
+        agentState.campaigns.flatMap((campaign) => [
+          campaign.timezone,
+          ...Object.values(campaign.audienceTimezones ?? {}),
+        ]),
+      ),
+    [agentState.campaigns],
+  );
+
   const activeIdeas = useMemo(
     () =>
       agentState.ideas.filter(
@@ -177,6 +455,57 @@ export default function Home() {
     [agentState.drafts, activeCampaign?.id],
   );
 
+  // Media only matters until the post is out.
+  const draftViolations = useMemo(
+    () =>
+      Object.fromEntries(
+        activeDrafts.map((draft) => [
+          draft.id,
+          draft.stage === "published"
+            ? validateDraft(draft)
+            : [
+                ...validateDraft(draft),
+                ...validateMedia(draft, agentState.assets),
+              ],
+        ]),
+      ),
+    [activeDrafts, agentState.assets],
+  );
+
+  const draftVoice = useMemo(
+    () =>
+      Object.fromEntries(
+        activeDrafts.map((draft) => [
+          draft.id,
+          lintBrandVoice(draft, agentState.brand),
+        ]),
+      ),
+    [activeDrafts, agentState.brand],
+  );
+
+  const voiceCompliance = useMemo(
+    () => summarizeVoice(Object.values(draftVoice)),
+    [draftVoice],
+  );
+
+  const draftQuality = useMemo(
+    () =>
+      Object.fromEntries(
+        activeDrafts.map((draft) => [
+          draft.id,
+          scoreDraft(draft, agentState.brand, agentState.scoreWeights),
+        ]),
+      ),
+    [activeDrafts, agentState.brand, agentState.scoreWeights],
+  );
+
+  const pipelineStages = stageOrder.filter(
+    (stage) =>
+      stage !== "in_review" ||
+      activeCampaign?.requiresApproval ||
+      activeDrafts.some((draft) => draft.stage === "in_review"),
+  );
+
   const scheduledDrafts = activeDrafts.filter(
     (draft) => draft.stage === "scheduled",
   );
@@ -184,10 +513,19 @@ export default function Home() {
     (draft) => draft.stage === "published",
   );
 
-  const commit = (
+  /**
+   * Applies `updater` and logs `event` with the changes it made, which is
+   * what undo, redo and reverting from the history view replay. Returns the
+   * event's id.
+   */
+  const applyChange = (
     updater: (prev: AgentState) => AgentState,
     event?: Omit<AgentEvent, "id" | "timestamp">,
   ) => {
+    // Created up front so a re-run updater logs the same event.
+    const id = createId();
+    const timestamp = new Date().toISOString();
+
     setAgentState((previous) => {
       const working = updater(previous);
 
@@ -195,21 +533,120 @@ export default function Home() {
         return working;
       }
 
+      const changes = diffStates(previous, working);
+      const entities = uniqueEntities([
+        ...(event.entities ?? []),
+        ...entitiesFromChanges(changes, working),
+      ]);
       const entry: AgentEvent = {
-        id: createId(),
-        timestamp: new Date().toISOString(),
+        id,
+        timestamp,
         tone: event.tone,
         label: event.label,
         details: event.details,
+        ...(changes.length ? { changes } : {}),
+        ...(entities.length ? { entities } : {}),
       };
 
       return {
         ...working,
-        events: [entry, ...working.events].slice(0, 60),
+        events: [entry, ...working.events].slice(0, RECENT_EVENT_LIMIT),
       };
     });
+
+    return id;
+  };
+
+  const commit = (
+    updater: (prev: AgentState) => AgentState,
+    event?: Omit<AgentEvent, "id" | "timestamp">,
+  ) => {
+    const id = applyChange(updater, event);
+    if (!event) return;
+    setUndoIds((ids) => [...ids, id]);
+    setRedoIds([]);
+  };
+
+  /** Reverts the changes logged with event `eventId`, as of the latest state. */
+  const revertEvent = (eventId: string) => (prev: AgentState) => {
+    const target = prev.events.find((event) => event.id === eventId);
+    return target?.changes ? revertChanges(prev, target.changes).state : prev;
+  };
+
+  const laterEditsKept = (changes: StateChange[] = []) => {
+    const { conflicts } = revertChanges(agentState, changes);
+    return conflicts
+      ? ` · ${conflicts} later edit${conflicts === 1 ? "" : "s"} kept`
+      : "";
+  };
+
+  /** Stack entries whose event changed something and is still in the log. */
+  const undoable = (ids: string[]) =>
+    ids.filter((id) =>
+      agentState.events.some((event) => event.id === id && event.changes),
+    );
+  const undoTarget = agentState.events.find(
+    (event) => event.id === undoable(undoIds).at(-1),
+  );
+  const redoTarget = agentState.events.find(
+    (event) => event.id === undoable(redoIds).at(-1),
+  );
+
+  const undo = () => {
+    if (!undoTarget) return;
+    const id = applyChange(revertEvent(undoTarget.id), {
+      label: "Undo",
+      details: `“${undoTarget.label}”: ${undoTarget.details}${laterEditsKept(undoTarget.changes)}`,
+      tone: "info",
+    });
+    setUndoIds((ids) => ids.slice(0, ids.indexOf(undoTarget.id)));
+    setRedoIds((ids) => [...ids, id]);
+  };
+
+  /** Redoing reverts the undo, so it can itself be undone again. */
+  const redo = () => {
+    if (!redoTarget) return;
+    const id = applyChange(revertEvent(redoTarget.id), {
+      label: "Redo",
+      details: redoTarget.details,
+      tone: "info",
+    });
+    setRedoIds((ids) => ids.slice(0, ids.indexOf(redoTarget.id)));
+    setUndoIds((ids) => [...ids, id]);
   };
 
+  /** Works from the event itself, which may be older than the working state. */
+  const revertFromHistory = (event: AgentEvent) => {
+    commit((prev) => revertChanges(prev, event.changes ?? []).state, {
+      label: "Change Reverted",
+      details: `“${event.label}”: ${event.details}${laterEditsKept(event.changes)}`,
+      tone: "warning",
+    });
+  };
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey) return;
+      // Text fields keep their own undo.
+      const target = event.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select, [contenteditable]")) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
   const updateBrand = (patch: Partial<BrandProfile>, label: string) => {
     commit(
       (prev) => ({
@@ -249,101 +686,801 @@ export default function Home() {
     );
   };
 
-  const handleGenerateIdeas = () => {
-    if (!activeCampaign) return;
+  const reportProviderFallback = (errors: string[], task: string) => {
+    if (!errors.length) return;
+
+    commit((prev) => prev, {
+      label: "Provider Fallback",
+      details: `${providerLabels[providerSettings.provider]} failed during ${task} (${errors.join("; ")}); template engine filled in`,
+      tone: "warning",
+    });
+  };
+
+  const handleGenerateIdeas = async () => {
+    if (!activeCampaign || isGenerating) return;
+    const seed = ideaSeed.trim() || createSeed();
+
+    setIsGenerating(true);
+    try {
+      const { value: payload, errors } = await generateIdeasWithProvider(
+        providerSettings,
+        {
+          brand: agentState.brand,
+          campaign: activeCampaign,
+          total: ideaQuantity,
+          creativeBrief: creativeBrief.trim() || undefined,
+          seed,
+          performance: templatePerformance(
+            agentState.ideas,
+            agentState.drafts,
+            activeCampaign.platforms,
+          ),
+        },
+      );
+
+      reportProviderFallback(errors, "ideation");
+      commit(
+        (prev) => {
+          const merged = [...payload, ...prev.ideas];
+          const unique: ContentIdea[] = [];
+          const seen = new Set<string>();
+
+          merged.forEach((idea) => {
+            if (seen.has(idea.id)) return;
+            seen.add(idea.id);
+            unique.push(idea);
+          });
+
+          return {
+            ...prev,
+            ideas: unique,
+          };
+        },
+        {
+          label: "Ideation Sprint Complete",
+          details: `Generated ${payload.length} angles for ${activeCampaign.title} (seed ${seed})`,
+          tone: "success",
+        },
+      );
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const reuseGenerationSettings = (idea: ContentIdea) => {
+    if (!idea.generation) return;
+    setIdeaSeed(idea.generation.seed);
+    setIdeaQuantity(idea.generation.batchSize);
+    setCreativeBrief(idea.generation.creativeBrief ?? "");
+  };
+
+  const handlePromoteToDrafts = async (idea: ContentIdea) => {
+    if (!activeCampaign || isGenerating) return;
+
+    setIsGenerating(true);
+    try {
+      const { value: newDrafts, errors } = await draftsFromIdeaWithProvider(
+        providerSettings,
+        idea,
+        agentState.brand,
+        activeCampaign,
+        agentState.drafts,
+      );
+
+      reportProviderFallback(errors, "drafting");
+      commit(
+        (prev) => {
+          const existingDrafts = prev.drafts.filter(
+            (draft) => draft.ideaId === idea.id,
+          );
+
+          if (existingDrafts.length) {
+            return prev;
+          }
+
+          return {
+            ...prev,
+            drafts: [...newDrafts, ...prev.drafts],
+          };
+        },
+        {
+          label: "Draft Pack Created",
+          details: `Idea “${idea.headline}” materialised into platform-ready scripts`,
+          tone: "success",
+        },
+      );
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const mutateDraft = (
+    draftId: string,
+    patch: Partial<ContentDraft>,
+    label: string,
+    tone: AgentEvent["tone"] = "info",
+  ) => {
+    const current = agentState.drafts.find((draft) => draft.id === draftId);
+    const updated = current && { ...current, ...patch };
+    // Editing a scheduled draft voids its approval; it goes back for review
+    // instead of out with content nobody signed off.
+    const reopened =
+      updated?.stage === "scheduled" &&
+      needsApproval(
+        updated,
+        agentState.campaigns.find((item) => item.id === updated.campaignId),
+      );
 
     commit(
-      (prev) => {
-        const payload = generateIdeas(
-          prev.brand,
-          activeCampaign,
-          ideaQuantity,
-          creativeBrief.trim() || undefined,
-        );
-
-        const merged = [...payload, ...prev.ideas];
-        const unique: ContentIdea[] = [];
-        const seen = new Set<string>();
-
-        merged.forEach((idea) => {
-          if (seen.has(idea.id)) return;
-          seen.add(idea.id);
-          unique.push(idea);
+      (prev) => ({
+        ...prev,
+        drafts: prev.drafts.map((draft) =>
+          draft.id === draftId
+            ? {
+                ...draft,
+                ...patch,
+                ...(reopened ? { stage: "in_review" as const } : {}),
+              }
+            : draft,
+        ),
+      }),
+      {
+        label,
+        details: reopened
+          ? `Changed since it was approved; back in ${stageLabels.in_review} for another sign-off`
+          : patch.stage
+            ? `Moved to ${stageLabels[patch.stage]}`
+            : label,
+        tone: reopened ? "warning" : tone,
+        entities: reopened && current ? entitiesOf("draft", current) : undefined,
+      },
+    );
+  };
+
+  const advanceDraft = (draft: ContentDraft) => {
+    const campaign = agentState.campaigns.find(
+      (item) => item.id === draft.campaignId,
+    );
+    const target = forwardStage(draft, campaign);
+    if (!target) return;
+
+    if (target === "in_review") {
+      sendForReview(draft);
+      return;
+    }
+
+    if (target === "scheduled" && needsApproval(draft, campaign)) {
+      commit((prev) => prev, {
+        label: "Scheduling Blocked",
+        details: isApprovalOutdated(draft)
+          ? `${draft.platform} draft changed since it was approved; ${campaign?.title} needs another sign-off to schedule it`
+          : `${draft.platform} draft needs a reviewer's approval before ${campaign?.title} can schedule it`,
+        tone: "warning",
+        entities: entitiesOf("draft", draft),
+      });
+      return;
+    }
+
+    if (target === "scheduled") {
+      const blocking = validateDraft(draft).filter(
+        (violation) => violation.severity === "error",
+      );
+
+      if (blocking.length) {
+        commit((prev) => prev, {
+          label: "Scheduling Blocked",
+          details: `${draft.platform} draft breaks platform rules: ${blocking
+            .map((violation) => violation.message)
+            .join("; ")}`,
+          tone: "warning",
+          entities: entitiesOf("draft", draft),
+        });
+        return;
+      }
+
+      const media = validateMedia(draft, agentState.assets);
+      if (!isCompliant(media)) {
+        commit((prev) => prev, {
+          label: "Scheduling Blocked",
+          details: `${draft.platform} draft's assets aren't ready: ${media
+            .map((violation) => violation.message)
+            .join("; ")}`,
+          tone: "warning",
+          entities: entitiesOf("draft", draft),
         });
+        return;
+      }
+    }
 
-        return {
+    // A slot that has passed would go out on the publisher's next run, so
+    // the draft gets the campaign's next open one instead.
+    if (
+      target === "scheduled" &&
+      isTooSoon({ ...draft, stage: target }, draft.schedule, new Date())
+    ) {
+      if (!campaign) {
+        commit((prev) => prev, {
+          label: "Scheduling Blocked",
+          details: `${draft.platform} draft's slot has passed and it has no campaign to find a new one in`,
+          tone: "warning",
+          entities: entitiesOf("draft", draft),
+        });
+        return;
+      }
+      const result = placeNewDrafts(
+        [draft],
+        campaign,
+        agentState.drafts.filter((item) => item.id !== draft.id),
+      );
+      const schedule = result.schedules[draft.id];
+      commit(
+        (prev) => ({
           ...prev,
-          ideas: unique.slice(0, 40),
-        };
+          drafts: prev.drafts.map((item) =>
+            item.id === draft.id
+              ? { ...item, stage: target, schedule, publication: undefined }
+              : item,
+          ),
+        }),
+        {
+          label: "Scheduling locked",
+          details: `${draft.platform} draft's slot had passed; moved to ${formatDateTime(schedule)}${
+            result.crowded.length ? ", closer than the channel gap allows" : ""
+          }`,
+          tone: "warning",
+          entities: entitiesOf("draft", draft),
+        },
+      );
+      return;
+    }
+
+    if (target === "published") {
+      publishNow(draft);
+      return;
+    }
+
+    mutateDraft(
+      draft.id,
+      { stage: target, publication: undefined },
+      "Scheduling locked",
+    );
+  };
+
+  const sendForReview = (draft: ContentDraft) => {
+    commit(
+      (prev) => ({
+        ...prev,
+        drafts: prev.drafts.map((item) =>
+          item.id === draft.id ? { ...item, stage: "in_review" } : item,
+        ),
+      }),
+      {
+        label: "Sent for Review",
+        details: `${draft.platform} draft “${draft.caption.split("\n")[0]}” is waiting for sign-off`,
+        tone: "info",
       },
+    );
+    setReviewDraftId(draft.id);
+  };
+
+  const commentOnDraft = (
+    draft: ContentDraft,
+    author: string,
+    body: string,
+    replyTo?: string,
+  ) => {
+    const comment = {
+      id: createId(),
+      author,
+      body,
+      createdAt: new Date().toISOString(),
+      replyTo,
+    };
+
+    commit(
+      (prev) => ({
+        ...prev,
+        drafts: prev.drafts.map((item) =>
+          item.id === draft.id
+            ? { ...item, review: withComment(item, comment) }
+            : item,
+        ),
+      }),
       {
-        label: "Ideation Sprint Complete",
-        details: `Generated ${ideaQuantity} angles for ${activeCampaign.title}`,
-        tone: "success",
+        label: replyTo ? "Review Reply" : "Review Comment",
+        details: `${author} on the ${draft.platform} draft: “${body}”`,
+        tone: "info",
       },
     );
   };
 
-  const handlePromoteToDrafts = (idea: ContentIdea) => {
+  /** Requested changes send the draft back to the studio for another pass. */
+  const decideReview = (
+    draft: ContentDraft,
+    reviewer: string,
+    verdict: ReviewDecision["verdict"],
+  ) => {
+    const decision = {
+      reviewer,
+      verdict,
+      decidedAt: new Date().toISOString(),
+    };
+
+    commit(
+      (prev) => ({
+        ...prev,
+        drafts: prev.drafts.map((item) =>
+          item.id === draft.id
+            ? {
+                ...item,
+                review: withDecision(item, decision),
+                stage: verdict === "approved" ? item.stage : "drafts",
+              }
+            : item,
+        ),
+      }),
+      verdict === "approved"
+        ? {
+            label: "Draft Approved",
+            details: `${reviewer} signed off the ${draft.platform} draft; it can be scheduled`,
+            tone: "success",
+          }
+        : {
+            label: "Changes Requested",
+            details: `${reviewer} sent the ${draft.platform} draft back to ${stageLabels.drafts}`,
+            tone: "warning",
+          },
+    );
+  };
+
+  /** Why the card's forward button can't schedule the draft, if it can't. */
+  const schedulingBlocker = (draft: ContentDraft) => {
+    if (forwardStage(draft, activeCampaign) !== "scheduled") return undefined;
+    if (!isCompliant(validateDraft(draft))) {
+      return "Fix platform rule errors before scheduling";
+    }
+    if (!isCompliant(validateMedia(draft, agentState.assets))) {
+      return "Attach assets that fit the network before scheduling";
+    }
+    if (needsApproval(draft, activeCampaign)) {
+      return isApprovalOutdated(draft)
+        ? "Edited since it was approved: needs another sign-off"
+        : "Needs a reviewer's approval before scheduling";
+    }
+    return undefined;
+  };
+
+  /** An empty `zone` goes back to the campaign's own timezone. */
+  const setAudienceTimezone = (
+    campaign: Campaign,
+    platform: Platform,
+    zone: string,
+  ) => {
+    const audienceTimezones = { ...campaign.audienceTimezones };
+    if (zone) audienceTimezones[platform] = zone;
+    else delete audienceTimezones[platform];
+
+    rescheduleCampaign(
+      campaign,
+      { audienceTimezones },
+      `${platform} audience clock set to ${zone || campaign.timezone}`,
+    );
+  };
+
+  /** Drafts are scheduled and shown on their channel audience's clock. */
+  const draftTimezone = (draft: ContentDraft) => {
+    const campaign = agentState.campaigns.find(
+      (item) => item.id === draft.campaignId,
+    );
+    return campaign
+      ? audienceTimezone(campaign, draft.platform)
+      : browserTimezone();
+  };
+
+  /** "Tip Tuesday episode" or "Evergreen re-run" for drafts not built from an idea. */
+  const draftOrigin = (draft: ContentDraft) => {
+    if (draft.recycledFrom) return "Evergreen re-run";
+    const series = agentState.campaigns
+      .find((item) => item.id === draft.campaignId)
+      ?.series.find((item) => item.id === draft.seriesId);
+    return series ? `${series.name} episode` : undefined;
+  };
+
+  /**
+   * Applies an edit that moves series slots (series, timezones) and brings
+   * the campaign's episodes in line with it.
+   */
+  const rescheduleCampaign = (
+    campaign: Campaign,
+    patch: Partial<Campaign>,
+    details: string,
+    label = "Campaign Blueprint Tweaked",
+  ) => {
+    const updated = { ...campaign, ...patch };
+    const summary = describeSeriesSync(
+      syncSeriesDrafts(updated, agentState.drafts, agentState.brand),
+    );
+
+    commit(
+      (prev) => ({
+        ...prev,
+        campaigns: prev.campaigns.map((item) =>
+          item.id === campaign.id ? { ...item, ...patch } : item,
+        ),
+        drafts: syncSeriesDrafts(updated, prev.drafts, prev.brand).drafts,
+      }),
+      {
+        label,
+        details: summary ? `${details}; ${summary}` : details,
+        tone: "info",
+      },
+    );
+  };
+
+  /**
+   * Timeline edits re-slot the campaign's series, then re-flow its other
+   * drafts around them so every drop stays inside the timeline.
+   */
+  const changeTimeline = (
+    campaign: Campaign,
+    timeline: Campaign["timeline"],
+    label: string,
+  ) => {
+    const updated = { ...campaign, timeline };
+    const sync = syncSeriesDrafts(updated, agentState.drafts, agentState.brand);
+    const result = reflowCampaign(updated, sync.drafts);
+    const summary = [describeSeriesSync(sync), describeSchedule(result)]
+      .filter(Boolean)
+      .join("; ");
+
+    commit(
+      (prev) => ({
+        ...prev,
+        campaigns: prev.campaigns.map((item) =>
+          item.id === campaign.id ? { ...item, timeline } : item,
+        ),
+        drafts: withSchedules(
+          syncSeriesDrafts(updated, prev.drafts, prev.brand).drafts,
+          result,
+        ),
+      }),
+      {
+        label: "Campaign Blueprint Tweaked",
+        details: summary ? `${label}; ${summary}` : label,
+        tone: result.crowded.length ? "warning" : "info",
+      },
+    );
+  };
+
+  const addSeries = (campaign: Campaign, series: ContentSeries) =>
+    rescheduleCampaign(
+      campaign,
+      { series: [...campaign.series, series] },
+      `${series.name} added to ${campaign.title}`,
+      "Series Scheduled",
+    );
+
+  /** Unpublished episodes go with the series; published ones stay on record. */
+  const removeSeries = (campaign: Campaign, series: ContentSeries) =>
+    rescheduleCampaign(
+      campaign,
+      { series: campaign.series.filter((item) => item.id !== series.id) },
+      `${series.name} ended for ${campaign.title}`,
+      "Series Ended",
+    );
+
+  const updateEvergreen = (
+    campaign: Campaign,
+    evergreen: EvergreenSettings,
+    label: string,
+  ) => updateCampaign(campaign.id, { evergreen }, label);
+
+  const recycleEvergreen = (
+    campaign: Campaign,
+    candidates: EvergreenCandidate[],
+  ) => {
+    const copies = recycleDrafts(
+      candidates,
+      campaign,
+      agentState.drafts,
+      agentState.assets,
+    );
+
+    commit((prev) => ({ ...prev, drafts: [...prev.drafts, ...copies] }), {
+      label: "Evergreen Recycled",
+      details: `${campaign.title}: ${copies
+        .map((copy) => copy.platform)
+        .join(", ")} post${copies.length === 1 ? "" : "s"} back in the queue`,
+      tone: "success",
+    });
+  };
+
+  const reflowSchedule = () => {
     if (!activeCampaign) return;
+    const result = reflowCampaign(activeCampaign, agentState.drafts);
 
     commit(
-      (prev) => {
-        const existingDrafts = prev.drafts.filter(
-          (draft) => draft.ideaId === idea.id,
-        );
+      (prev) => ({ ...prev, drafts: withSchedules(prev.drafts, result) }),
+      {
+        label: "Schedule Re-flowed",
+        details: `${activeCampaign.title}: ${
+          describeSchedule(result) || "every drop already sits in its best slot"
+        }`,
+        tone: result.crowded.length ? "warning" : "success",
+        entities: [{ type: "campaign", id: activeCampaign.id }],
+      },
+    );
+  };
 
-        if (existingDrafts.length) {
-          return prev;
-        }
+  /** Pins the draft at its new time and nudges same-channel drops it now crowds. */
+  const moveDraft = (draft: ContentDraft, schedule: string) => {
+    if (isTooSoon(draft, schedule, new Date())) {
+      commit((prev) => prev, {
+        label: "Move Blocked",
+        details: `Scheduled ${draft.platform} drop can't move into the past or inside the scheduler's lead time, where the publisher would post it on its next run; use Publish Now for that`,
+        tone: "warning",
+        entities: entitiesOf("draft", draft),
+      });
+      return;
+    }
+    const campaign = agentState.campaigns.find(
+      (item) => item.id === draft.campaignId,
+    );
+    const moved = { ...draft, schedule };
+    const result = campaign
+      ? resolveCollisions(campaign, agentState.drafts, moved)
+      : { schedules: {}, crowded: [] };
+    const summary = describeSchedule(result);
+
+    commit(
+      (prev) => ({
+        ...prev,
+        drafts: withSchedules(prev.drafts, result).map((item) =>
+          item.id === draft.id ? { ...item, schedule } : item,
+        ),
+      }),
+      {
+        label: "Schedule refined",
+        details: summary
+          ? `${draft.platform} drop moved; ${summary}`
+          : `${draft.platform} drop moved`,
+        tone: result.crowded.length ? "warning" : "info",
+      },
+    );
+  };
+
+  /** Pulls the drop forward; the server-side publisher posts it on its next run. */
+  const publishNow = (draft: ContentDraft) => {
+    commit(
+      (prev) => ({
+        ...prev,
+        drafts: prev.drafts.map((item) =>
+          item.id === draft.id
+            ? {
+                ...item,
+                schedule: new Date().toISOString(),
+                publication: undefined,
+              }
+            : item,
+        ),
+      }),
+      {
+        label: "Publish Queued",
+        details: `${draft.platform} draft goes out on the publisher's next run`,
+        tone: "info",
+      },
+    );
+  };
+
+  const retryPublish = (draft: ContentDraft) => {
+    if (!draft.publication) return;
+    mutateDraft(
+      draft.id,
+      {
+        publication: {
+          ...draft.publication,
+          nextAttemptAt: new Date().toISOString(),
+        },
+      },
+      "Publish Retry Queued",
+    );
+  };
 
-        const newDrafts = draftsFromIdea(
+  const regenerateDraft = async (
+    draft: ContentDraft,
+    field: RegenerableField,
+  ) => {
+    const idea = agentState.ideas.find((item) => item.id === draft.ideaId);
+    if (!idea) return;
+
+    if (field === "caption") {
+      const { value, errors } = await writeCaptionWithProvider(
+        providerSettings,
+        {
           idea,
-          prev.brand,
-          activeCampaign,
-          prev.drafts.length,
-        );
+          brand: agentState.brand,
+          platform: draft.platform,
+          hashtags: draft.hashtags,
+        },
+      );
 
-        return {
-          ...prev,
-          drafts: [...newDrafts, ...prev.drafts].slice(0, 60),
-        };
+      reportProviderFallback(errors, "caption writing");
+      mutateDraft(draft.id, value, "Draft Field Regenerated", "success");
+      return;
+    }
+
+    mutateDraft(
+      draft.id,
+      regenerateDraftField(draft, field, idea, agentState.brand),
+      "Draft Field Regenerated",
+      "success",
+    );
+  };
+
+  const writeVariants = (draft: ContentDraft) => {
+    const idea = agentState.ideas.find((item) => item.id === draft.ideaId);
+    const campaign = agentState.campaigns.find(
+      (item) => item.id === draft.campaignId,
+    );
+    if (!idea || !campaign) return;
+
+    const variants = captionVariants(draft, idea, agentState.brand, campaign);
+    commit(
+      (prev) => ({
+        ...prev,
+        drafts: prev.drafts.map((item) =>
+          item.id === draft.id ? { ...item, variants } : item,
+        ),
+      }),
+      {
+        label: "Caption Variants Written",
+        details: `${variants.length} ${draft.platform} captions to compare`,
+        tone: "success",
       },
+    );
+  };
+
+  const pickVariant = (draft: ContentDraft, variant: CaptionVariant) => {
+    commit(
+      (prev) => ({
+        ...prev,
+        drafts: prev.drafts.map((item) =>
+          item.id === draft.id ? withVariant(item, variant) : item,
+        ),
+      }),
       {
-        label: "Draft Pack Created",
-        details: `Idea “${idea.headline}” materialised into platform-ready scripts`,
+        label: "Variant Picked",
+        details: `Variant ${variant.label} (${variant.hook}) is the ${draft.platform} caption`,
         tone: "success",
       },
     );
   };
 
-  const mutateDraft = (
-    draftId: string,
-    patch: Partial<ContentDraft>,
-    label: string,
-    tone: AgentEvent["tone"] = "info",
-  ) => {
+  /** Every variant becomes its own drop, so their metrics can be compared. */
+  const startSplitTest = (draft: ContentDraft) => {
+    const campaign = agentState.campaigns.find(
+      (item) => item.id === draft.campaignId,
+    );
+    if (!campaign) return;
+
+    const arms = splitTestArms(draft, campaign, agentState.drafts);
+    commit(
+      (prev) => ({
+        ...prev,
+        drafts: prev.drafts.flatMap((item) =>
+          item.id === draft.id ? arms : [item],
+        ),
+      }),
+      {
+        label: "Split Test Scheduled",
+        details: `${arms.length} ${draft.platform} variants go out as separate drops`,
+        tone: "success",
+      },
+    );
+  };
+
+  const uploadAssets = async (files: File[]) => {
+    setIsUploading(true);
+    const uploaded: MediaAsset[] = [];
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        uploaded.push(await uploadAsset(workspace.id, file));
+      } catch (error) {
+        failures.push(`${file.name}: ${(error as Error).message}`);
+      }
+    }
+    setIsUploading(false);
+
+    if (uploaded.length) {
+      commit((prev) => ({ ...prev, assets: [...prev.assets, ...uploaded] }), {
+        label: "Assets Uploaded",
+        details: uploaded
+          .map((asset) => `${asset.name} (${describeAsset(asset)})`)
+          .join(", "),
+        tone: "success",
+      });
+    }
+    if (failures.length) {
+      commit((prev) => prev, {
+        label: "Upload Failed",
+        details: failures.join("; "),
+        tone: "warning",
+      });
+    }
+  };
+
+  const retagAsset = (asset: MediaAsset, tags: string[]) => {
+    commit(
+      (prev) => ({
+        ...prev,
+        assets: prev.assets.map((item) =>
+          item.id === asset.id ? { ...item, tags } : item,
+        ),
+      }),
+      {
+        label: "Asset Tagged",
+        details: `${asset.name}: ${tags.join(", ") || "no tags"}`,
+        tone: "info",
+      },
+    );
+  };
+
+  /** Drops the asset from the library and from every draft posting it. */
+  const removeAsset = (asset: MediaAsset) => {
+    const uses = draftsUsing(asset, agentState.drafts).length;
     commit(
       (prev) => ({
         ...prev,
+        assets: prev.assets.filter((item) => item.id !== asset.id),
         drafts: prev.drafts.map((draft) =>
-          draft.id === draftId ? { ...draft, ...patch } : draft,
+          draft.assetIds?.includes(asset.id)
+            ? {
+                ...draft,
+                assetIds: draft.assetIds.filter((id) => id !== asset.id),
+              }
+            : draft,
         ),
       }),
       {
-        label,
-        details: patch.stage
-          ? `Moved to ${stageLabels[patch.stage]}`
-          : label,
-        tone,
+        label: "Asset Removed",
+        details: uses
+          ? `${asset.name}, detached from ${uses} draft${uses === 1 ? "" : "s"}`
+          : asset.name,
+        tone: "warning",
+      },
+    );
+  };
+
+  /** Splits the draft into a thread or carousel from its idea's points. */
+  const outlineDraft = (draft: ContentDraft) => {
+    const idea = agentState.ideas.find((item) => item.id === draft.ideaId);
+    if (!idea) return;
+    const outline = outlineFromIdea(draft, idea, agentState.brand);
+    if (!outline?.parts) return;
+
+    const format = partFormat(draft.platform);
+    commit(
+      (prev) => ({
+        ...prev,
+        drafts: prev.drafts.map((item) =>
+          item.id === draft.id ? { ...item, ...outline } : item,
+        ),
+      }),
+      {
+        label: format === "thread" ? "Thread Outlined" : "Carousel Outlined",
+        details: `${draft.platform} ${format} with ${outline.parts.length} ${
+          format === "thread" ? "follow-up posts" : "slides"
+        } from "${idea.headline}"`,
+        tone: "success",
       },
     );
   };
 
   const createCampaign = () => {
-    const start = new Date();
-    const end = new Date();
-    end.setDate(start.getDate() + 10);
+    // New campaigns start out in the zone of the one being viewed.
+    const timezone = activeCampaign?.timezone ?? browserTimezone();
+    const start = zonedDayKey(new Date(), timezone);
 
     const newCampaign: Campaign = {
       id: createId(),
@@ -352,10 +1489,12 @@ export default function Home() {
       audience: agentState.brand.primaryAudience,
       offer: "Deep-dive thread + resource bundle",
       platforms: ["LinkedIn", "X"],
-      timeline: {
-        start: toDateInputValue(start),
-        end: toDateInputValue(end),
-      },
+      timeline: { start, end: addDaysToKey(start, 10) },
+      timezone,
+      requiresApproval: false,
+      reviewers: [],
+      series: [],
+      evergreen: DEFAULT_EVERGREEN,
     };
 
     commit(
@@ -394,30 +1533,244 @@ export default function Home() {
     );
   };
 
+  const saveScoreWeights = (scoreWeights: ScoreWeights) => {
+    commit((prev) => ({ ...prev, scoreWeights }), {
+      label: "Score Weights Updated",
+      details: (Object.keys(scoreCriteria) as (keyof ScoreWeights)[])
+        .map((id) => `${scoreCriteria[id]} ${scoreWeights[id]}`)
+        .join(", "),
+      tone: "info",
+    });
+    setShowWeights(false);
+  };
+
+  const discardQuarantine = () => {
+    const total = agentState.quarantine.length;
+
+    commit(
+      (prev) => ({
+        ...prev,
+        quarantine: [],
+      }),
+      {
+        label: "Quarantine Cleared",
+        details: `Discarded ${total} malformed stored record${total === 1 ? "" : "s"}`,
+        tone: "warning",
+      },
+    );
+  };
+
   const exportPlan = async () => {
     if (!activeCampaign) return;
-    const payload = {
-      brand: agentState.brand,
-      campaign: activeCampaign,
-      ideas: activeIdeas,
-      drafts: activeDrafts,
-    };
+    const payload = buildPlanBlueprint(agentState, activeCampaign);
+
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(payload, null, 2));
+      commit((prev) => prev, {
+        label: "Plan Copied",
+        details: "JSON blueprint copied to clipboard",
+        tone: "success",
+        entities: [{ type: "campaign", id: activeCampaign.id }],
+      });
+    } catch (error) {
+      console.error(error);
+      commit((prev) => prev, {
+        label: "Clipboard Blocked",
+        details: "Grant clipboard access to export plan",
+        tone: "warning",
+      });
+    }
+  };
+
+  const exportWorkspace = () => {
+    downloadFile(
+      `${slugify(agentState.brand.name) || workspace.id}-workspace.json`,
+      JSON.stringify(
+        {
+          workspace: { id: workspace.id, name: agentState.brand.name },
+          exportedAt: new Date().toISOString(),
+          state: agentState,
+        },
+        null,
+        2,
+      ),
+      "application/json",
+    );
+    commit((prev) => prev, {
+      label: "Workspace Exported",
+      details: `${agentState.campaigns.length} campaigns, ${agentState.ideas.length} ideas and ${agentState.drafts.length} drafts saved as JSON`,
+      tone: "success",
+    });
+  };
+
+  const downloadCalendar = () => {
+    if (!activeCampaign) return;
+
+    downloadFile(
+      calendarFileName(activeCampaign),
+      buildCampaignCalendar(activeCampaign, agentState.drafts, agentState.ideas),
+      "text/calendar;charset=utf-8",
+    );
+    commit((prev) => prev, {
+      label: "Calendar Exported",
+      details: `${activeDrafts.length} drops from ${activeCampaign.title} saved as .ics`,
+      tone: "success",
+      entities: [{ type: "campaign", id: activeCampaign.id }],
+    });
+  };
+
+  const copyCalendarFeed = async () => {
+    if (!activeCampaign) return;
+    const feedUrl = `${window.location.origin}/api/calendar/${encodeURIComponent(
+      activeCampaign.id,
+    )}.ics?workspace=${encodeURIComponent(workspace.id)}`;
+
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      commit((prev) => prev, {
+        label: "Calendar Feed Copied",
+        details: `Subscribe to ${feedUrl} in your calendar app`,
+        tone: "success",
+        entities: [{ type: "campaign", id: activeCampaign.id }],
+      });
+    } catch (error) {
+      console.error(error);
+      commit((prev) => prev, {
+        label: "Clipboard Blocked",
+        details: "Grant clipboard access to copy the calendar feed",
+        tone: "warning",
+      });
+    }
+  };
+
+  const downloadDraftsCsv = (layout: CsvLayout) => {
+    if (!activeCampaign) return;
+
+    downloadFile(
+      `${slugify(activeCampaign.title) || "campaign"}-${layout}.csv`,
+      exportDraftsCsv(activeDrafts, activeIdeas, activeCampaign, layout),
+      "text/csv;charset=utf-8",
+    );
+    commit((prev) => prev, {
+      label: "Drafts Exported",
+      details: `${activeDrafts.length} drafts saved as ${csvLayouts[layout].label} CSV`,
+      tone: "success",
+      entities: [{ type: "campaign", id: activeCampaign.id }],
+    });
+  };
+
+  const handleCsvImport = (result: CsvImportResult) => {
+    if (!activeCampaign || !result.drafts.length) return;
+    const rejected = new Set(
+      result.issues
+        .filter((issue) => issue.severity === "error")
+        .map((issue) => issue.row),
+    ).size;
+
+    commit(
+      (prev) => ({
+        ...prev,
+        ideas: [...result.ideas, ...prev.ideas],
+        drafts: [...result.drafts, ...prev.drafts],
+      }),
+      {
+        label: "CSV Imported",
+        details: `${result.drafts.length} drafts added to ${activeCampaign.title}${
+          rejected ? `, ${rejected} rows rejected` : ""
+        }`,
+        tone: rejected ? "warning" : "success",
+      },
+    );
+  };
+
+  const recordMetrics = (
+    draft: ContentDraft,
+    impressions: number,
+    engagements: number,
+  ) => {
+    commit(
+      (prev) => ({
+        ...prev,
+        drafts: prev.drafts.map((item) =>
+          item.id === draft.id
+            ? withMetricSample(item, {
+                capturedAt: new Date().toISOString(),
+                impressions,
+                engagements,
+                source: "manual",
+              })
+            : item,
+        ),
+      }),
+      {
+        label: "Metrics Recorded",
+        details: `${draft.platform}: ${impressions.toLocaleString()} impressions, ${engagements.toLocaleString()} engagements`,
+        tone: "info",
+      },
+    );
+  };
+
+  const handleMetricsImport = (result: MetricsImportResult) => {
+    const posts = new Set(result.readings.map((reading) => reading.draftId));
+    const rejected = new Set(
+      result.issues
+        .filter((issue) => issue.severity === "error")
+        .map((issue) => issue.row),
+    ).size;
+
+    commit(
+      (prev) => ({
+        ...prev,
+        drafts: prev.drafts.map((draft) =>
+          result.readings
+            .filter((reading) => reading.draftId === draft.id)
+            .reduce(
+              (current, reading) => withMetricSample(current, reading.sample),
+              draft,
+            ),
+        ),
+      }),
+      {
+        label: "Metrics Imported",
+        details: `${result.readings.length} readings across ${posts.size} posts${
+          rejected ? `, ${rejected} rows rejected` : ""
+        }`,
+        tone: rejected ? "warning" : "success",
+      },
+    );
+  };
+
+  const downloadMetricsTemplate = () => {
+    if (!activeCampaign) return;
+
+    downloadFile(
+      `${slugify(activeCampaign.title) || "campaign"}-metrics.csv`,
+      metricsTemplateCsv(activeDrafts),
+      "text/csv;charset=utf-8",
+    );
+  };
 
-    try {
-      await navigator.clipboard.writeText(JSON.stringify(payload, null, 2));
-      commit((prev) => prev, {
-        label: "Plan Copied",
-        details: "JSON blueprint copied to clipboard",
-        tone: "success",
-      });
-    } catch (error) {
-      console.error(error);
-      commit((prev) => prev, {
-        label: "Clipboard Blocked",
-        details: "Grant clipboard access to export plan",
-        tone: "warning",
-      });
-    }
+  const handleImportPlan = (blueprint: PlanBlueprint, mode: ImportMode) => {
+    const { state: next, summary } = importPlan(agentState, blueprint, mode);
+
+    commit(() => next, {
+      label: "Plan Imported",
+      details: `${mode === "merge" ? "Merged" : "Restored"} ${summary.campaignTitle}: ${summary.ideas} ideas, ${summary.drafts} drafts${
+        summary.remapped ? `, ${summary.remapped} ids remapped` : ""
+      }${
+        summary.sentToReview
+          ? `, ${summary.sentToReview} scheduled drafts held for review`
+          : ""
+      }${
+        summary.unscheduled
+          ? `, ${summary.unscheduled} scheduled drafts unscheduled (copies, past slots or rule breaks)`
+          : ""
+      }${mode === "replace" && blueprint.brand ? ", brand restored" : ""}`,
+      tone: summary.unscheduled ? "warning" : "success",
+    });
+
+    setActiveCampaignId(summary.campaignId);
+    setShowImport(false);
   };
 
   const brand = agentState.brand;
@@ -428,7 +1781,13 @@ export default function Home() {
         <header className="overflow-hidden rounded-3xl border border-white/10 bg-gradient-to-r from-emerald-500/10 via-slate-900 to-slate-900 p-8 shadow-[0_40px_140px_-80px_rgba(16,185,129,0.9)]">
           <div className="flex flex-col gap-6 md:flex-row md:items-end md:justify-between">
             <div>
-              <p className="text-xs uppercase tracking-[0.2em] text-emerald-300/80">
+              <WorkspaceSwitcher
+                registry={registry}
+                onSwitch={onSwitch}
+                onCreate={onCreate}
+                onExport={exportWorkspace}
+              />
+              <p className="mt-6 text-xs uppercase tracking-[0.2em] text-emerald-300/80">
                 Social Content Agent
               </p>
               <h1 className="mt-3 text-3xl font-semibold text-white sm:text-4xl">
@@ -439,23 +1798,26 @@ export default function Home() {
                 and rollout timing from a single agentic workspace.
               </p>
             </div>
-            <div className="flex flex-wrap items-center gap-3">
-              <StatPill
-                label="ideas mapped"
-                value={`${activeIdeas.length.toString().padStart(2, "0")}`}
-              />
-              <StatPill
-                label="scheduled drops"
-                value={`${scheduledDrafts.length
-                  .toString()
-                  .padStart(2, "0")}`}
-              />
-              <StatPill
-                label="shipped posts"
-                value={`${publishedDrafts.length
-                  .toString()
-                  .padStart(2, "0")}`}
-              />
+            <div className="flex flex-col items-start gap-3 md:items-end">
+              <SyncIndicator status={syncStatus} onResolve={resolveConflict} />
+              <div className="flex flex-wrap items-center gap-3">
+                <StatPill
+                  label="ideas mapped"
+                  value={`${activeIdeas.length.toString().padStart(2, "0")}`}
+                />
+                <StatPill
+                  label="scheduled drops"
+                  value={`${scheduledDrafts.length
+                    .toString()
+                    .padStart(2, "0")}`}
+                />
+                <StatPill
+                  label="shipped posts"
+                  value={`${publishedDrafts.length
+                    .toString()
+                    .padStart(2, "0")}`}
+                />
+              </div>
             </div>
           </div>
         </header>
@@ -567,7 +1929,7 @@ export default function Home() {
               />
             </label>
 
-            <label className="md:col-span-2 flex flex-col gap-2">
+            <label className="flex flex-col gap-2">
               <span className="text-xs font-medium uppercase tracking-wide text-emerald-300/90">
                 Primary Call to Action
               </span>
@@ -582,6 +1944,27 @@ export default function Home() {
                 }
               />
             </label>
+
+            <label className="flex flex-col gap-2">
+              <span className="text-xs font-medium uppercase tracking-wide text-emerald-300/90">
+                Banned Words & Phrases
+              </span>
+              <input
+                className="rounded-xl border border-white/10 bg-slate-900/70 px-4 py-3 text-sm outline-none focus:border-emerald-400/60"
+                value={brand.bannedPhrases.join(", ")}
+                onChange={(event) =>
+                  updateBrand(
+                    {
+                      bannedPhrases: event.target.value
+                        .split(/[,|\n]/)
+                        .map((item) => item.trim())
+                        .filter(Boolean),
+                    },
+                    "Banned phrases updated",
+                  )
+                }
+              />
+            </label>
           </div>
         </SectionCard>
 
@@ -604,6 +1987,13 @@ export default function Home() {
               >
                 Clear Pipeline
               </button>
+              <button
+                type="button"
+                onClick={() => setShowImport((open) => !open)}
+                className="rounded-full border border-white/10 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:bg-white/10"
+              >
+                Import Plan
+              </button>
               <button
                 type="button"
                 onClick={exportPlan}
@@ -639,6 +2029,13 @@ export default function Home() {
             ))}
           </div>
 
+          {showImport ? (
+            <ImportPlanPanel
+              onImport={handleImportPlan}
+              onClose={() => setShowImport(false)}
+            />
+          ) : null}
+
           {activeCampaign ? (
             <div className="mt-6 grid gap-4 md:grid-cols-2">
               <label className="flex flex-col gap-2">
@@ -739,13 +2136,11 @@ export default function Home() {
                     className="rounded-xl border border-white/10 bg-slate-900/70 px-4 py-3 text-sm outline-none focus:border-emerald-400/60"
                     value={activeCampaign.timeline.start}
                     onChange={(event) =>
-                      updateCampaign(
-                        activeCampaign.id,
+                      changeTimeline(
+                        activeCampaign,
                         {
-                          timeline: {
-                            ...activeCampaign.timeline,
-                            start: event.target.value,
-                          },
+                          ...activeCampaign.timeline,
+                          start: event.target.value,
                         },
                         "Campaign start shifted",
                       )
@@ -761,13 +2156,11 @@ export default function Home() {
                     className="rounded-xl border border-white/10 bg-slate-900/70 px-4 py-3 text-sm outline-none focus:border-emerald-400/60"
                     value={activeCampaign.timeline.end}
                     onChange={(event) =>
-                      updateCampaign(
-                        activeCampaign.id,
+                      changeTimeline(
+                        activeCampaign,
                         {
-                          timeline: {
-                            ...activeCampaign.timeline,
-                            end: event.target.value,
-                          },
+                          ...activeCampaign.timeline,
+                          end: event.target.value,
                         },
                         "Campaign end shifted",
                       )
@@ -775,6 +2168,129 @@ export default function Home() {
                   />
                 </label>
               </div>
+
+              <label className="flex flex-col gap-2">
+                <span className="text-xs font-semibold uppercase tracking-wide text-emerald-300/90">
+                  Timezone
+                </span>
+                <select
+                  className="rounded-xl border border-white/10 bg-slate-900/70 px-4 py-3 text-sm outline-none focus:border-emerald-400/60"
+                  value={activeCampaign.timezone}
+                  onChange={(event) =>
+                    rescheduleCampaign(
+                      activeCampaign,
+                      { timezone: event.target.value },
+                      `Campaign timezone set to ${event.target.value}`,
+                    )
+                  }
+                >
+                  {timezones.map((zone) => (
+                    <option key={zone} value={zone}>
+                      {zone.replaceAll("_", " ")}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              {activeCampaign.platforms.length ? (
+                <div className="flex flex-col gap-2">
+                  <span className="text-xs font-semibold uppercase tracking-wide text-emerald-300/90">
+                    Audience Clocks
+                  </span>
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    {activeCampaign.platforms.map((platform) => (
+                      <label
+                        key={platform}
+                        className="flex items-center gap-2 text-xs text-slate-300"
+                      >
+                        <span className="w-20 shrink-0">{platform}</span>
+                        <select
+                          className="min-w-0 flex-1 rounded-xl border border-white/10 bg-slate-900/70 px-3 py-2 text-sm outline-none focus:border-emerald-400/60"
+                          value={
+                            activeCampaign.audienceTimezones?.[platform] ?? ""
+                          }
+                          onChange={(event) =>
+                            setAudienceTimezone(
+                              activeCampaign,
+                              platform,
+                              event.target.value,
+                            )
+                          }
+                        >
+                          <option value="">Campaign timezone</option>
+                          {timezones.map((zone) => (
+                            <option key={zone} value={zone}>
+                              {zone.replaceAll("_", " ")}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ) : null}
+
+              <label className="flex flex-col gap-2">
+                <span className="text-xs font-semibold uppercase tracking-wide text-emerald-300/90">
+                  Reviewers
+                </span>
+                <input
+                  className="rounded-xl border border-white/10 bg-slate-900/70 px-4 py-3 text-sm outline-none focus:border-emerald-400/60"
+                  value={activeCampaign.reviewers.join(", ")}
+                  placeholder="Names, comma separated"
+                  onChange={(event) =>
+                    updateCampaign(
+                      activeCampaign.id,
+                      {
+                        reviewers: [
+                          ...new Set(
+                            event.target.value
+                              .split(/[,|\n]/)
+                              .map((item) => item.trim())
+                              .filter(Boolean),
+                          ),
+                        ],
+                      },
+                      "Reviewers updated",
+                    )
+                  }
+                />
+              </label>
+
+              <label className="flex items-center gap-3 self-end rounded-xl border border-white/10 bg-slate-900/70 px-4 py-3 text-sm text-slate-200">
+                <input
+                  type="checkbox"
+                  checked={activeCampaign.requiresApproval}
+                  onChange={(event) =>
+                    updateCampaign(
+                      activeCampaign.id,
+                      { requiresApproval: event.target.checked },
+                      event.target.checked
+                        ? "Drafts now need an approval before scheduling"
+                        : "Approval no longer required before scheduling",
+                    )
+                  }
+                  className="accent-emerald-400"
+                />
+                Require approval before scheduling
+              </label>
+
+              <SeriesPanel
+                campaign={activeCampaign}
+                onAdd={(series) => addSeries(activeCampaign, series)}
+                onRemove={(series) => removeSeries(activeCampaign, series)}
+              />
+
+              <EvergreenPanel
+                campaign={activeCampaign}
+                drafts={agentState.drafts}
+                onChange={(evergreen, label) =>
+                  updateEvergreen(activeCampaign, evergreen, label)
+                }
+                onRecycle={(candidates) =>
+                  recycleEvergreen(activeCampaign, candidates)
+                }
+              />
             </div>
           ) : null}
         </SectionCard>
@@ -784,6 +2300,15 @@ export default function Home() {
           subtitle="The agent analyses your brief, composes hooks, and serves platform-ready angles."
           action={
             <div className="flex items-center gap-3">
+              <label className="flex items-center gap-2 text-xs uppercase tracking-wide text-slate-300">
+                <span>Seed</span>
+                <input
+                  value={ideaSeed}
+                  placeholder="random"
+                  onChange={(event) => setIdeaSeed(event.target.value)}
+                  className="w-24 rounded-lg border border-white/10 bg-slate-900/60 px-2 py-1 text-sm normal-case outline-none placeholder:text-slate-500 focus:border-emerald-400/60"
+                />
+              </label>
               <label className="flex items-center gap-2 text-xs uppercase tracking-wide text-slate-300">
                 <span>Idea Count</span>
                 <input
@@ -800,13 +2325,19 @@ export default function Home() {
               <button
                 type="button"
                 onClick={handleGenerateIdeas}
-                className="rounded-full bg-emerald-500/90 px-5 py-2 text-xs font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-emerald-400"
+                disabled={isGenerating}
+                className="rounded-full bg-emerald-500/90 px-5 py-2 text-xs font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-emerald-400 disabled:cursor-wait disabled:opacity-60"
               >
-                Generate Angles
+                {isGenerating ? "Generating…" : "Generate Angles"}
               </button>
             </div>
           }
         >
+          <ProviderSettingsPanel
+            settings={providerSettings}
+            onChange={setProviderSettings}
+          />
+
           <label className="mb-5 flex flex-col gap-2">
             <span className="text-xs font-semibold uppercase tracking-wide text-emerald-300/90">
               Quick Brief (optional)
@@ -843,7 +2374,7 @@ export default function Home() {
                       <button
                         type="button"
                         onClick={() => handlePromoteToDrafts(idea)}
-                        disabled={hasDrafts}
+                        disabled={hasDrafts || isGenerating}
                         className={`rounded-full px-4 py-2 text-xs font-semibold uppercase tracking-wide transition ${
                           hasDrafts
                             ? "cursor-not-allowed border border-white/10 bg-white/5 text-slate-400"
@@ -854,6 +2385,18 @@ export default function Home() {
                       </button>
                     </div>
                     <p className="text-sm text-slate-300/90">{idea.angle}</p>
+                    {idea.templates ? (
+                      <p
+                        className={`text-[11px] ${
+                          idea.templates.angle.reason === "exploit"
+                            ? "text-emerald-200"
+                            : "text-slate-400"
+                        }`}
+                        title={explainPicks(idea.templates)}
+                      >
+                        {explainPick(idea.templates.angle)}
+                      </p>
+                    ) : null}
                     <div className="flex flex-wrap gap-2">
                       {idea.formats.map((platform) => (
                         <span
@@ -872,6 +2415,25 @@ export default function Home() {
                         </li>
                       ))}
                     </ul>
+                    {idea.generation ? (
+                      <div className="flex items-center justify-between text-[11px] text-slate-400">
+                        <span>
+                          Seed {idea.generation.seed} · #
+                          {idea.generation.index + 1} of{" "}
+                          {idea.generation.batchSize}
+                          {idea.generatedBy
+                            ? ` · ${describeSource(idea.generatedBy)}`
+                            : ""}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => reuseGenerationSettings(idea)}
+                          className="rounded-full border border-white/10 px-2 py-[2px] uppercase tracking-wide text-slate-300 transition hover:bg-white/10"
+                        >
+                          Reuse Settings
+                        </button>
+                      </div>
+                    ) : null}
                     <div className="rounded-xl border border-white/10 bg-white/5 p-3 text-xs text-slate-200">
                       <p>
                         <span className="font-semibold text-white">
@@ -896,13 +2458,71 @@ export default function Home() {
           )}
         </SectionCard>
 
+        <SectionCard
+          title="Asset Library"
+          subtitle="The creative behind every asset brief, checked against each network's aspect ratios and video lengths."
+        >
+          <AssetLibrary
+            workspaceId={workspace.id}
+            assets={agentState.assets}
+            drafts={agentState.drafts}
+            uploading={isUploading}
+            onUpload={(files) => void uploadAssets(files)}
+            onRetag={retagAsset}
+            onRemove={removeAsset}
+          />
+        </SectionCard>
+
         <SectionCard
           title="Pipeline Orchestration"
           subtitle="Every asset sits in a visible column so you always know what ships next."
+          action={
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => setShowWeights((open) => !open)}
+                className="rounded-full border border-white/10 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:bg-white/10"
+              >
+                Score Weights
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowCsv((open) => !open)}
+                className="rounded-full border border-white/10 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:bg-white/10"
+              >
+                CSV Import / Export
+              </button>
+            </div>
+          }
         >
+          {showWeights ? (
+            <ScoreWeightsPanel
+              weights={agentState.scoreWeights}
+              onSave={saveScoreWeights}
+              onClose={() => setShowWeights(false)}
+            />
+          ) : null}
+          {activeDrafts.length ? (
+            <VoiceSummary compliance={voiceCompliance} />
+          ) : null}
+          {showCsv && activeCampaign ? (
+            <CsvPanel
+              campaign={activeCampaign}
+              ideas={agentState.ideas}
+              onExport={downloadDraftsCsv}
+              onImport={handleCsvImport}
+              onClose={() => setShowCsv(false)}
+            />
+          ) : null}
           {activeDrafts.length ? (
-            <div className="grid gap-4 lg:grid-cols-3">
-              {stageOrder.map((stage) => (
+            <div
+              className={`grid gap-4 ${
+                pipelineStages.length > 3
+                  ? "lg:grid-cols-2 xl:grid-cols-4"
+                  : "lg:grid-cols-3"
+              }`}
+            >
+              {pipelineStages.map((stage) => (
                 <div
                   key={stage}
                   className={`flex flex-col gap-4 rounded-3xl border ${stageAccent[stage]} bg-slate-900/60 p-4`}
@@ -931,7 +2551,7 @@ export default function Home() {
                         key={draft.id}
                         className="rounded-2xl border border-white/10 bg-slate-950/60 p-4"
                       >
-                        <div className="flex items-start justify-between">
+                        <div className="flex items-start justify-between gap-2">
                           <div>
                             <p className="text-xs uppercase tracking-wide text-emerald-200/90">
                               {draft.platform}
@@ -940,42 +2560,136 @@ export default function Home() {
                               {draft.caption.split("\n")[0]}
                             </h4>
                           </div>
-                          <span className="rounded-full border border-emerald-400/50 px-3 py-1 text-[11px] font-semibold text-emerald-200">
-                            Score {scoreDraft(draft)}
-                          </span>
-                        </div>
-                        <p className="mt-2 text-xs text-slate-300/90">
-                          {draft.assetBrief}
-                        </p>
-                        <div className="mt-3 flex flex-wrap gap-1">
-                          {draft.hashtags.map((tag) => (
-                            <span
-                              key={tag}
-                              className="rounded-full bg-white/10 px-2 py-1 text-[11px] uppercase tracking-wide text-slate-200"
-                            >
-                              {tag}
-                            </span>
-                          ))}
+                          <QualityScore
+                            quality={draftQuality[draft.id]}
+                            open={scoreDraftId === draft.id}
+                            onToggle={() =>
+                              setScoreDraftId((current) =>
+                                current === draft.id ? null : draft.id,
+                              )
+                            }
+                          />
                         </div>
+                        {scoreDraftId === draft.id ? (
+                          <QualityBreakdownList
+                            quality={draftQuality[draft.id]}
+                          />
+                        ) : null}
+                        {draftViolations[draft.id]?.length ? (
+                          <ul className="mt-2 space-y-1 text-[11px]">
+                            {draftViolations[draft.id].map((violation) => (
+                              <li
+                                key={`${violation.code}-${violation.part ?? ""}`}
+                                className={
+                                  violation.severity === "error"
+                                    ? "text-rose-300"
+                                    : "text-amber-200/90"
+                                }
+                              >
+                                {violation.severity === "error" ? "✕" : "!"}{" "}
+                                {violation.message}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : null}
+                        {draftVoice[draft.id]?.length ? (
+                          <ul className="mt-2 space-y-1 text-[11px] text-amber-200/80">
+                            {draftVoice[draft.id].map((issue, index) => (
+                              <li key={`${issue.code}-${index}`}>
+                                ◇ Voice: {issue.message}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : null}
+                        <ReviewStatus draft={draft} />
+                        {isReschedulable(draft) &&
+                        crowdedNeighbours(draft, agentState.drafts).length ? (
+                          <p className="mt-2 text-[11px] text-amber-200/90">
+                            ⚠ Within {MIN_GAP_HOURS[draft.platform]}h of another{" "}
+                            {draft.platform} drop
+                          </p>
+                        ) : null}
+                        {editingDraftId === draft.id ? (
+                          <DraftEditor
+                            draft={draft}
+                            canRegenerate={agentState.ideas.some(
+                              (idea) => idea.id === draft.ideaId,
+                            )}
+                            onChange={(patch, label) =>
+                              mutateDraft(draft.id, patch, label)
+                            }
+                            onRegenerate={(field) =>
+                              regenerateDraft(draft, field)
+                            }
+                            onClose={() => setEditingDraftId(null)}
+                          />
+                        ) : (
+                          <>
+                            <p className="mt-2 text-xs text-slate-300/90">
+                              {draft.assetBrief}
+                            </p>
+                            <div className="mt-3 flex flex-wrap gap-1">
+                              {draft.hashtags.map((tag) => (
+                                <span
+                                  key={tag}
+                                  className="rounded-full bg-white/10 px-2 py-1 text-[11px] uppercase tracking-wide text-slate-200"
+                                >
+                                  {tag}
+                                </span>
+                              ))}
+                            </div>
+                            {draft.parts?.length ? (
+                              <DraftParts
+                                parts={draft.parts}
+                                platform={draft.platform}
+                                violations={draftViolations[draft.id] ?? []}
+                              />
+                            ) : null}
+                          </>
+                        )}
+                        <DraftAssets
+                          draft={draft}
+                          assets={agentState.assets}
+                          workspaceId={workspace.id}
+                          editable={stage !== "published"}
+                          onChange={(assetIds, label) =>
+                            mutateDraft(draft.id, { assetIds }, label)
+                          }
+                        />
 
                         <label className="mt-3 flex flex-col gap-2 text-xs text-slate-300">
-                          <span>Scheduled Drop</span>
+                          <span>
+                            Scheduled Drop ·{" "}
+                            {draftTimezone(draft).replaceAll("_", " ")}
+                          </span>
                           <input
                             type="datetime-local"
-                            value={toLocalInput(draft.schedule)}
-                            onChange={(event) =>
-                              mutateDraft(
-                                draft.id,
-                                { schedule: toIsoFromInput(event.target.value) },
-                                "Schedule refined",
-                              )
-                            }
+                            value={toZonedInput(
+                              draft.schedule,
+                              draftTimezone(draft),
+                            )}
+                            onChange={(event) => {
+                              const schedule = fromZonedInput(
+                                event.target.value,
+                                draftTimezone(draft),
+                              );
+                              if (schedule) moveDraft(draft, schedule);
+                            }}
                             className="rounded-xl border border-white/10 bg-slate-900/60 px-3 py-2 text-sm outline-none focus:border-emerald-400/60"
                           />
                         </label>
 
                         <div className="mt-3 flex flex-wrap gap-2">
-                          {prevStage[stage] ? (
+                          {editingDraftId !== draft.id ? (
+                            <button
+                              type="button"
+                              onClick={() => setEditingDraftId(draft.id)}
+                              className="rounded-full border border-emerald-400/60 px-3 py-1 text-[11px] uppercase tracking-wide text-emerald-200 transition hover:bg-emerald-500/10"
+                            >
+                              Edit
+                            </button>
+                          ) : null}
+                          {prevStage[stage] && !draft.publication?.externalId ? (
                             <button
                               type="button"
                               onClick={() =>
@@ -991,31 +2705,206 @@ export default function Home() {
                               Back
                             </button>
                           ) : null}
-                          {nextStage[stage] ? (
+                          {stage === "drafts" &&
+                          !activeCampaign?.requiresApproval ? (
+                            <button
+                              type="button"
+                              onClick={() => sendForReview(draft)}
+                              className="rounded-full border border-violet-400/50 px-3 py-1 text-[11px] uppercase tracking-wide text-violet-200 transition hover:bg-violet-500/10"
+                            >
+                              Send for Review
+                            </button>
+                          ) : null}
+                          {forwardStage(draft, activeCampaign) &&
+                          draft.publication?.status !== "processing" ? (
+                            <button
+                              type="button"
+                              onClick={() => advanceDraft(draft)}
+                              disabled={!!schedulingBlocker(draft)}
+                              title={schedulingBlocker(draft)}
+                              className="rounded-full bg-emerald-500/90 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-white/10 disabled:text-slate-400"
+                            >
+                              {stage === "scheduled"
+                                ? "Publish Now"
+                                : forwardStage(draft, activeCampaign) ===
+                                    "in_review"
+                                  ? "Send for Review"
+                                  : "Move Forward"}
+                            </button>
+                          ) : null}
+                          <button
+                            type="button"
+                            onClick={() =>
+                              setReviewDraftId((current) =>
+                                current === draft.id ? null : draft.id,
+                              )
+                            }
+                            aria-expanded={reviewDraftId === draft.id}
+                            className="rounded-full border border-white/10 px-3 py-1 text-[11px] uppercase tracking-wide text-slate-300 transition hover:bg-white/10"
+                          >
+                            {stage === "in_review" ? "Review" : "Comments"}
+                            {draft.review?.comments.length
+                              ? ` (${draft.review.comments.length})`
+                              : ""}
+                          </button>
+                          {draft.publication?.status === "failed" &&
+                          !draft.publication.nextAttemptAt ? (
+                            <button
+                              type="button"
+                              onClick={() => retryPublish(draft)}
+                              className="rounded-full border border-rose-400/60 px-3 py-1 text-[11px] uppercase tracking-wide text-rose-200 transition hover:bg-rose-500/10"
+                            >
+                              Retry
+                            </button>
+                          ) : null}
+                          {stage === "drafts" &&
+                          !draft.variants?.length &&
+                          agentState.ideas.some(
+                            (idea) => idea.id === draft.ideaId,
+                          ) ? (
+                            <button
+                              type="button"
+                              onClick={() => writeVariants(draft)}
+                              title="Write alternative captions with other hooks, CTAs and hashtags"
+                              className="rounded-full border border-white/10 px-3 py-1 text-[11px] uppercase tracking-wide text-slate-300 transition hover:bg-white/10"
+                            >
+                              Variants
+                            </button>
+                          ) : null}
+                          {stage === "drafts" &&
+                          !draft.parts?.length &&
+                          partFormat(draft.platform) &&
+                          agentState.ideas.some(
+                            (idea) => idea.id === draft.ideaId,
+                          ) ? (
+                            <button
+                              type="button"
+                              onClick={() => outlineDraft(draft)}
+                              title="Outline the idea's supporting points as a multi-part post"
+                              className="rounded-full border border-white/10 px-3 py-1 text-[11px] uppercase tracking-wide text-slate-300 transition hover:bg-white/10"
+                            >
+                              {partFormat(draft.platform) === "thread"
+                                ? "Thread"
+                                : "Carousel"}
+                            </button>
+                          ) : null}
+                          {stage === "drafts" && draft.parts?.length ? (
                             <button
                               type="button"
                               onClick={() =>
                                 mutateDraft(
                                   draft.id,
-                                  { stage: nextStage[stage] ?? stage },
-                                  nextStage[stage] === "scheduled"
-                                    ? "Scheduling locked"
-                                    : "Published 🎉",
-                                  nextStage[stage] === "scheduled"
-                                    ? "info"
-                                    : "success",
+                                  { parts: undefined },
+                                  "Back to a Single Post",
                                 )
                               }
-                              className="rounded-full bg-emerald-500/90 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-emerald-400"
+                              className="rounded-full border border-white/10 px-3 py-1 text-[11px] uppercase tracking-wide text-slate-300 transition hover:bg-white/10"
                             >
-                              Move Forward
+                              Single Post
                             </button>
                           ) : null}
                         </div>
 
-                        <p className="mt-4 text-[11px] uppercase tracking-wide text-slate-400">
-                          Deploys {formatDateTime(draft.schedule)}
-                        </p>
+                        {draft.variants?.length && stage === "drafts" ? (
+                          <VariantComparison
+                            variants={draft.variants}
+                            platform={draft.platform}
+                            brand={agentState.brand}
+                            weights={agentState.scoreWeights}
+                            onPick={(variant) => pickVariant(draft, variant)}
+                            onSplitTest={() => startSplitTest(draft)}
+                            onDiscard={() =>
+                              mutateDraft(
+                                draft.id,
+                                { variants: undefined },
+                                "Caption Variants Discarded",
+                              )
+                            }
+                          />
+                        ) : null}
+
+                        {reviewDraftId === draft.id ? (
+                          <ReviewPanel
+                            draft={draft}
+                            reviewers={activeCampaign?.reviewers ?? []}
+                            canDecide={stage === "in_review"}
+                            onComment={(author, body, replyTo) =>
+                              commentOnDraft(draft, author, body, replyTo)
+                            }
+                            onDecide={(reviewer, verdict) =>
+                              decideReview(draft, reviewer, verdict)
+                            }
+                          />
+                        ) : null}
+
+                        {stage === "published" ? (
+                          <MetricsEntry
+                            draft={draft}
+                            onRecord={(impressions, engagements) =>
+                              recordMetrics(draft, impressions, engagements)
+                            }
+                          />
+                        ) : null}
+
+                        {draft.publication ? (
+                          <p
+                            className={`mt-3 text-[11px] ${
+                              draft.publication.status === "failed"
+                                ? "text-rose-300"
+                                : draft.publication.status === "processing"
+                                  ? "text-amber-200/90"
+                                  : "text-emerald-200"
+                            }`}
+                          >
+                            {draft.publication.status === "failed"
+                              ? `Publish failed (attempt ${draft.publication.attempts}): ${draft.publication.error ?? "unknown error"}${
+                                  draft.publication.nextAttemptAt
+                                    ? ` · retrying ${formatDateTime(draft.publication.nextAttemptAt)}`
+                                    : ""
+                                }`
+                              : draft.publication.status === "processing"
+                                ? `${draft.platform} is processing the post…`
+                                : "Posted"}
+                            {draft.publication.url ? (
+                              <>
+                                {" · "}
+                                <a
+                                  href={draft.publication.url}
+                                  target="_blank"
+                                  rel="noreferrer"
+                                  className="underline"
+                                >
+                                  View post
+                                </a>
+                              </>
+                            ) : null}
+                          </p>
+                        ) : null}
+
+                        <DualClock
+                          iso={draft.schedule}
+                          zone={draftTimezone(draft)}
+                        />
+                        {draft.generatedBy ? (
+                          <p className="mt-1 text-[11px] text-slate-500">
+                            Caption by {describeSource(draft.generatedBy)}
+                          </p>
+                        ) : null}
+                        {draftOrigin(draft) ? (
+                          <p className="mt-1 text-[11px] text-slate-500">
+                            {draftOrigin(draft)}
+                          </p>
+                        ) : null}
+                        {draft.variant ? (
+                          <p
+                            className="mt-1 truncate text-[11px] text-slate-500"
+                            title={draft.variant.hook}
+                          >
+                            Variant {draft.variant.label}
+                            {draft.variant.testId ? " · split test" : ""} ·{" "}
+                            {draft.variant.hook}
+                          </p>
+                        ) : null}
                       </div>
                     ))}
                 </div>
@@ -1031,43 +2920,45 @@ export default function Home() {
 
         <SectionCard
           title="Schedule Radar"
-          subtitle="Glance at the next drops, coverage gaps, and current focus."
-        >
-          {activeDrafts.length ? (
-            <div className="space-y-3">
-              {activeDrafts
-                .slice()
-                .sort(
-                  (a, b) =>
-                    new Date(a.schedule).getTime() -
-                    new Date(b.schedule).getTime(),
-                )
-                .map((draft) => (
-                  <div
-                    key={draft.id}
-                    className="flex items-center justify-between rounded-2xl border border-white/10 bg-slate-900/70 px-4 py-3"
-                  >
-                    <div>
-                      <p className="text-xs uppercase tracking-wide text-emerald-200/90">
-                        {draft.platform} • {stageLabels[draft.stage]}
-                      </p>
-                      <p className="mt-1 text-sm font-semibold text-white">
-                        {draft.caption.split("\n")[0]}
-                      </p>
-                    </div>
-                    <div className="text-right text-xs text-slate-300/90">
-                      <p>{formatDateTime(draft.schedule)}</p>
-                      <p className="mt-1 text-slate-400">
-                        Idea source:{" "}
-                        {
-                          activeIdeas.find((idea) => idea.id === draft.ideaId)
-                            ?.hook
-                        }
-                      </p>
-                    </div>
-                  </div>
-                ))}
+          subtitle="Every campaign's drops by month, week or day. Drag a drop to reschedule it."
+          action={
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={reflowSchedule}
+                disabled={!activeDrafts.some(isReschedulable)}
+                title="Spread unpublished drops across the campaign's best posting slots"
+                className="rounded-full border border-white/10 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:bg-white/10 disabled:cursor-not-allowed disabled:text-slate-500"
+              >
+                Re-flow
+              </button>
+              <button
+                type="button"
+                onClick={copyCalendarFeed}
+                className="rounded-full border border-white/10 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:bg-white/10"
+              >
+                Copy Feed URL
+              </button>
+              <button
+                type="button"
+                onClick={downloadCalendar}
+                disabled={!activeDrafts.length}
+                className="rounded-full bg-emerald-500/90 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-white/10 disabled:text-slate-400"
+              >
+                Download .ics
+              </button>
             </div>
+          }
+        >
+          {agentState.drafts.length ? (
+            <ContentCalendar
+              drafts={agentState.drafts}
+              campaigns={agentState.campaigns}
+              activeCampaign={activeCampaign}
+              stageLabels={stageLabels}
+              stageAccent={stageAccent}
+              onMove={moveDraft}
+            />
           ) : (
             <p className="rounded-2xl border border-white/5 bg-white/5 p-6 text-sm text-slate-300">
               Once drafts exist, the radar will show cadence, channel balance,
@@ -1076,40 +2967,97 @@ export default function Home() {
           )}
         </SectionCard>
 
+        {activeCampaign ? (
+          <SectionCard
+            title="Performance Analytics"
+            subtitle="Engagement rate (engagements ÷ impressions) from the latest reading of every measured post."
+          >
+            <AnalyticsPanel
+              campaign={activeCampaign}
+              campaigns={agentState.campaigns}
+              drafts={agentState.drafts}
+              ideas={agentState.ideas}
+              onImport={handleMetricsImport}
+              onDownloadTemplate={downloadMetricsTemplate}
+            />
+          </SectionCard>
+        ) : null}
+
         <SectionCard
           title="Agent Activity"
           subtitle="Latest plays the content agent executed on your behalf."
+          action={
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={undo}
+                disabled={!undoTarget}
+                title={
+                  undoTarget
+                    ? `Undo “${undoTarget.label}” (Ctrl/⌘+Z)`
+                    : "Nothing to undo"
+                }
+                className="rounded-full border border-white/10 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:bg-white/10 disabled:cursor-not-allowed disabled:text-slate-500"
+              >
+                Undo
+              </button>
+              <button
+                type="button"
+                onClick={redo}
+                disabled={!redoTarget}
+                title={redoTarget ? "Redo (Ctrl/⌘+Shift+Z)" : "Nothing to redo"}
+                className="rounded-full border border-white/10 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:bg-white/10 disabled:cursor-not-allowed disabled:text-slate-500"
+              >
+                Redo
+              </button>
+            </div>
+          }
         >
-          {agentState.events.length ? (
-            <ul className="space-y-3">
-              {agentState.events.slice(0, 15).map((event) => (
-                <li
-                  key={event.id}
-                  className={`flex items-start gap-3 rounded-2xl border border-white/10 bg-slate-900/70 px-4 py-3 text-sm ${
-                    event.tone === "success"
-                      ? "border-emerald-400/40"
-                      : event.tone === "warning"
-                      ? "border-amber-400/40"
-                      : "border-white/10"
-                  }`}
+          {agentState.quarantine.length ? (
+            <div className="mb-4 rounded-2xl border border-amber-400/40 bg-amber-500/10 p-4 text-sm text-amber-100">
+              <div className="flex items-center justify-between gap-3">
+                <p>
+                  {agentState.quarantine.length} stored record
+                  {agentState.quarantine.length === 1 ? "" : "s"} failed
+                  validation and were set aside.
+                </p>
+                <button
+                  type="button"
+                  onClick={discardQuarantine}
+                  className="rounded-full border border-amber-300/60 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide transition hover:bg-amber-500/20"
                 >
-                  <span className="mt-1 h-2 w-2 rounded-full bg-emerald-400" />
-                  <div>
-                    <p className="text-xs uppercase tracking-wide text-slate-400">
-                      {new Date(event.timestamp).toLocaleTimeString()}
-                    </p>
-                    <p className="font-semibold text-white">{event.label}</p>
-                    <p className="text-slate-300/90">{event.details}</p>
-                  </div>
-                </li>
-              ))}
-            </ul>
-          ) : (
-            <p className="rounded-2xl border border-white/5 bg-white/5 p-6 text-sm text-slate-300">
-              As you collaborate with the agent, every move is summarised here
-              for auditability.
-            </p>
-          )}
+                  Discard
+                </button>
+              </div>
+              <details className="mt-2 text-xs text-amber-100/80">
+                <summary className="cursor-pointer">Inspect records</summary>
+                <ul className="mt-2 space-y-2">
+                  {agentState.quarantine.map((item, index) => (
+                    <li key={`${item.collection}-${index}`}>
+                      <p className="font-semibold">
+                        {item.collection}: {item.reason}
+                      </p>
+                      <pre className="mt-1 overflow-x-auto rounded-lg bg-slate-950/60 p-2 text-[11px] text-slate-300">
+                        {JSON.stringify(item.record, null, 2)}
+                      </pre>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            </div>
+          ) : null}
+          <ActivityLog
+            workspaceId={workspace.id}
+            state={agentState}
+            onRevert={revertFromHistory}
+            onExported={(count) =>
+              commit((prev) => prev, {
+                label: "Activity Exported",
+                details: `${count} event${count === 1 ? "" : "s"} saved as JSONL`,
+                tone: "success",
+              })
+            }
+          />
         </SectionCard>
       </div>
     </div>
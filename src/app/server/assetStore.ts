@@ -0,0 +1,99 @@
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import path from "path";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { ReadableStream as NodeReadableStream } from "stream/web";
+import { ASSET_TYPES } from "../utils/assets";
+import { dataDir } from "./dataDir";
+
+/**
+ * Asset files live next to the workspaces, one folder per workspace. Their
+ * records are part of the workspace state; files are never deleted, so
+ * undoing an asset's removal brings it back intact.
+ */
+const assetDir = (workspaceId: string) =>
+  path.join(dataDir(), "assets", workspaceId);
+
+/**
+ * Streams an upload into the workspace's folder and returns its size, or
+ * null (keeping nothing) once it runs past `maxBytes`.
+ */
+export async function saveAssetFile(
+  workspaceId: string,
+  assetId: string,
+  mimeType: string,
+  body: ReadableStream<Uint8Array>,
+  maxBytes: number,
+): Promise<number | null> {
+  const { extension } = ASSET_TYPES[mimeType];
+  await fs.mkdir(assetDir(workspaceId), { recursive: true });
+  const file = path.join(assetDir(workspaceId), `${assetId}.${extension}`);
+  const temp = `${file}.${process.pid}.tmp`;
+  let bytes = 0;
+  const limit = new Transform({
+    transform(chunk: Buffer, _encoding, done) {
+      bytes += chunk.length;
+      done(bytes > maxBytes ? new Error("Upload too large") : null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(
+      Readable.fromWeb(body as NodeReadableStream<Uint8Array>),
+      limit,
+      createWriteStream(temp),
+    );
+  } catch (error) {
+    await fs.rm(temp, { force: true });
+    if (bytes > maxBytes) return null;
+    throw error;
+  }
+  await fs.rename(temp, file);
+  return bytes;
+}
+
+/** Where an asset's file is stored, with its type and size. */
+export interface StoredAsset {
+  file: string;
+  mimeType: string;
+  bytes: number;
+}
+
+export async function findAssetFile(
+  workspaceId: string,
+  assetId: string,
+): Promise<StoredAsset | null> {
+  for (const [mimeType, { extension }] of Object.entries(ASSET_TYPES)) {
+    const file = path.join(assetDir(workspaceId), `${assetId}.${extension}`);
+    try {
+      const { size } = await fs.stat(file);
+      return { file, mimeType, bytes: size };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+  }
+  return null;
+}
+
+/** Bytes `start` up to (not including) `end` of a stored file. */
+export async function readAssetRange(
+  { file }: StoredAsset,
+  start: number,
+  end: number,
+) {
+  const handle = await fs.open(file, "r");
+  try {
+    const data = Buffer.alloc(end - start);
+    const { bytesRead } = await handle.read(data, 0, data.length, start);
+    return data.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/** The whole file, or bytes `start` to `end` inclusive, read as it's sent. */
+export const streamAssetFile = (
+  { file }: StoredAsset,
+  range?: { start: number; end: number },
+) =>
+  Readable.toWeb(createReadStream(file, range)) as ReadableStream<Uint8Array>;
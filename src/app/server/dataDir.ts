@@ -0,0 +1,5 @@
+import path from "path";
+
+/** Where the server keeps workspaces, logs and ledgers. */
+export const dataDir = () =>
+  process.env.AGENTIC_DATA_DIR ?? path.join(process.cwd(), ".data");
@@ -0,0 +1,162 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { AgentEvent } from "../types";
+import {
+  EventFilter,
+  matchesEventFilter,
+  mergeEvents,
+} from "../utils/eventLog";
+import { dataDir } from "./dataDir";
+
+/** Entries the active segment may reach before older ones are archived. */
+const ACTIVE_LIMIT = 2000;
+/** Entries left in the active segment after archiving. */
+const ACTIVE_KEEP = 500;
+
+const eventsDir = () => path.join(dataDir(), "events");
+/** Newest entries, appended to as events arrive: `events/<workspace>.jsonl`. */
+const activeFile = (workspaceId: string) =>
+  path.join(eventsDir(), `${workspaceId}.jsonl`);
+/** Archived entries, one file per month: `events/<workspace>/2026-01.jsonl`. */
+const archiveDir = (workspaceId: string) => path.join(eventsDir(), workspaceId);
+
+const isMissing = (error: unknown) =>
+  (error as NodeJS.ErrnoException).code === "ENOENT";
+
+/** Oldest first. A torn last line from a crash is skipped, not fatal. */
+async function readSegment(file: string): Promise<AgentEvent[]> {
+  try {
+    const raw = await fs.readFile(file, "utf8");
+    return raw.split("\n").flatMap((line) => {
+      if (!line.trim()) return [];
+      try {
+        return [JSON.parse(line) as AgentEvent];
+      } catch {
+        console.warn(`Skipping unreadable event log line in ${file}`);
+        return [];
+      }
+    });
+  } catch (error) {
+    if (isMissing(error)) return [];
+    throw error;
+  }
+}
+
+async function archiveFiles(workspaceId: string) {
+  try {
+    const files = await fs.readdir(archiveDir(workspaceId));
+    return files
+      .filter((file) => file.endsWith(".jsonl"))
+      .sort()
+      .map((file) => path.join(archiveDir(workspaceId), file));
+  } catch (error) {
+    if (isMissing(error)) return [];
+    throw error;
+  }
+}
+
+const toLines = (events: AgentEvent[]) =>
+  events.map((event) => `${JSON.stringify(event)}\n`).join("");
+
+const byTime = (a: AgentEvent, b: AgentEvent) =>
+  new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+
+/** Archived events keep which records changed but drop the values. */
+const compact = (event: AgentEvent): AgentEvent =>
+  event.changes
+    ? {
+        ...event,
+        changes: event.changes.map(({ collection, id, kind }) => ({
+          collection,
+          id,
+          kind,
+        })),
+        compacted: true,
+      }
+    : event;
+
+/**
+ * Moves all but the newest `ACTIVE_KEEP` entries into monthly archives.
+ * Archives are written before the active segment shrinks, so a crash in
+ * between duplicates entries (collapsed on read) rather than losing them.
+ */
+async function archive(workspaceId: string, entries: AgentEvent[]) {
+  const older = entries.slice(0, -ACTIVE_KEEP);
+  const byMonth = new Map<string, AgentEvent[]>();
+  older.forEach((event) => {
+    const month = event.timestamp.slice(0, 7);
+    const events = byMonth.get(month) ?? [];
+    events.push(compact(event));
+    byMonth.set(month, events);
+  });
+
+  await fs.mkdir(archiveDir(workspaceId), { recursive: true });
+  for (const [month, events] of byMonth) {
+    await fs.appendFile(
+      path.join(archiveDir(workspaceId), `${month}.jsonl`),
+      toLines(events),
+      "utf8",
+    );
+  }
+
+  const file = activeFile(workspaceId);
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temp, toLines(entries.slice(-ACTIVE_KEEP)), "utf8");
+  await fs.rename(temp, file);
+}
+
+/**
+ * Appends the events in `next` that the log hasn't seen. The first write
+ * to a workspace without a log also records `previous`, the events saved
+ * before the log existed. Callers serialise writes per workspace.
+ */
+export async function appendToEventLog(
+  workspaceId: string,
+  previous: AgentEvent[],
+  next: AgentEvent[],
+) {
+  const logged = await readSegment(activeFile(workspaceId));
+  const isNewLog = !logged.length && !(await archiveFiles(workspaceId)).length;
+  const seen = new Set(logged.map((event) => event.id));
+  const fresh = mergeEvents(isNewLog ? previous : [], next)
+    .filter((event) => !seen.has(event.id))
+    .sort(byTime);
+
+  if (!fresh.length) return;
+
+  await fs.mkdir(eventsDir(), { recursive: true });
+  await fs.appendFile(activeFile(workspaceId), toLines(fresh), "utf8");
+
+  if (logged.length + fresh.length > ACTIVE_LIMIT) {
+    await archive(workspaceId, [...logged, ...fresh]);
+  }
+}
+
+export interface EventLogPage {
+  /** Matching events, newest first. */
+  events: AgentEvent[];
+  /** How many events match in total, across all pages. */
+  total: number;
+}
+
+/** Searches the whole log, archives included. */
+export async function readEventLog(
+  workspaceId: string,
+  filter: EventFilter,
+  offset = 0,
+  limit = Infinity,
+): Promise<EventLogPage> {
+  const segments = await Promise.all(
+    [...(await archiveFiles(workspaceId)), activeFile(workspaceId)].map(
+      readSegment,
+    ),
+  );
+  const matching = mergeEvents(...segments).filter((event) =>
+    matchesEventFilter(event, filter),
+  );
+
+  return {
+    events: matching.slice(offset, offset + limit),
+    total: matching.length,
+  };
+}
@@ -0,0 +1,25 @@
+import { AgentEvent, AgentState } from "../types";
+import { createId } from "../utils/agent";
+import { RECENT_EVENT_LIMIT } from "../utils/eventLog";
+
+/** Logs server-side activity in the same feed as the client's own events. */
+export function appendEvents(
+  state: AgentState,
+  events: Omit<AgentEvent, "id" | "timestamp">[],
+  now = new Date(),
+): AgentState {
+  if (!events.length) return state;
+
+  const entries = events
+    .map((event) => ({
+      id: createId(),
+      timestamp: now.toISOString(),
+      ...event,
+    }))
+    .reverse();
+
+  return {
+    ...state,
+    events: [...entries, ...state.events].slice(0, RECENT_EVENT_LIMIT),
+  };
+}
@@ -0,0 +1,55 @@
+import { AgentState } from "../types";
+import { evergreenQueue, isDue, recycleDrafts } from "../utils/evergreen";
+import { entitiesOf, uniqueEntities } from "../utils/eventLog";
+import { appendEvents } from "./events";
+import {
+  listWorkspaceIds,
+  readWorkspace,
+  updateWorkspace,
+} from "./workspaceStore";
+
+/** Re-runs every due post of the campaigns that have evergreen recycling on. */
+function recycleDue(state: AgentState, now: Date) {
+  let drafts = state.drafts;
+  const events: Parameters<typeof appendEvents>[1] = [];
+
+  state.campaigns
+    .filter((campaign) => campaign.evergreen.enabled)
+    .forEach((campaign) => {
+      const due = evergreenQueue(campaign, drafts).filter((candidate) =>
+        isDue(candidate, now),
+      );
+      if (!due.length) return;
+
+      const copies = recycleDrafts(due, campaign, drafts, state.assets, now);
+      drafts = [...drafts, ...copies];
+      events.push({
+        label: "Evergreen Recycled",
+        details: `${campaign.title}: ${copies
+          .map((copy) => copy.platform)
+          .join(", ")} post${copies.length === 1 ? "" : "s"} back in the queue`,
+        tone: "success",
+        entities: uniqueEntities(
+          copies.flatMap((copy) => entitiesOf("draft", copy)),
+        ),
+      });
+    });
+
+  return { state: appendEvents({ ...state, drafts }, events, now), events };
+}
+
+/** Queues fresh runs of top posts whose cooldown is over, in every workspace. */
+export async function runEvergreenJob(now = new Date()) {
+  let recycled = 0;
+  for (const workspaceId of await listWorkspaceIds()) {
+    const { state } = await readWorkspace(workspaceId);
+    if (!state || !recycleDue(state, now).events.length) continue;
+
+    await updateWorkspace(workspaceId, (current) => {
+      const next = recycleDue(current, now).state;
+      recycled += next.drafts.length - current.drafts.length;
+      return next;
+    });
+  }
+  return recycled;
+}
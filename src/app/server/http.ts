@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { AgentState } from "../types";
+import { DEFAULT_WORKSPACE_ID, isWorkspaceId } from "../utils/workspaces";
+import { RevisionConflictError, WorkspaceSnapshot } from "./workspaceStore";
+
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export async function readJsonBody(request: Request) {
+  try {
+    return (await request.json()) as Record<string, unknown>;
+  } catch {
+    throw new HttpError(400, "Request body must be JSON");
+  }
+}
+
+export function readBaseRevision(body: Record<string, unknown>) {
+  const { baseRevision } = body;
+  if (typeof baseRevision !== "number" || !Number.isInteger(baseRevision)) {
+    throw new HttpError(400, "`baseRevision` must be an integer");
+  }
+  return baseRevision;
+}
+
+/** `?workspace=<id>`, defaulting to the workspace that predates the param. */
+export function readWorkspaceId(request: Request) {
+  const workspaceId =
+    new URL(request.url).searchParams.get("workspace") ?? DEFAULT_WORKSPACE_ID;
+  if (!isWorkspaceId(workspaceId)) {
+    throw new HttpError(400, "`workspace` must be a lowercase slug");
+  }
+  return workspaceId;
+}
+
+export function isAgentState(value: unknown): value is AgentState {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Record<string, unknown>;
+
+  return (
+    !!candidate.brand &&
+    typeof candidate.brand === "object" &&
+    Array.isArray(candidate.campaigns) &&
+    Array.isArray(candidate.ideas) &&
+    Array.isArray(candidate.drafts) &&
+    Array.isArray(candidate.events)
+  );
+}
+
+export function requireState(state: AgentState | null) {
+  if (!state) {
+    throw new HttpError(404, "Workspace has not been initialised");
+  }
+  return state;
+}
+
+export const snapshotResponse = (snapshot: WorkspaceSnapshot, status = 200) =>
+  NextResponse.json(snapshot, { status });
+
+/** Maps store and validation errors onto JSON responses. */
+export function errorResponse(error: unknown) {
+  if (error instanceof RevisionConflictError) {
+    return NextResponse.json(
+      { error: error.message, ...error.current },
+      { status: 409 },
+    );
+  }
+
+  if (error instanceof HttpError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  console.error("Workspace API failure", error);
+  return NextResponse.json(
+    { error: "Workspace storage failed" },
+    { status: 500 },
+  );
+}
@@ -0,0 +1,120 @@
+import { ContentDraft, MetricSample, Platform } from "../types";
+import { withMetricSample } from "../utils/analytics";
+import { entitiesOf, uniqueEntities } from "../utils/eventLog";
+import { appendEvents } from "./events";
+import { resolveConnector } from "./publishers";
+import {
+  listWorkspaceIds,
+  readWorkspace,
+  updateWorkspace,
+} from "./workspaceStore";
+
+/** How often a live post is re-read, and for how long after posting. */
+const SAMPLE_INTERVAL_MS = 6 * 60 * 60_000;
+const SAMPLE_WINDOW_MS = 30 * 24 * 60 * 60_000;
+
+function needsReading(draft: ContentDraft, now: Date) {
+  const publication = draft.publication;
+  if (
+    draft.stage !== "published" ||
+    publication?.status !== "published" ||
+    !publication.externalId
+  ) {
+    return false;
+  }
+
+  if (
+    now.getTime() - new Date(publication.lastAttemptAt).getTime() >
+    SAMPLE_WINDOW_MS
+  ) {
+    return false;
+  }
+
+  const lastReading = (draft.metrics ?? [])
+    .filter((sample) => sample.source === "connector")
+    .at(-1);
+  return (
+    !lastReading ||
+    now.getTime() - new Date(lastReading.capturedAt).getTime() >=
+      SAMPLE_INTERVAL_MS
+  );
+}
+
+/**
+ * Asks each connector that supports it for the latest totals of recently
+ * published posts and appends them to the drafts' metric series.
+ */
+export async function collectConnectorMetrics(now = new Date()) {
+  let collected = 0;
+  for (const workspaceId of await listWorkspaceIds()) {
+    collected += await collectWorkspaceMetrics(workspaceId, now);
+  }
+  return collected;
+}
+
+async function collectWorkspaceMetrics(workspaceId: string, now: Date) {
+  const { state } = await readWorkspace(workspaceId);
+  const due = (state?.drafts ?? []).filter((draft) => needsReading(draft, now));
+  const platforms = [...new Set(due.map((draft) => draft.platform))];
+  const readings = new Map<string, MetricSample>();
+  const counts = new Map<Platform, number>();
+
+  for (const platform of platforms) {
+    const connector = resolveConnector(platform);
+    if (!connector.fetchMetrics) continue;
+
+    try {
+      const session = await connector.authenticate();
+
+      for (const draft of due.filter((item) => item.platform === platform)) {
+        try {
+          const totals = await connector.fetchMetrics(
+            session,
+            draft.publication?.externalId as string,
+          );
+          readings.set(draft.id, {
+            ...totals,
+            capturedAt: now.toISOString(),
+            source: "connector",
+          });
+          counts.set(platform, (counts.get(platform) ?? 0) + 1);
+        } catch (error) {
+          console.warn(`Metrics read failed for draft ${draft.id}`, error);
+        }
+      }
+    } catch (error) {
+      console.warn(`Metrics collection skipped for ${platform}`, error);
+    }
+  }
+
+  if (!readings.size) return 0;
+
+  await updateWorkspace(workspaceId, (current) =>
+    appendEvents(
+      {
+        ...current,
+        drafts: current.drafts.map((draft) => {
+          const sample = readings.get(draft.id);
+          return sample ? withMetricSample(draft, sample) : draft;
+        }),
+      },
+      [
+        {
+          label: "Metrics Collected",
+          details: [...counts.entries()]
+            .map(([platform, count]) => `${platform}: ${count} posts`)
+            .join(", "),
+          tone: "info",
+          entities: uniqueEntities(
+            current.drafts
+              .filter((draft) => readings.has(draft.id))
+              .flatMap((draft) => entitiesOf("draft", draft)),
+          ),
+        },
+      ],
+      now,
+    ),
+  );
+
+  return readings.size;
+}
@@ -0,0 +1,903 @@
+import { AssetKind, Platform } from "../types";
+import { assetUrl } from "../utils/assets";
+
+export class PublishError extends Error {
+  constructor(
+    message: string,
+    /** Network hiccups and 5xx/429 responses are worth another attempt. */
+    public readonly retryable: boolean,
+    public readonly status?: number,
+    /** What already went out, e.g. the start of a thread, for a retry to resume. */
+    public readonly partial?: PublishReceipt,
+  ) {
+    super(message);
+    this.name = "PublishError";
+  }
+}
+
+export interface PublishSession {
+  accessToken: string;
+  /** Handle, URN or user id the network posts as. */
+  accountId: string;
+}
+
+export interface OutgoingPost {
+  draftId: string;
+  /** Final text as composed for the network, hashtags included. */
+  text: string;
+  /** A thread's follow-up posts, each replying to the one before. */
+  replies?: string[];
+  /** Attached assets in order, one per slide for carousels. */
+  media?: OutgoingMedia[];
+  /** Where a thread that stopped partway left off; only the rest is posted. */
+  resume?: PublishReceipt;
+}
+
+export interface OutgoingMedia {
+  kind: AssetKind;
+  mimeType: string;
+  bytes: number;
+  /** Public URL for networks that download the file; throws when there is none. */
+  url: () => string;
+  /** Bytes `start` up to `end`, for networks the file is uploaded to. */
+  read: (start: number, end: number) => Promise<Uint8Array<ArrayBuffer>>;
+}
+
+export interface PublishReceipt {
+  externalId: string;
+  url?: string;
+  /** A thread's replies, in order. */
+  replyIds?: string[];
+}
+
+export interface RemotePostStatus {
+  state: "processing" | "published" | "failed";
+  url?: string;
+  error?: string;
+}
+
+export interface RemoteMetrics {
+  impressions: number;
+  engagements: number;
+}
+
+export interface PublisherConnector {
+  platform: Platform;
+  /** API root posts go to: the live network or the mock server. */
+  target: string;
+  authenticate(): Promise<PublishSession>;
+  publish(session: PublishSession, post: OutgoingPost): Promise<PublishReceipt>;
+  fetchStatus(
+    session: PublishSession,
+    externalId: string,
+  ): Promise<RemotePostStatus>;
+  /** Lifetime totals for a live post, where the network exposes them. */
+  fetchMetrics?(
+    session: PublishSession,
+    externalId: string,
+  ): Promise<RemoteMetrics>;
+}
+
+interface ConnectorConfig {
+  apiUrl: string;
+  webUrl: string;
+  accessToken?: string;
+  accountId?: string;
+}
+
+const ENV_NAMES: Record<Platform, string> = {
+  Instagram: "INSTAGRAM",
+  LinkedIn: "LINKEDIN",
+  TikTok: "TIKTOK",
+  X: "X",
+};
+
+const LIVE_ENDPOINTS: Record<Platform, { apiUrl: string; webUrl: string }> = {
+  Instagram: {
+    apiUrl: "https://graph.facebook.com/v21.0",
+    webUrl: "https://www.instagram.com",
+  },
+  LinkedIn: {
+    apiUrl: "https://api.linkedin.com",
+    webUrl: "https://www.linkedin.com",
+  },
+  TikTok: {
+    apiUrl: "https://open.tiktokapis.com",
+    webUrl: "https://www.tiktok.com",
+  },
+  X: { apiUrl: "https://api.x.com", webUrl: "https://x.com" },
+};
+
+const MOCK_ACCOUNT_IDS: Partial<Record<Platform, string>> = {
+  Instagram: "17841400000000000",
+};
+
+/**
+ * Reads `AGENTIC_<PLATFORM>_ACCESS_TOKEN` / `_ACCOUNT_ID` / `_API_URL`.
+ * `AGENTIC_SOCIAL_MOCK_URL` routes every platform to the mock network, where
+ * any token is accepted.
+ */
+function connectorConfig(platform: Platform): ConnectorConfig {
+  const prefix = `AGENTIC_${ENV_NAMES[platform]}`;
+  const env = process.env;
+  const mockUrl = env.AGENTIC_SOCIAL_MOCK_URL?.replace(/\/+$/, "");
+
+  if (mockUrl) {
+    const root = `${mockUrl}/${ENV_NAMES[platform].toLowerCase()}`;
+    return {
+      apiUrl: root,
+      webUrl: `${root}/web`,
+      accessToken: env[`${prefix}_ACCESS_TOKEN`] || "mock-token",
+      accountId: env[`${prefix}_ACCOUNT_ID`] || MOCK_ACCOUNT_IDS[platform],
+    };
+  }
+
+  return {
+    apiUrl: (
+      env[`${prefix}_API_URL`] || LIVE_ENDPOINTS[platform].apiUrl
+    ).replace(/\/+$/, ""),
+    webUrl: LIVE_ENDPOINTS[platform].webUrl,
+    accessToken: env[`${prefix}_ACCESS_TOKEN`] || undefined,
+    accountId: env[`${prefix}_ACCOUNT_ID`] || undefined,
+  };
+}
+
+/**
+ * Instagram and TikTok download media themselves, so asset URLs must be
+ * reachable from the internet: `AGENTIC_PUBLIC_URL` is where this app is
+ * served. The mock network never downloads them, so localhost will do there.
+ */
+export function publicAssetUrl(workspaceId: string, assetId: string) {
+  const env = process.env;
+  const origin =
+    env.AGENTIC_PUBLIC_URL ||
+    (env.AGENTIC_SOCIAL_MOCK_URL ? `http://localhost:${env.PORT || 3000}` : "");
+
+  if (!origin) {
+    throw new PublishError(
+      "Networks download media by URL: set AGENTIC_PUBLIC_URL to the address this app is served at",
+      false,
+    );
+  }
+  return `${origin.replace(/\/+$/, "")}${assetUrl(workspaceId, assetId)}`;
+}
+
+function requireToken(platform: Platform, config: ConnectorConfig) {
+  if (!config.accessToken) {
+    throw new PublishError(
+      `${platform} isn't connected: set AGENTIC_${ENV_NAMES[platform]}_ACCESS_TOKEN or AGENTIC_SOCIAL_MOCK_URL`,
+      false,
+    );
+  }
+  return config.accessToken;
+}
+
+const REQUEST_TIMEOUT_MS = 20_000;
+
+type Json = Record<string, unknown>;
+
+const asRecord = (value: unknown): Json =>
+  value && typeof value === "object" ? (value as Json) : {};
+
+/** Pulls a readable reason out of the error shapes the four APIs use. */
+function errorMessage(body: Json) {
+  const nested = asRecord(body.error);
+  const candidates = [
+    nested.message,
+    body.detail,
+    body.message,
+    body.title,
+    typeof body.error === "string" ? body.error : undefined,
+  ];
+  return candidates.find(
+    (value): value is string => typeof value === "string" && !!value,
+  );
+}
+
+async function callApi(
+  platform: Platform,
+  url: string,
+  accessToken: string,
+  init: {
+    method?: "GET" | "POST" | "PUT";
+    body?: unknown;
+    /** Sent as is instead of a JSON `body`, e.g. file uploads. */
+    data?: Blob | FormData;
+    headers?: Record<string, string>;
+  } = {},
+) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, {
+      method: init.method ?? "GET",
+      signal: controller.signal,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        ...(init.body !== undefined
+          ? { "Content-Type": "application/json" }
+          : {}),
+        ...init.headers,
+      },
+      body: init.body !== undefined ? JSON.stringify(init.body) : init.data,
+    });
+    const text = await response.text();
+    let body: Json = {};
+    try {
+      body = text ? asRecord(JSON.parse(text)) : {};
+    } catch {
+      body = {};
+    }
+
+    if (!response.ok) {
+      throw new PublishError(
+        `${platform} responded with HTTP ${response.status}${
+          errorMessage(body) ? `: ${errorMessage(body)}` : ""
+        }`,
+        response.status === 429 || response.status >= 500,
+        response.status,
+      );
+    }
+
+    return { body, headers: response.headers };
+  } catch (error) {
+    if (error instanceof PublishError) throw error;
+    throw new PublishError(
+      controller.signal.aborted
+        ? `${platform} timed out after ${REQUEST_TIMEOUT_MS / 1000}s`
+        : `${platform} request failed: ${(error as Error).message}`,
+      true,
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function readId(platform: Platform, value: unknown, what: string) {
+  if (typeof value === "string" && value) return value;
+  if (typeof value === "number") return String(value);
+  throw new PublishError(`${platform} response had no ${what}`, false);
+}
+
+const CONTAINER_POLLS = 10;
+const CONTAINER_POLL_MS = 3000;
+/** Size of each upload request for networks that take files in parts. */
+const UPLOAD_CHUNK_BYTES = 4 * 1024 * 1024;
+
+const nextPoll = () =>
+  new Promise((resolve) => setTimeout(resolve, CONTAINER_POLL_MS));
+
+function xConnector(config: ConnectorConfig): PublisherConnector {
+  const postUrl = (session: PublishSession, id: string) =>
+    `${config.webUrl}/${session.accountId}/status/${id}`;
+
+  return {
+    platform: "X",
+    target: config.apiUrl,
+    async authenticate() {
+      const accessToken = requireToken("X", config);
+      const { body } = await callApi(
+        "X",
+        `${config.apiUrl}/2/users/me`,
+        accessToken,
+      );
+      const user = asRecord(body.data);
+      return {
+        accessToken,
+        accountId:
+          typeof user.username === "string"
+            ? user.username
+            : readId("X", user.id, "user id"),
+      };
+    },
+    async publish(session, post) {
+      const media = post.media ?? [];
+      if (
+        media.some((file) => file.kind === "video")
+          ? media.length > 1
+          : media.length > 4
+      ) {
+        throw new PublishError(
+          "X posts up to four images or a single video",
+          false,
+        );
+      }
+
+      // Files are uploaded in parts first; the post refers to their ids.
+      const upload = async (file: OutgoingMedia) => {
+        const { body } = await callApi(
+          "X",
+          `${config.apiUrl}/2/media/upload/initialize`,
+          session.accessToken,
+          {
+            method: "POST",
+            body: {
+              media_type: file.mimeType,
+              total_bytes: file.bytes,
+              media_category:
+                file.kind === "video" ? "tweet_video" : "tweet_image",
+            },
+          },
+        );
+        const mediaId = readId("X", asRecord(body.data).id, "media id");
+        const uploadUrl = `${config.apiUrl}/2/media/upload/${encodeURIComponent(mediaId)}`;
+
+        for (let start = 0; start < file.bytes; start += UPLOAD_CHUNK_BYTES) {
+          const form = new FormData();
+          form.append("segment_index", String(start / UPLOAD_CHUNK_BYTES));
+          form.append(
+            "media",
+            new Blob([
+              await file.read(
+                start,
+                Math.min(start + UPLOAD_CHUNK_BYTES, file.bytes),
+              ),
+            ]),
+          );
+          await callApi("X", `${uploadUrl}/append`, session.accessToken, {
+            method: "POST",
+            data: form,
+          });
+        }
+
+        // Videos are transcoded before a post can use them.
+        let { body: status } = await callApi(
+          "X",
+          `${uploadUrl}/finalize`,
+          session.accessToken,
+          { method: "POST" },
+        );
+        for (let poll = 0; ; poll += 1) {
+          const { state } = asRecord(asRecord(status.data).processing_info);
+          if (!state || state === "succeeded") return mediaId;
+          if (state === "failed") {
+            throw new PublishError(
+              "X couldn't process the attached video",
+              false,
+            );
+          }
+          if (poll === CONTAINER_POLLS) {
+            throw new PublishError("X is still processing the video", true);
+          }
+          await nextPoll();
+          ({ body: status } = await callApi(
+            "X",
+            `${config.apiUrl}/2/media/upload?command=STATUS&media_id=${encodeURIComponent(mediaId)}`,
+            session.accessToken,
+          ));
+        }
+      };
+      const uploadAll = async () => {
+        const mediaIds: string[] = [];
+        for (const file of media) mediaIds.push(await upload(file));
+        return mediaIds;
+      };
+
+      const tweet = async (
+        text: string,
+        replyTo?: string,
+        mediaIds: string[] = [],
+      ) => {
+        const { body } = await callApi(
+          "X",
+          `${config.apiUrl}/2/tweets`,
+          session.accessToken,
+          {
+            method: "POST",
+            body: {
+              text,
+              ...(replyTo ? { reply: { in_reply_to_tweet_id: replyTo } } : {}),
+              ...(mediaIds.length ? { media: { media_ids: mediaIds } } : {}),
+            },
+          },
+        );
+        return readId("X", asRecord(body.data).id, "post id");
+      };
+
+      // Only the lead post carries the files.
+      const id =
+        post.resume?.externalId ??
+        (await tweet(post.text, undefined, await uploadAll()));
+      const url = postUrl(session, id);
+      const replies = post.replies ?? [];
+      const replyIds = [...(post.resume?.replyIds ?? [])];
+      for (const [index, text] of replies.entries()) {
+        if (index < replyIds.length) continue;
+        try {
+          replyIds.push(await tweet(text, replyIds.at(-1) ?? id));
+        } catch (error) {
+          // What's live is handed back, so a retry carries on from here
+          // rather than posting the thread twice.
+          throw new PublishError(
+            `Thread stopped after post ${index + 1} of ${replies.length + 1} (${url}): ${(error as Error).message}`,
+            error instanceof PublishError && error.retryable,
+            undefined,
+            { externalId: id, url, replyIds },
+          );
+        }
+      }
+      return { externalId: id, url, replyIds };
+    },
+    async fetchStatus(session, externalId) {
+      try {
+        await callApi(
+          "X",
+          `${config.apiUrl}/2/tweets/${encodeURIComponent(externalId)}`,
+          session.accessToken,
+        );
+        return { state: "published", url: postUrl(session, externalId) };
+      } catch (error) {
+        if (error instanceof PublishError && error.status === 404) {
+          return { state: "failed", error: "Post no longer exists on X" };
+        }
+        throw error;
+      }
+    },
+    async fetchMetrics(session, externalId) {
+      const { body } = await callApi(
+        "X",
+        `${config.apiUrl}/2/tweets/${encodeURIComponent(externalId)}?tweet.fields=public_metrics`,
+        session.accessToken,
+      );
+      const metrics = asRecord(asRecord(body.data).public_metrics);
+      const count = (key: string) =>
+        typeof metrics[key] === "number" ? (metrics[key] as number) : 0;
+
+      return {
+        impressions: count("impression_count"),
+        engagements:
+          count("like_count") +
+          count("retweet_count") +
+          count("reply_count") +
+          count("quote_count") +
+          count("bookmark_count"),
+      };
+    },
+  };
+}
+
+const LINKEDIN_HEADERS = {
+  "LinkedIn-Version": "202405",
+  "X-Restli-Protocol-Version": "2.0.0",
+};
+
+/** LinkedIn's "little text" commentary format reserves these characters. */
+const escapeLittleText = (text: string) =>
+  text.replace(/[\\|{}@[\]()<>*_~]/g, (char) => `\\${char}`);
+
+function linkedInConnector(config: ConnectorConfig): PublisherConnector {
+  return {
+    platform: "LinkedIn",
+    target: config.apiUrl,
+    async authenticate() {
+      const accessToken = requireToken("LinkedIn", config);
+      const { body } = await callApi(
+        "LinkedIn",
+        `${config.apiUrl}/v2/userinfo`,
+        accessToken,
+      );
+      return {
+        accessToken,
+        // Organisation pages post under an explicit URN; members under their own.
+        accountId:
+          config.accountId ??
+          `urn:li:person:${readId("LinkedIn", body.sub, "member id")}`,
+      };
+    },
+    async publish(session, post) {
+      const media = post.media ?? [];
+      if (media.length > 1 && media.some((file) => file.kind === "video")) {
+        throw new PublishError(
+          "LinkedIn posts either one video or a set of images, not both",
+          false,
+        );
+      }
+
+      // Files are registered, uploaded and then referred to by URN.
+      const initialize = async (
+        resource: "images" | "videos",
+        request: Json,
+      ) => {
+        const { body } = await callApi(
+          "LinkedIn",
+          `${config.apiUrl}/rest/${resource}?action=initializeUpload`,
+          session.accessToken,
+          {
+            method: "POST",
+            headers: LINKEDIN_HEADERS,
+            body: {
+              initializeUploadRequest: {
+                owner: session.accountId,
+                ...request,
+              },
+            },
+          },
+        );
+        return asRecord(body.value);
+      };
+      const put = async (
+        uploadUrl: unknown,
+        file: OutgoingMedia,
+        start: number,
+        end: number,
+      ) => {
+        const { headers } = await callApi(
+          "LinkedIn",
+          readId("LinkedIn", uploadUrl, "upload URL"),
+          session.accessToken,
+          { method: "PUT", data: new Blob([await file.read(start, end)]) },
+        );
+        return headers.get("etag") ?? "";
+      };
+      const upload = async (file: OutgoingMedia) => {
+        if (file.kind === "image") {
+          const value = await initialize("images", {});
+          await put(value.uploadUrl, file, 0, file.bytes);
+          return readId("LinkedIn", value.image, "image URN");
+        }
+
+        const value = await initialize("videos", {
+          fileSizeBytes: file.bytes,
+          uploadCaptions: false,
+          uploadThumbnail: false,
+        });
+        const video = readId("LinkedIn", value.video, "video URN");
+        const uploadedPartIds: string[] = [];
+        for (const part of Array.isArray(value.uploadInstructions)
+          ? value.uploadInstructions
+          : []) {
+          const { uploadUrl, firstByte, lastByte } = asRecord(part);
+          uploadedPartIds.push(
+            await put(uploadUrl, file, Number(firstByte), Number(lastByte) + 1),
+          );
+        }
+        await callApi(
+          "LinkedIn",
+          `${config.apiUrl}/rest/videos?action=finalizeUpload`,
+          session.accessToken,
+          {
+            method: "POST",
+            headers: LINKEDIN_HEADERS,
+            body: {
+              finalizeUploadRequest: {
+                video,
+                uploadToken: value.uploadToken ?? "",
+                uploadedPartIds,
+              },
+            },
+          },
+        );
+
+        // Videos are processed before a post can use them.
+        for (let poll = 0; poll < CONTAINER_POLLS; poll += 1) {
+          const { body } = await callApi(
+            "LinkedIn",
+            `${config.apiUrl}/rest/videos/${encodeURIComponent(video)}`,
+            session.accessToken,
+            { headers: LINKEDIN_HEADERS },
+          );
+          if (body.status === "AVAILABLE") return video;
+          if (body.status === "PROCESSING_FAILED") {
+            throw new PublishError(
+              "LinkedIn couldn't process the attached video",
+              false,
+            );
+          }
+          await nextPoll();
+        }
+        throw new PublishError("LinkedIn is still processing the video", true);
+      };
+
+      const urns: string[] = [];
+      for (const file of media) urns.push(await upload(file));
+
+      const { body, headers } = await callApi(
+        "LinkedIn",
+        `${config.apiUrl}/rest/posts`,
+        session.accessToken,
+        {
+          method: "POST",
+          headers: LINKEDIN_HEADERS,
+          body: {
+            author: session.accountId,
+            commentary: escapeLittleText(post.text),
+            // Carousels go out as multi-image posts, a slide per image.
+            ...(urns.length > 1
+              ? {
+                  content: {
+                    multiImage: { images: urns.map((id) => ({ id })) },
+                  },
+                }
+              : urns.length
+                ? { content: { media: { id: urns[0] } } }
+                : {}),
+            visibility: "PUBLIC",
+            distribution: {
+              feedDistribution: "MAIN_FEED",
+              targetEntities: [],
+              thirdPartyDistributionChannels: [],
+            },
+            lifecycleState: "PUBLISHED",
+            isReshareDisabledByAuthor: false,
+          },
+        },
+      );
+      const id = readId(
+        "LinkedIn",
+        headers.get("x-restli-id") ?? body.id,
+        "post URN",
+      );
+      return { externalId: id, url: `${config.webUrl}/feed/update/${id}` };
+    },
+    async fetchStatus(session, externalId) {
+      const { body } = await callApi(
+        "LinkedIn",
+        `${config.apiUrl}/rest/posts/${encodeURIComponent(externalId)}`,
+        session.accessToken,
+        { headers: LINKEDIN_HEADERS },
+      );
+      const url = `${config.webUrl}/feed/update/${externalId}`;
+
+      switch (body.lifecycleState) {
+        case "PUBLISHED":
+          return { state: "published", url };
+        case "PROCESSING_FAILED":
+          return {
+            state: "failed",
+            error: "LinkedIn failed to process the post",
+          };
+        default:
+          return { state: "processing", url };
+      }
+    },
+  };
+}
+
+function instagramConnector(config: ConnectorConfig): PublisherConnector {
+  return {
+    platform: "Instagram",
+    target: config.apiUrl,
+    async authenticate() {
+      const accessToken = requireToken("Instagram", config);
+      if (!config.accountId) {
+        throw new PublishError(
+          "Instagram needs AGENTIC_INSTAGRAM_ACCOUNT_ID (the professional account's user id)",
+          false,
+        );
+      }
+      const { body } = await callApi(
+        "Instagram",
+        `${config.apiUrl}/${config.accountId}?fields=id,username`,
+        accessToken,
+      );
+      return {
+        accessToken,
+        accountId: readId("Instagram", body.id, "account id"),
+      };
+    },
+    async publish(session, post) {
+      // Instagram publishes in two steps: create a media container, then
+      // publish it. Carousels get a container per slide first.
+      const createContainer = async (fields: Json) => {
+        const { body } = await callApi(
+          "Instagram",
+          `${config.apiUrl}/${session.accountId}/media`,
+          session.accessToken,
+          { method: "POST", body: fields },
+        );
+        return readId("Instagram", body.id, "media container id");
+      };
+      // Videos are downloaded and transcoded before they can be published.
+      const awaitContainer = async (id: string) => {
+        for (let poll = 0; poll < CONTAINER_POLLS; poll += 1) {
+          const { body } = await callApi(
+            "Instagram",
+            `${config.apiUrl}/${encodeURIComponent(id)}?fields=status_code`,
+            session.accessToken,
+          );
+          if (body.status_code === "FINISHED") return;
+          if (body.status_code === "ERROR" || body.status_code === "EXPIRED") {
+            throw new PublishError(
+              "Instagram couldn't process the attached video",
+              false,
+            );
+          }
+          await nextPoll();
+        }
+        throw new PublishError("Instagram is still processing the video", true);
+      };
+
+      const media = post.media ?? [];
+      const hasVideo = media.some((file) => file.kind === "video");
+      let creationId: string;
+      if (media.length > 1) {
+        const children: string[] = [];
+        for (const file of media) {
+          const child = await createContainer(
+            file.kind === "video"
+              ? {
+                  media_type: "VIDEO",
+                  video_url: file.url(),
+                  is_carousel_item: true,
+                }
+              : { image_url: file.url(), is_carousel_item: true },
+          );
+          if (file.kind === "video") await awaitContainer(child);
+          children.push(child);
+        }
+        creationId = await createContainer({
+          media_type: "CAROUSEL",
+          children: children.join(","),
+          caption: post.text,
+        });
+      } else {
+        const [file] = media;
+        creationId = await createContainer(
+          file?.kind === "video"
+            ? { media_type: "REELS", video_url: file.url(), caption: post.text }
+            : { image_url: file?.url(), caption: post.text },
+        );
+      }
+      if (hasVideo) await awaitContainer(creationId);
+
+      const { body } = await callApi(
+        "Instagram",
+        `${config.apiUrl}/${session.accountId}/media_publish`,
+        session.accessToken,
+        { method: "POST", body: { creation_id: creationId } },
+      );
+      return { externalId: readId("Instagram", body.id, "media id") };
+    },
+    async fetchStatus(session, externalId) {
+      const { body } = await callApi(
+        "Instagram",
+        `${config.apiUrl}/${encodeURIComponent(externalId)}?fields=id,permalink`,
+        session.accessToken,
+      );
+      return {
+        state: "published",
+        url: typeof body.permalink === "string" ? body.permalink : undefined,
+      };
+    },
+    async fetchMetrics(session, externalId) {
+      const { body } = await callApi(
+        "Instagram",
+        `${config.apiUrl}/${encodeURIComponent(externalId)}/insights?metric=impressions,total_interactions`,
+        session.accessToken,
+      );
+      const values = new Map(
+        (Array.isArray(body.data) ? body.data : []).map((entry) => {
+          const metric = asRecord(entry);
+          const [latest] = Array.isArray(metric.values) ? metric.values : [];
+          const value = asRecord(latest).value;
+          return [metric.name, typeof value === "number" ? value : 0];
+        }),
+      );
+
+      return {
+        impressions: values.get("impressions") ?? 0,
+        engagements: values.get("total_interactions") ?? 0,
+      };
+    },
+  };
+}
+
+/** TikTok answers 200 with `error.code !== "ok"` for request-level failures. */
+function tikTokData(body: Json) {
+  const error = asRecord(body.error);
+  if (error.code && error.code !== "ok") {
+    throw new PublishError(
+      `TikTok rejected the request: ${errorMessage(body) ?? String(error.code)}`,
+      false,
+    );
+  }
+  return asRecord(body.data);
+}
+
+function tikTokConnector(config: ConnectorConfig): PublisherConnector {
+  return {
+    platform: "TikTok",
+    target: config.apiUrl,
+    async authenticate() {
+      const accessToken = requireToken("TikTok", config);
+      const { body } = await callApi(
+        "TikTok",
+        `${config.apiUrl}/v2/user/info/?fields=open_id,display_name`,
+        accessToken,
+      );
+      const user = asRecord(tikTokData(body).user);
+      return {
+        accessToken,
+        accountId: readId("TikTok", user.open_id, "open id"),
+      };
+    },
+    async publish(session, post) {
+      const media = post.media ?? [];
+      const video = media.find((file) => file.kind === "video");
+      if (video && media.length > 1) {
+        throw new PublishError(
+          "TikTok posts either one video or a set of photos, not both",
+          false,
+        );
+      }
+
+      // Videos and photo posts have their own endpoints; a video's title is
+      // its whole caption, a photo post's title only the first line.
+      const { body } = await callApi(
+        "TikTok",
+        video
+          ? `${config.apiUrl}/v2/post/publish/video/init/`
+          : `${config.apiUrl}/v2/post/publish/content/init/`,
+        session.accessToken,
+        {
+          method: "POST",
+          body: video
+            ? {
+                post_info: {
+                  title: post.text,
+                  privacy_level: "PUBLIC_TO_EVERYONE",
+                },
+                source_info: {
+                  source: "PULL_FROM_URL",
+                  video_url: video.url(),
+                },
+              }
+            : {
+                post_info: {
+                  title: [...(post.text.split("\n")[0] ?? "")]
+                    .slice(0, 90)
+                    .join(""),
+                  description: post.text,
+                  privacy_level: "PUBLIC_TO_EVERYONE",
+                },
+                source_info: {
+                  source: "PULL_FROM_URL",
+                  photo_images: media.map((file) => file.url()),
+                  photo_cover_index: 0,
+                },
+                post_mode: "DIRECT_POST",
+                media_type: "PHOTO",
+              },
+        },
+      );
+      return {
+        externalId: readId("TikTok", tikTokData(body).publish_id, "publish id"),
+      };
+    },
+    async fetchStatus(session, externalId) {
+      const { body } = await callApi(
+        "TikTok",
+        `${config.apiUrl}/v2/post/publish/status/fetch/`,
+        session.accessToken,
+        { method: "POST", body: { publish_id: externalId } },
+      );
+      const data = tikTokData(body);
+
+      switch (data.status) {
+        case "PUBLISH_COMPLETE":
+          return { state: "published" };
+        case "FAILED":
+          return {
+            state: "failed",
+            error: `TikTok failed the post: ${String(data.fail_reason ?? "unknown reason")}`,
+          };
+        default:
+          return { state: "processing" };
+      }
+    },
+  };
+}
+
+const CONNECTORS: Record<
+  Platform,
+  (config: ConnectorConfig) => PublisherConnector
+> = {
+  Instagram: instagramConnector,
+  LinkedIn: linkedInConnector,
+  TikTok: tikTokConnector,
+  X: xConnector,
+};
+
+export const resolveConnector = (platform: Platform) =>
+  CONNECTORS[platform](connectorConfig(platform));
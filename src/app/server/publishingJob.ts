@@ -0,0 +1,414 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  AgentEvent,
+  AgentState,
+  Campaign,
+  ContentDraft,
+  MediaAsset,
+  Platform,
+  Publication,
+} from "../types";
+import { entitiesOf } from "../utils/eventLog";
+import {
+  composePost,
+  composeReplies,
+  validateDraft,
+  validateMedia,
+} from "../utils/platformRules";
+import { needsApproval } from "../utils/review";
+import { findAssetFile, readAssetRange } from "./assetStore";
+import {
+  OutgoingMedia,
+  publicAssetUrl,
+  PublishError,
+  PublishReceipt,
+  PublishSession,
+  resolveConnector,
+} from "./publishers";
+import { appendEvents } from "./events";
+import {
+  dataDir,
+  listWorkspaceIds,
+  readWorkspace,
+  updateWorkspace,
+} from "./workspaceStore";
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 5 * 60_000;
+
+type Ledger = Record<string, Publication>;
+
+/**
+ * Every post a network accepted, keyed by draft id and kept outside the
+ * workspace file, so a client overwriting the workspace (e.g. "Overwrite With
+ * Mine" after a conflict) can never make the job post the same draft twice.
+ */
+const ledgerFile = () => path.join(dataDir(), "publications.json");
+
+async function readLedger(): Promise<Ledger> {
+  try {
+    return JSON.parse(await fs.readFile(ledgerFile(), "utf8")) as Ledger;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw error;
+  }
+}
+
+async function writeLedger(ledger: Ledger) {
+  await fs.mkdir(dataDir(), { recursive: true });
+  const temp = `${ledgerFile()}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(ledger), "utf8");
+  await fs.rename(temp, ledgerFile());
+}
+
+type Action = "publish" | "check";
+
+function pendingAction(draft: ContentDraft, now: Date): Action | null {
+  if (draft.stage !== "scheduled") return null;
+
+  const publication = draft.publication;
+  if (publication?.status === "processing") return "check";
+  if (new Date(draft.schedule).getTime() > now.getTime()) return null;
+  if (publication?.status !== "failed") return "publish";
+
+  return publication.nextAttemptAt &&
+    new Date(publication.nextAttemptAt).getTime() <= now.getTime()
+    ? "publish"
+    : null;
+}
+
+interface WorkItem {
+  workspaceId: string;
+  draft: ContentDraft;
+  /** The workspace's library, to check and resolve the draft's assets. */
+  assets: MediaAsset[];
+  /** The draft's campaign, for its approval rule. */
+  campaign?: Campaign;
+  action: Action;
+}
+
+interface Outcome {
+  draftId: string;
+  publication: Publication;
+  event?: Omit<AgentEvent, "id" | "timestamp">;
+}
+
+const reasonOf = (error: unknown) =>
+  error instanceof PublishError
+    ? error.message
+    : `Unexpected publisher error: ${(error as Error).message}`;
+
+/** The draft's files in order, read from the asset store when sent. */
+async function outgoingMedia(
+  workspaceId: string,
+  draft: ContentDraft,
+  assets: MediaAsset[],
+): Promise<OutgoingMedia[]> {
+  const media: OutgoingMedia[] = [];
+  for (const id of draft.assetIds ?? []) {
+    const asset = assets.find((item) => item.id === id);
+    if (!asset) continue;
+    const stored = await findAssetFile(workspaceId, id);
+    if (!stored) {
+      throw new PublishError(`The file behind ${asset.name} is missing`, false);
+    }
+    media.push({
+      kind: asset.kind,
+      mimeType: stored.mimeType,
+      bytes: stored.bytes,
+      url: () => publicAssetUrl(workspaceId, id),
+      read: (start, end) => readAssetRange(stored, start, end),
+    });
+  }
+  return media;
+}
+
+async function settleDraft(
+  { workspaceId, draft, assets, campaign, action }: WorkItem,
+  ledger: Ledger,
+  sessionFor: (platform: Platform) => Promise<PublishSession>,
+  now: Date,
+): Promise<Outcome> {
+  const previous = draft.publication;
+  const known = ledger[draft.id] ?? previous;
+  const onRecord: PublishReceipt | null = known?.externalId
+    ? { externalId: known.externalId, url: known.url, replyIds: known.replyIds }
+    : null;
+  const replies = composeReplies(draft);
+  // A thread that stopped partway is finished off rather than posted again.
+  const progress =
+    onRecord?.replyIds && onRecord.replyIds.length < replies.length
+      ? onRecord
+      : undefined;
+  let receipt = progress ? null : onRecord;
+  const attempts =
+    receipt || action === "check"
+      ? (known?.attempts ?? 1)
+      : (previous?.status === "failed" ? previous.attempts : 0) + 1;
+  const lastAttemptAt = receipt
+    ? (known?.lastAttemptAt ?? now.toISOString())
+    : now.toISOString();
+
+  const failure = (error: unknown): Outcome => {
+    const retry =
+      error instanceof PublishError &&
+      error.retryable &&
+      attempts < MAX_ATTEMPTS;
+    const reason = reasonOf(error);
+    // Whatever is live stays on record, so the next attempt resumes it.
+    const live =
+      (error instanceof PublishError ? error.partial : undefined) ?? progress;
+
+    return {
+      draftId: draft.id,
+      publication: {
+        status: "failed",
+        attempts,
+        lastAttemptAt,
+        externalId: live?.externalId,
+        url: live?.url,
+        replyIds: live?.replyIds,
+        error: reason,
+        nextAttemptAt: retry
+          ? new Date(now.getTime() + RETRY_DELAY_MS * attempts).toISOString()
+          : undefined,
+      },
+      event: {
+        label: "Publish Failed",
+        details: `${draft.platform} draft stays scheduled: ${reason}${
+          retry ? ` (retry ${attempts + 1}/${MAX_ATTEMPTS} queued)` : ""
+        }`,
+        tone: "warning",
+      },
+    };
+  };
+
+  let session: PublishSession;
+  try {
+    session = await sessionFor(draft.platform);
+
+    if (!receipt) {
+      // Assets may have been removed, or the draft written through the API,
+      // since it was scheduled.
+      if (needsApproval(draft, campaign)) {
+        throw new PublishError(
+          `${campaign?.title} hasn't approved this version of the draft`,
+          false,
+        );
+      }
+      const blocking = [
+        ...validateDraft(draft),
+        ...validateMedia(draft, assets),
+      ].filter((violation) => violation.severity === "error");
+      if (blocking.length) {
+        throw new PublishError(
+          `Breaks ${draft.platform} rules: ${blocking
+            .map((violation) => violation.message)
+            .join("; ")}`,
+          false,
+        );
+      }
+
+      receipt = await resolveConnector(draft.platform).publish(session, {
+        draftId: draft.id,
+        text: composePost(draft.caption, draft.hashtags, draft.platform),
+        replies,
+        media: await outgoingMedia(workspaceId, draft, assets),
+        resume: progress,
+      });
+    }
+  } catch (error) {
+    return failure(error);
+  }
+
+  const accepted: Publication = {
+    status: "processing",
+    attempts,
+    lastAttemptAt,
+    externalId: receipt.externalId,
+    url: receipt.url,
+    replyIds: receipt.replyIds,
+  };
+
+  try {
+    const remote = await resolveConnector(draft.platform).fetchStatus(
+      session,
+      receipt.externalId,
+    );
+
+    if (remote.state === "failed") {
+      return failure(
+        new PublishError(
+          remote.error ?? `${draft.platform} rejected the post`,
+          false,
+        ),
+      );
+    }
+
+    const publication: Publication = {
+      ...accepted,
+      status: remote.state,
+      url: remote.url ?? receipt.url,
+    };
+
+    if (remote.state === "published") {
+      return {
+        draftId: draft.id,
+        publication,
+        event: {
+          label: "Published 🎉",
+          details: `${draft.platform} post is live${
+            publication.url ? ` at ${publication.url}` : ""
+          }`,
+          tone: "success",
+        },
+      };
+    }
+
+    return {
+      draftId: draft.id,
+      publication,
+      event:
+        previous?.status === "processing"
+          ? undefined
+          : {
+              label: "Publish Submitted",
+              details: `${draft.platform} accepted the post and is still processing it`,
+              tone: "info",
+            },
+    };
+  } catch (error) {
+    if (error instanceof PublishError && !error.retryable) {
+      return failure(error);
+    }
+    // The post went out; a flaky status check is retried on the next run.
+    return { draftId: draft.id, publication: accepted };
+  }
+}
+
+function applyOutcomes(
+  state: AgentState,
+  outcomes: Outcome[],
+  now: Date,
+): AgentState {
+  const byDraft = new Map(
+    outcomes.map((outcome) => [outcome.draftId, outcome]),
+  );
+  const drafts = new Map(state.drafts.map((draft) => [draft.id, draft]));
+
+  return appendEvents(
+    {
+      ...state,
+      drafts: state.drafts.map((draft) => {
+        const outcome = byDraft.get(draft.id);
+        if (!outcome) return draft;
+
+        return {
+          ...draft,
+          stage:
+            outcome.publication.status === "published" &&
+            draft.stage === "scheduled"
+              ? "published"
+              : draft.stage,
+          publication: outcome.publication,
+        };
+      }),
+    },
+    outcomes.flatMap((outcome) => {
+      const draft = drafts.get(outcome.draftId);
+      return outcome.event && draft
+        ? [{ ...outcome.event, entities: entitiesOf("draft", draft) }]
+        : [];
+    }),
+    now,
+  );
+}
+
+export interface PublishingRun {
+  /** Drafts that were due or still awaiting confirmation. */
+  checked: number;
+  published: number;
+  processing: number;
+  failed: number;
+  /** Workspaces whose drafts changed. */
+  workspaces: number;
+}
+
+async function publishDueDrafts(now: Date): Promise<PublishingRun> {
+  const work: WorkItem[] = [];
+  for (const workspaceId of await listWorkspaceIds()) {
+    const { state } = await readWorkspace(workspaceId);
+    (state?.drafts ?? []).forEach((draft) => {
+      const action = pendingAction(draft, now);
+      if (action) {
+        work.push({
+          workspaceId,
+          draft,
+          assets: state?.assets ?? [],
+          campaign: state?.campaigns.find(
+            (item) => item.id === draft.campaignId,
+          ),
+          action,
+        });
+      }
+    });
+  }
+  const run: PublishingRun = {
+    checked: work.length,
+    published: 0,
+    processing: 0,
+    failed: 0,
+    workspaces: 0,
+  };
+
+  if (!work.length) return run;
+
+  const ledger = await readLedger();
+  const sessions = new Map<Platform, Promise<PublishSession>>();
+  const sessionFor = (platform: Platform) => {
+    if (!sessions.has(platform)) {
+      sessions.set(platform, resolveConnector(platform).authenticate());
+    }
+    return sessions.get(platform) as Promise<PublishSession>;
+  };
+  const outcomes = new Map<string, Outcome[]>();
+
+  for (const item of work) {
+    const { workspaceId, draft } = item;
+    const outcome = await settleDraft(item, ledger, sessionFor, now);
+    outcomes.set(workspaceId, [...(outcomes.get(workspaceId) ?? []), outcome]);
+    run[outcome.publication.status] += 1;
+
+    // Record accepted posts before touching the workspace so a crash or a
+    // failed save can't lead to a second post.
+    if (outcome.publication.externalId) {
+      ledger[draft.id] = outcome.publication;
+    } else {
+      delete ledger[draft.id];
+    }
+    await writeLedger(ledger);
+  }
+
+  // Clients may have saved while the networks were answering; merge into
+  // whatever is current instead of failing on a revision mismatch.
+  for (const [workspaceId, settled] of outcomes) {
+    await updateWorkspace(workspaceId, (current) =>
+      applyOutcomes(current, settled, now),
+    );
+  }
+  return { ...run, workspaces: outcomes.size };
+}
+
+let running: Promise<PublishingRun> | null = null;
+
+/**
+ * Publishes every due `scheduled` draft in every workspace; overlapping calls
+ * share one run.
+ */
+export function runPublishingJob(now = new Date()) {
+  running ??= publishDueDrafts(now).finally(() => {
+    running = null;
+  });
+  return running;
+}
@@ -0,0 +1,36 @@
+import { runEvergreenJob } from "./evergreenJob";
+import { collectConnectorMetrics } from "./metricsJob";
+import { runPublishingJob } from "./publishingJob";
+
+const DEFAULT_INTERVAL_SECONDS = 60;
+
+/**
+ * One pass of every background job: publish due drafts, read metrics, then
+ * queue evergreen re-runs of posts those metrics show doing well.
+ */
+export async function runBackgroundJobs(now = new Date()) {
+  const publishing = await runPublishingJob(now);
+  const metricsCollected = await collectConnectorMetrics(now);
+  const evergreenRecycled = await runEvergreenJob(now);
+  return { ...publishing, metricsCollected, evergreenRecycled };
+}
+
+/**
+ * Runs the jobs every `AGENTIC_PUBLISH_INTERVAL_SECONDS` (default 60, `0`
+ * disables it — e.g. on serverless hosts, which should call
+ * `POST /api/publishing/run` from a cron instead).
+ */
+export function startBackgroundJobs() {
+  const seconds = Number(
+    process.env.AGENTIC_PUBLISH_INTERVAL_SECONDS ?? DEFAULT_INTERVAL_SECONDS,
+  );
+  if (!Number.isFinite(seconds) || seconds <= 0) return null;
+
+  const timer = setInterval(() => {
+    runBackgroundJobs().catch((error) =>
+      console.error("Background jobs failed", error),
+    );
+  }, seconds * 1000);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,159 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { AgentState } from "../types";
+import { migrateAgentState } from "../utils/schema";
+import { blankWorkspaceState, DEFAULT_WORKSPACE_ID } from "../utils/workspaces";
+import { dataDir } from "./dataDir";
+import { appendToEventLog } from "./eventLog";
+
+export interface WorkspaceSnapshot {
+  /** Bumped on every write; clients send it back to detect lost updates. */
+  revision: number;
+  updatedAt: string | null;
+  state: AgentState | null;
+}
+
+export class RevisionConflictError extends Error {
+  constructor(public readonly current: WorkspaceSnapshot) {
+    super(
+      `Workspace is at revision ${current.revision}; refresh before saving`,
+    );
+    this.name = "RevisionConflictError";
+  }
+}
+
+export { dataDir };
+
+/** The default workspace keeps the file name from before workspaces existed. */
+const workspaceFile = (workspaceId: string) =>
+  path.join(
+    dataDir(),
+    workspaceId === DEFAULT_WORKSPACE_ID
+      ? "workspace.json"
+      : `workspace-${workspaceId}.json`,
+  );
+
+const WORKSPACE_FILE = /^workspace(?:-([a-z0-9-]+))?\.json$/;
+
+/** Ids of every workspace that has been saved at least once. */
+export async function listWorkspaceIds(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(dataDir());
+    return files.flatMap((file) => {
+      const match = WORKSPACE_FILE.exec(file);
+      return match ? [match[1] ?? DEFAULT_WORKSPACE_ID] : [];
+    });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+const emptySnapshot: WorkspaceSnapshot = {
+  revision: 0,
+  updatedAt: null,
+  state: null,
+};
+
+// Writes are serialised per process, across all workspaces; the revision
+// check guards across clients.
+let queue: Promise<unknown> = Promise.resolve();
+
+function exclusive<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+export async function readWorkspace(
+  workspaceId: string,
+): Promise<WorkspaceSnapshot> {
+  try {
+    const raw = await fs.readFile(workspaceFile(workspaceId), "utf8");
+    const snapshot = JSON.parse(raw) as WorkspaceSnapshot;
+    // Files keep the shape they were saved in; jobs and routes only ever
+    // see the current one.
+    return snapshot.state
+      ? {
+          ...snapshot,
+          state: migrateAgentState(
+            snapshot.state,
+            blankWorkspaceState(workspaceId),
+            "UTC",
+          ).state,
+        }
+      : snapshot;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return emptySnapshot;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Applies `update` to the stored state if nobody else wrote since
+ * `baseRevision`, otherwise throws `RevisionConflictError`.
+ */
+export function writeWorkspace(
+  workspaceId: string,
+  baseRevision: number,
+  update: (state: AgentState | null) => AgentState,
+): Promise<WorkspaceSnapshot> {
+  return exclusive(async () => {
+    const current = await readWorkspace(workspaceId);
+
+    if (current.revision !== baseRevision) {
+      throw new RevisionConflictError(current);
+    }
+
+    return persist(workspaceId, current, update(current.state));
+  });
+}
+
+/**
+ * Applies `update` to whatever is stored right now. For server-side jobs
+ * that merge their results in rather than replacing a client's copy.
+ */
+export function updateWorkspace(
+  workspaceId: string,
+  update: (state: AgentState) => AgentState,
+): Promise<WorkspaceSnapshot> {
+  return exclusive(async () => {
+    const current = await readWorkspace(workspaceId);
+
+    if (!current.state) {
+      throw new Error(`Workspace ${workspaceId} has not been initialised`);
+    }
+
+    return persist(workspaceId, current, update(current.state));
+  });
+}
+
+async function persist(
+  workspaceId: string,
+  current: WorkspaceSnapshot,
+  state: AgentState,
+) {
+  // The log goes first: a save that fails here is retried with the same
+  // events, which the log then recognises.
+  await appendToEventLog(
+    workspaceId,
+    current.state?.events ?? [],
+    state.events,
+  );
+
+  const next: WorkspaceSnapshot = {
+    revision: current.revision + 1,
+    updatedAt: new Date().toISOString(),
+    state,
+  };
+
+  await fs.mkdir(dataDir(), { recursive: true });
+  const file = workspaceFile(workspaceId);
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(next), "utf8");
+  await fs.rename(temp, file);
+
+  return next;
+}
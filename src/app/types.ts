@@ -8,6 +8,36 @@ export interface BrandProfile {
   hashtags: string[];
   callToAction: string;
   primaryAudience: string;
+  /** Words and phrases captions must never use. */
+  bannedPhrases: string[];
+}
+
+/** Repeats on `weekdays` every `intervalWeeks` weeks, counted from the timeline's first week. */
+export interface RecurrenceRule {
+  intervalWeeks: number;
+  /** 0 = Sunday. */
+  weekdays: number[];
+  /** `HH:mm` on each channel audience's clock. */
+  time: string;
+}
+
+/** A recurring slot such as "Tip Tuesday" that gets a draft per occurrence. */
+export interface ContentSeries {
+  id: string;
+  name: string;
+  platforms: Platform[];
+  rule: RecurrenceRule;
+  /** What every episode is about; it seeds the episode captions. */
+  brief: string;
+}
+
+export interface EvergreenSettings {
+  /** Lets the background jobs recycle due posts without anyone asking. */
+  enabled: boolean;
+  /** Days a post rests after going out before it can run again. */
+  cooldownDays: number;
+  /** Engagement relative to the platform average a post needs, e.g. 1.2. */
+  minLift: number;
 }
 
 export interface Campaign {
@@ -17,12 +47,56 @@ export interface Campaign {
   audience: string;
   offer: string;
   platforms: Platform[];
+  /** Calendar days (`YYYY-MM-DD`) in the campaign's `timezone`. */
   timeline: {
     start: string;
     end: string;
   };
+  /** IANA zone the campaign is planned in, e.g. `Europe/Berlin`. */
+  timezone: string;
+  /** Channels whose audience reads in another zone than the campaign. */
+  audienceTimezones?: Partial<Record<Platform, string>>;
+  /** Drafts need a reviewer's approval before they can be scheduled. */
+  requiresApproval: boolean;
+  /** People who can approve or request changes on the campaign's drafts. */
+  reviewers: string[];
+  series: ContentSeries[];
+  evergreen: EvergreenSettings;
+}
+
+export type ProviderId = "templates" | "openai-compatible";
+
+export interface GenerationSource {
+  provider: ProviderId;
+  model?: string;
+  /** Set when the configured provider failed and templates stepped in. */
+  fallbackFrom?: ProviderId;
+}
+
+export interface IdeaGeneration {
+  seed: string;
+  index: number;
+  batchSize: number;
+  creativeBrief?: string;
+}
+
+export type TemplateSlot = "angle" | "visual" | "hook" | "cta";
+
+export interface TemplatePick {
+  /** The template text; hooks use their pattern label, placeholders visible. */
+  value: string;
+  /** Measured posts from earlier ideas built on the same template. */
+  posts: number;
+  /** Their engagement relative to the platform average; null when untested. */
+  lift: number | null;
+  /** `exploit` had the best record, `explore` was drawn to learn more. */
+  reason: "exploit" | "explore" | "untested";
 }
 
+export type TemplatePicks = Omit<Record<TemplateSlot, TemplatePick>, "cta"> & {
+  cta?: TemplatePick;
+};
+
 export interface ContentIdea {
   id: string;
   campaignId: string;
@@ -34,12 +108,122 @@ export interface ContentIdea {
   recommendedVisual: string;
   suggestedCta: string;
   createdAt: string;
+  generation?: IdeaGeneration;
+  generatedBy?: GenerationSource;
+  /**
+   * Template choices behind a template-generated idea, for attribution. No
+   * `cta` when the idea closes on the brand's own CTA.
+   */
+  templates?: TemplatePicks;
+}
+
+export type PipelineStage =
+  | "ideas"
+  | "drafts"
+  | "in_review"
+  | "scheduled"
+  | "published";
+
+export type MetricSource = "manual" | "csv" | "connector";
+
+export interface MetricSample {
+  /** Lifetime totals as of `capturedAt`, the way networks report them. */
+  capturedAt: string;
+  impressions: number;
+  engagements: number;
+  source: MetricSource;
+}
+
+export interface Publication {
+  /** `processing` means the network accepted the post but hasn't confirmed it. */
+  status: "processing" | "published" | "failed";
+  attempts: number;
+  lastAttemptAt: string;
+  externalId?: string;
+  url?: string;
+  /** A thread's replies that went out, in order; short of its parts if it stopped partway. */
+  replyIds?: string[];
+  /** Why the last attempt failed. */
+  error?: string;
+  /** When the publisher retries a failed post; unset means it waits for a manual retry. */
+  nextAttemptAt?: string;
+}
+
+export interface ReviewComment {
+  id: string;
+  author: string;
+  body: string;
+  createdAt: string;
+  /** The comment this one answers; unset for a new thread. */
+  replyTo?: string;
+}
+
+export interface ReviewDecision {
+  reviewer: string;
+  verdict: "approved" | "changes_requested";
+  decidedAt: string;
+  /** The content decided on; an approval lapses once it's edited. */
+  content?: string;
+}
+
+export interface DraftReview {
+  comments: ReviewComment[];
+  /** Oldest first; the last one is the draft's current sign-off state. */
+  decisions: ReviewDecision[];
 }
 
-export type PipelineStage = "ideas" | "drafts" | "scheduled" | "published";
+export type HashtagSet = "mixed" | "brand" | "platform";
+
+/** How a caption was put together, so its metrics can be credited to the choices. */
+export interface VariantTag {
+  /** `A`, `B`, … in the order the variants were written. */
+  label: string;
+  /** Hook pattern the caption opens with, placeholders visible. */
+  hook: string;
+  cta: string;
+  hashtagSet: HashtagSet;
+  /** Shared by the drafts that post a split test's variants. */
+  testId?: string;
+}
+
+/** An alternative caption for a draft, compared side by side with the others. */
+export interface CaptionVariant extends Omit<VariantTag, "testId"> {
+  id: string;
+  caption: string;
+  hashtags: string[];
+}
+
+export type AssetKind = "image" | "video";
+
+/** A creative in the workspace's library; the file itself is kept server-side. */
+export interface MediaAsset {
+  id: string;
+  /** File name as uploaded. */
+  name: string;
+  kind: AssetKind;
+  mimeType: string;
+  bytes: number;
+  /** Pixels; 0 when the browser couldn't read them. */
+  width: number;
+  height: number;
+  /** Seconds, for videos. */
+  duration?: number;
+  tags: string[];
+  uploadedAt: string;
+}
+
+export type DraftFormat = "thread" | "carousel";
+
+/** One follow-up post of a thread or one slide of a carousel. */
+export interface DraftPart {
+  id: string;
+  text: string;
+  assetBrief: string;
+}
 
 export interface ContentDraft {
   id: string;
+  /** Empty for series episodes, which come from their series instead. */
   ideaId: string;
   campaignId: string;
   platform: Platform;
@@ -48,11 +232,69 @@ export interface ContentDraft {
   assetBrief: string;
   schedule: string;
   stage: PipelineStage;
-  metrics?: {
-    impressions: number;
-    engagements: number;
-  };
+  /** Readings in `capturedAt` order; the last one is the current total. */
+  metrics?: MetricSample[];
   createdAt?: string;
+  generatedBy?: GenerationSource;
+  publication?: Publication;
+  review?: DraftReview;
+  /** The series this draft is an episode of. */
+  seriesId?: string;
+  /** The episode's day (`YYYY-MM-DD`) in the campaign's timezone. */
+  occurrence?: string;
+  /** The original draft when this is an evergreen re-run of it. */
+  recycledFrom?: string;
+  /** Captions waiting to be compared; cleared once a winner is picked or tested. */
+  variants?: CaptionVariant[];
+  /** The variant the caption came from, once one was picked or tested. */
+  variant?: VariantTag;
+  /**
+   * The thread's follow-up posts or the carousel's slides, in order; which
+   * one depends on the platform. The caption stays the lead post or the
+   * carousel's caption. Unset for a single post.
+   */
+  parts?: DraftPart[];
+  /** Library assets the draft posts, in order; one per slide for carousels. */
+  assetIds?: string[];
+}
+
+export type ScoreCriterion =
+  | "hook"
+  | "cta"
+  | "readability"
+  | "hashtags"
+  | "length"
+  | "pillars";
+
+/** Relative importance of each quality criterion; 0 leaves it out. */
+export type ScoreWeights = Record<ScoreCriterion, number>;
+
+export type ChangedCollection =
+  | "brand"
+  | "scoreWeights"
+  | "campaigns"
+  | "ideas"
+  | "drafts"
+  | "assets";
+
+/** One record an event touched, with enough of it to undo the change. */
+export interface StateChange {
+  collection: ChangedCollection;
+  /** Record id; unset for the brand and score weights. */
+  id?: string;
+  kind: "added" | "removed" | "changed";
+  /** Whole records when added or removed, only the changed fields otherwise. */
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  /** Where a removed record sat, so restoring it keeps the order. */
+  index?: number;
+}
+
+export type EntityType = "campaign" | "idea" | "draft";
+
+export interface EntityRef {
+  type: EntityType;
+  id: string;
 }
 
 export interface AgentEvent {
@@ -61,12 +303,30 @@ export interface AgentEvent {
   label: string;
   details: string;
   tone: "info" | "success" | "warning";
+  /** What the event changed; unset for events that changed nothing. */
+  changes?: StateChange[];
+  /** Campaigns, ideas and drafts the event is about. */
+  entities?: EntityRef[];
+  /** Archived events keep which records changed but not the values. */
+  compacted?: boolean;
+}
+
+export interface QuarantinedRecord {
+  collection: "campaigns" | "ideas" | "drafts" | "assets" | "events";
+  reason: string;
+  record: unknown;
+  quarantinedAt: string;
 }
 
 export interface AgentState {
+  schemaVersion: number;
   brand: BrandProfile;
   campaigns: Campaign[];
   ideas: ContentIdea[];
   drafts: ContentDraft[];
+  assets: MediaAsset[];
   events: AgentEvent[];
+  scoreWeights: ScoreWeights;
+  /** Stored records that failed validation, kept for manual recovery. */
+  quarantine: QuarantinedRecord[];
 }
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { BrandProfile } from "../types";
+import { draftsFromIdea, generateIdeas } from "./agent";
+import { blankWorkspaceState } from "./workspaces";
+
+const brand: BrandProfile = {
+  name: "Orbit",
+  mission: "ship calmer launches",
+  tone: "Calm strategist",
+  pillars: ["release hygiene", "async rituals", "launch metrics"],
+  hashtags: ["#orbit", "#shipcalm"],
+  callToAction: "",
+  primaryAudience: "founders",
+  bannedPhrases: [],
+};
+
+// Far enough ahead that every slot is still open whenever the test runs.
+const [campaign] = blankWorkspaceState(
+  "Orbit",
+  new Date("2099-03-02T12:00:00Z"),
+).campaigns;
+
+/** A batch minus what is fresh on every run: ids and creation times. */
+const generate = (seed: string) => {
+  const ideas = generateIdeas(brand, campaign, 4, "spring launch", seed);
+  const drafts = ideas.flatMap((idea) => draftsFromIdea(idea, brand, campaign));
+
+  return {
+    ideas: ideas.map((idea) => ({ ...idea, id: "", createdAt: "" })),
+    drafts: drafts.map((draft) => ({
+      ...draft,
+      id: "",
+      ideaId: "",
+      createdAt: "",
+    })),
+  };
+};
+
+describe("generateIdeas", () => {
+  it("writes the same ideas and drafts from the same inputs and seed", () => {
+    const first = generate("seed-7");
+
+    expect(first.drafts).toHaveLength(8);
+    expect(generate("seed-7")).toEqual(first);
+  });
+
+  it("writes other ideas from another seed", () => {
+    expect(generate("seed-8").ideas).not.toEqual(generate("seed-7").ideas);
+  });
+});
@@ -1,4 +1,19 @@
-import { BrandProfile, Campaign, ContentDraft, ContentIdea, Platform } from "../types";
+import {
+  BrandProfile,
+  Campaign,
+  CaptionVariant,
+  ContentDraft,
+  ContentIdea,
+  DraftPart,
+  HashtagSet,
+  Platform,
+  TemplatePick,
+  TemplateSlot,
+} from "../types";
+import { describePick, pickTemplate, TemplatePerformance } from "./bandit";
+import { applyLineBreakRules, measureCaption, PLATFORM_RULES } from "./platformRules";
+import { createRng, createSeed, randomInt, Rng } from "./random";
+import { placeNewDrafts, withSchedules } from "./scheduler";
 
 const PLATFORM_VOICES: Record<Platform, string> = {
   Instagram: "Storyboard visuals + energetic caption with emojis",
@@ -49,21 +64,82 @@ const HOOK_PATTERNS = [
   "What {industry} leaders know about {topic} that others ignore",
 ];
 
-function getRandom<T>(collection: T[]): T;
-function getRandom<T>(collection: T[], take: number): T[];
-function getRandom<T>(collection: T[], take = 1) {
+const HOOK_MATCHERS = HOOK_PATTERNS.map((pattern) => ({
+  label: pattern.replace("{apostrophe}", "'").replace("{emoji}", "⚡️"),
+  matcher: new RegExp(
+    `^${pattern
+      .replace(/[.*+?^$()|[\]\\]/g, "\\$&")
+      .replace(/\{([^}]+)\}/g, (_, name: string) =>
+        name === "apostrophe" ? "'" : name === "emoji" ? "⚡️" : "[\\s\\S]*?",
+      )}$`,
+  ),
+}));
+
+const HOOK_LABELS = HOOK_MATCHERS.map(({ label }) => label);
+
+export const CUSTOM_HOOK = "Custom hook";
+
+/**
+ * Names the template behind an idea's headline, placeholders left visible.
+ * Provider-written and imported headlines come back as `CUSTOM_HOOK`.
+ */
+export const hookPatternOf = (idea: Pick<ContentIdea, "headline">) =>
+  HOOK_MATCHERS.find(({ matcher }) => matcher.test(idea.headline))?.label ??
+  CUSTOM_HOOK;
+
+/**
+ * Template choices behind an idea, for crediting its posts' performance.
+ * Ideas generated before choices were recorded are matched by their text,
+ * and a post written as a caption variant credits the variant's hook and CTA.
+ */
+export function templateChoicesOf(
+  idea: ContentIdea,
+  draft?: Pick<ContentDraft, "variant">,
+): Partial<Record<TemplateSlot, string>> {
+  const variant = draft?.variant;
+  if (variant) {
+    return {
+      ...templateChoicesOf(idea),
+      hook: HOOK_LABELS.includes(variant.hook) ? variant.hook : undefined,
+      cta: CTA_PATTERNS.includes(variant.cta) ? variant.cta : undefined,
+    };
+  }
+
+  if (idea.templates) {
+    return {
+      angle: idea.templates.angle.value,
+      visual: idea.templates.visual.value,
+      hook: idea.templates.hook.value,
+      cta: idea.templates.cta?.value,
+    };
+  }
+
+  const hook = hookPatternOf(idea);
+  return {
+    angle: ANGLES.includes(idea.angle) ? idea.angle : undefined,
+    visual: VISUAL_TEMPLATES.includes(idea.recommendedVisual)
+      ? idea.recommendedVisual
+      : undefined,
+    hook: hook === CUSTOM_HOOK ? undefined : hook,
+    cta: CTA_PATTERNS.includes(idea.suggestedCta) ? idea.suggestedCta : undefined,
+  };
+}
+
+function getRandom<T>(rng: Rng, collection: T[]): T;
+function getRandom<T>(rng: Rng, collection: T[], take: number): T[];
+function getRandom<T>(rng: Rng, collection: T[], take = 1) {
   const pool = [...collection];
   const picks: T[] = [];
 
   for (let i = 0; i < take && pool.length; i += 1) {
-    const index = Math.floor(Math.random() * pool.length);
+    const index = Math.floor(rng() * pool.length);
     picks.push(pool.splice(index, 1)[0]);
   }
 
   return (take === 1 ? picks[0] : picks) as T | T[];
 }
 
-const slugify = (value: string) =>
+export const slugify = (value: string) =>
   value
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, "-")
@@ -77,37 +153,61 @@ export const createId = () => {
   return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
 };
 
+/** Fills a hook pattern's placeholders for the brand and campaign. */
+function fillHook(
+  rng: Rng,
+  pattern: string,
+  brand: BrandProfile,
+  campaign: Campaign,
+) {
+  return pattern
+    .replace("{apostrophe}", "'")
+    .replace("{emoji}", "⚡️")
+    .replace("{count}", String(randomInt(rng, 3, 5)))
+    .replace("{x}", String(randomInt(rng, 20, 59)))
+    .replace("{resource}", campaign.objective.toLowerCase())
+    .replace("{benefit}", campaign.objective.toLowerCase())
+    .replace("{time}", String(randomInt(rng, 5, 14)))
+    .replace("{outcome}", brand.mission.toLowerCase())
+    .replace("{condition}", campaign.audience.toLowerCase())
+    .replace("{topic}", campaign.objective.toLowerCase())
+    .replace("{metric}", brand.pillars[0]?.toLowerCase() ?? "engagement")
+    .replace("{common pain}", `wasting ${getRandom(rng, ["budget", "headcount", "creative hours"])}`)
+    .replace("{industry}", slugify(brand.name).replace(/-/g, " ").toUpperCase());
+}
+
+/**
+ * Generates a batch of ideas. Templates with measured posts in `performance`
+ * are weighted by how they did; the rest are picked uniformly. The same
+ * brand, campaign, brief, `seed` and performance always yield the same ideas;
+ * only `id` and `createdAt` differ.
+ */
 export function generateIdeas(
   brand: BrandProfile,
   campaign: Campaign,
   total = 4,
   creativeBrief?: string,
+  seed = createSeed(),
+  performance?: TemplatePerformance,
 ): ContentIdea[] {
   const ideas: ContentIdea[] = [];
+  const rng = createRng(seed);
+  const brandCta = brand.callToAction.trim();
+  const pick = (slot: TemplateSlot, options: string[]): TemplatePick =>
+    pickTemplate(rng, options, performance?.[slot]) ??
+    describePick(getRandom(rng, options), options, performance?.[slot]);
 
   for (let index = 0; index < total; index += 1) {
-    const angle = getRandom(ANGLES);
-    const visual = getRandom(VISUAL_TEMPLATES);
-    const hookPattern = getRandom(HOOK_PATTERNS);
-
-    const headline = hookPattern
-      .replace("{apostrophe}", "'")
-      .replace("{emoji}", "⚡️")
-      .replace("{count}", String(Math.floor(Math.random() * 3) + 3))
-      .replace("{x}", String(Math.floor(Math.random() * 40) + 20))
-      .replace("{resource}", campaign.objective.toLowerCase())
-      .replace("{benefit}", campaign.objective.toLowerCase())
-      .replace("{time}", String(Math.floor(Math.random() * 10) + 5))
-      .replace("{outcome}", brand.mission.toLowerCase())
-      .replace("{condition}", campaign.audience.toLowerCase())
-      .replace("{topic}", campaign.objective.toLowerCase())
-      .replace("{metric}", brand.pillars[0]?.toLowerCase() ?? "engagement")
-      .replace("{common pain}", `wasting ${getRandom(["budget", "headcount", "creative hours"])}`)
-      .replace("{industry}", slugify(brand.name).replace(/-/g, " ").toUpperCase());
+    const angle = pick("angle", ANGLES);
+    const visual = pick("visual", VISUAL_TEMPLATES);
+    const hook = pick("hook", HOOK_LABELS);
+    const hookPattern = HOOK_PATTERNS[HOOK_LABELS.indexOf(hook.value)];
+
+    const headline = fillHook(rng, hookPattern, brand, campaign);
 
     const supportingPoints = [
-      `Angle: ${angle}`,
-      `Brand Pillar Tie-in: ${getRandom(brand.pillars)}`,
+      `Angle: ${angle.value}`,
+      `Brand Pillar Tie-in: ${getRandom(rng, brand.pillars) ?? brand.name}`,
       `Audience Tension: ${campaign.audience}`,
       `Proof or stat slot (fill with your recent data)`,
     ];
@@ -116,17 +216,27 @@ export function generateIdeas(
       supportingPoints.splice(1, 0, `Brief integration: ${creativeBrief}`);
     }
 
+    // The brand's own CTA wins; the bandit only picks one for brands without.
+    const cta = brandCta ? undefined : pick("cta", CTA_PATTERNS);
+
     ideas.push({
       id: createId(),
       campaignId: campaign.id,
       headline,
       hook: headline.split(" ").slice(0, 7).join(" "),
-      angle,
+      angle: angle.value,
       formats: campaign.platforms,
       supportingPoints,
-      recommendedVisual: visual,
-      suggestedCta: getRandom(CTA_PATTERNS),
+      recommendedVisual: visual.value,
+      suggestedCta: cta?.value ?? brandCta,
       createdAt: new Date().toISOString(),
+      generation: {
+        seed,
+        index,
+        batchSize: total,
+        creativeBrief,
+      },
+      templates: { angle, visual, hook, cta },
     });
   }
 
@@ -140,16 +250,75 @@ const PLATFORM_HASHTAGS: Record<Platform, string[]> = {
   X: ["#buildinpublic", "#marketingtwitter", "#contentmarketing", "#digitalstrategy"],
 };
 
-function buildHashtags(base: string[], platform: Platform, limit = 5) {
+export const normalizeHashtag = (tag: string) => {
+  const trimmed = tag.trim();
+  return trimmed.startsWith("#") ? trimmed : `#${slugify(trimmed)}`;
+};
+
+export function buildHashtags(
+  base: string[],
+  platform: Platform,
+  limit = Math.min(5, PLATFORM_RULES[platform].maxHashtags),
+) {
   const merged = [...base, ...PLATFORM_HASHTAGS[platform]];
-  const unique = [...new Set(merged.map((tag) => (tag.startsWith("#") ? tag : `#${slugify(tag)}`)))];
+  const unique = [...new Set(merged.map(normalizeHashtag))];
   return unique.slice(0, limit);
 }
 
-function platformCaption(idea: ContentIdea, brand: BrandProfile, platform: Platform): string {
+export const hashtagSets: Record<HashtagSet, string> = {
+  mixed: "Brand + network tags",
+  brand: "Brand tags only",
+  platform: "Network tags only",
+};
+
+/** The tags for one of the hashtag mixes variants are tested with. */
+export function hashtagsFor(
+  set: HashtagSet,
+  brand: BrandProfile,
+  platform: Platform,
+) {
+  switch (set) {
+    case "mixed":
+      return buildHashtags(brand.hashtags, platform);
+    case "brand":
+      // A brand without tags of its own falls back to the full mix.
+      return buildHashtags(
+        brand.hashtags,
+        platform,
+        Math.min(
+          5,
+          brand.hashtags.length || 5,
+          PLATFORM_RULES[platform].maxHashtags,
+        ),
+      );
+    case "platform":
+      return buildHashtags([], platform);
+  }
+}
+
+const truncateCaption = (text: string, budget: number) => {
+  const characters = [...text];
+  if (characters.length <= budget) return text;
+  return `${characters.slice(0, Math.max(0, budget - 1)).join("").trimEnd()}…`;
+};
+
+/**
+ * Builds the caption for a platform, closing on the brand CTA (the idea's
+ * when the brand has none), falling back to a compact variant and finally a
+ * hard truncation so it fits the network limit next to `hashtags`.
+ */
+export function platformCaption(
+  idea: ContentIdea,
+  brand: BrandProfile,
+  platform: Platform,
+  hashtags: string[] = [],
+): string {
   const voice = PLATFORM_VOICES[platform];
   const talkingPoint = idea.supportingPoints[1] ?? idea.angle;
-  const cta = idea.suggestedCta || brand.callToAction;
+  const cta = brand.callToAction.trim() || idea.suggestedCta;
+  const { maxCaptionLength } = PLATFORM_RULES[platform];
+  const fits = (caption: string) =>
+    measureCaption(caption, hashtags, platform) <= maxCaptionLength;
 
   const base = [
     idea.headline,
@@ -159,54 +328,189 @@ function platformCaption(idea: ContentIdea, brand: BrandProfile, platform: Platf
     "",
     `Agent note (${platform}): ${voice}.`,
     `CTA: ${cta}`,
-  ];
-
-  return base.join("\n");
-}
+  ].join("\n");
 
-function scheduleWindow(start: string, index: number) {
-  const startDate = new Date(start);
-  if (Number.isNaN(startDate.getTime())) {
-    return new Date();
+  if (fits(base)) {
+    return applyLineBreakRules(base, platform);
   }
 
-  const scheduled = new Date(startDate);
-  scheduled.setDate(startDate.getDate() + index * 2);
-  const hours = [9, 12, 15, 18][index % 4];
-  scheduled.setHours(hours, 0, 0, 0);
+  const compact = [idea.headline, "", `CTA: ${cta}`].join("\n");
+  if (fits(compact)) {
+    return applyLineBreakRules(compact, platform);
+  }
 
-  return scheduled;
+  const overhead = measureCaption("", hashtags, platform);
+  return truncateCaption(idea.headline, maxCaptionLength - overhead);
 }
 
+const assetBriefFor = (idea: ContentIdea, platform: Platform) =>
+  `${idea.recommendedVisual} — adapt for ${platform}`;
+
 export function draftsFromIdea(
   idea: ContentIdea,
   brand: BrandProfile,
   campaign: Campaign,
-  seedIndex = 0,
+  /** Drafts already on the calendar, from every campaign. */
+  existing: ContentDraft[] = [],
 ): ContentDraft[] {
-  return idea.formats.map((platform, idx) => {
-    const schedule = scheduleWindow(campaign.timeline.start, seedIndex + idx);
+  const drafts: ContentDraft[] = idea.formats.map((platform) => {
+    const hashtags = buildHashtags(brand.hashtags, platform);
     return {
       id: createId(),
       ideaId: idea.id,
       campaignId: campaign.id,
       platform,
-      caption: platformCaption(idea, brand, platform),
-      hashtags: buildHashtags(brand.hashtags, platform),
-      assetBrief: `${idea.recommendedVisual} — adapt for ${platform}`,
-      schedule: schedule.toISOString(),
+      caption: platformCaption(idea, brand, platform, hashtags),
+      hashtags,
+      assetBrief: assetBriefFor(idea, platform),
+      schedule: "",
       stage: "drafts",
       createdAt: new Date().toISOString(),
     };
   });
+
+  return withSchedules(drafts, placeNewDrafts(drafts, campaign, existing));
+}
+
+/**
+ * The draft's caption as variant `A` plus `count - 1` alternatives, each
+ * opening with another hook pattern, closing on another CTA (unless the
+ * brand has its own) and carrying another hashtag mix. The same `seed` always
+ * writes the same variants.
+ */
+export function captionVariants(
+  draft: ContentDraft,
+  idea: ContentIdea,
+  brand: BrandProfile,
+  campaign: Campaign,
+  count = 3,
+  seed = createSeed(),
+): CaptionVariant[] {
+  const rng = createRng(seed);
+  const original: CaptionVariant = {
+    id: createId(),
+    label: "A",
+    caption: draft.caption,
+    hashtags: draft.hashtags,
+    hook: draft.variant?.hook ?? hookPatternOf(idea),
+    cta: draft.variant?.cta ?? idea.suggestedCta,
+    hashtagSet: draft.variant?.hashtagSet ?? "mixed",
+  };
+
+  const others = count - 1;
+  const hooks = getRandom(
+    rng,
+    HOOK_PATTERNS.filter((_, index) => HOOK_LABELS[index] !== original.hook),
+    others,
+  );
+  const ctas = getRandom(
+    rng,
+    CTA_PATTERNS.filter((cta) => cta !== original.cta),
+    others,
+  );
+  const sets = (Object.keys(hashtagSets) as HashtagSet[]).filter(
+    (set) => set !== original.hashtagSet,
+  );
+
+  const variants = hooks.map((pattern, index): CaptionVariant => {
+    const hashtagSet = sets[index % sets.length];
+    const hashtags = hashtagsFor(hashtagSet, brand, draft.platform);
+    const cta = brand.callToAction.trim() || ctas[index % ctas.length];
+    const headline = fillHook(rng, pattern, brand, campaign);
+    return {
+      id: createId(),
+      label: String.fromCharCode(66 + index),
+      caption: platformCaption(
+        { ...idea, headline, suggestedCta: cta },
+        brand,
+        draft.platform,
+        hashtags,
+      ),
+      hashtags,
+      hook: HOOK_LABELS[HOOK_PATTERNS.indexOf(pattern)],
+      cta,
+      hashtagSet,
+    };
+  });
+
+  return [original, ...variants];
+}
+
+/**
+ * Splits an idea into the platform's thread or carousel: a part per
+ * supporting point, closing on the CTA. A carousel opens on a cover slide
+ * and keeps its caption; a thread's caption becomes the headline as the lead
+ * post. Parts past the platform's limit are dropped and long ones cut short.
+ * Nothing on platforms without threads or carousels.
+ */
+export function outlineFromIdea(
+  draft: ContentDraft,
+  idea: ContentIdea,
+  brand: BrandProfile,
+): Partial<ContentDraft> | null {
+  const rules = PLATFORM_RULES[draft.platform].parts;
+  if (!rules) return null;
+
+  const cta = brand.callToAction.trim() || idea.suggestedCta;
+  const points = idea.supportingPoints.slice(
+    0,
+    rules.maxParts - (rules.format === "carousel" ? 2 : 1),
+  );
+  const part = (text: string, assetBrief: string): DraftPart => ({
+    id: createId(),
+    text: truncateCaption(text, rules.maxPartLength),
+    assetBrief,
+  });
+
+  if (rules.format === "carousel") {
+    return {
+      parts: [
+        part(idea.headline, `Cover slide — ${idea.recommendedVisual}`),
+        ...points.map((point) =>
+          part(point, `Large-type slide for "${point}" in brand colours`),
+        ),
+        part(cta, `Closing slide with the ${brand.name} logo and the CTA`),
+      ],
+    };
+  }
+
+  const total = points.length + 2;
+  const lead = `${idea.headline}\n\n🧵 1/${total}`;
+  const { maxCaptionLength } = PLATFORM_RULES[draft.platform];
+  const overhead = measureCaption("", draft.hashtags, draft.platform);
+  return {
+    caption:
+      measureCaption(lead, draft.hashtags, draft.platform) <= maxCaptionLength
+        ? applyLineBreakRules(lead, draft.platform)
+        : truncateCaption(idea.headline, maxCaptionLength - overhead),
+    parts: [
+      ...points.map((point, index) =>
+        part(
+          `${index + 2}/${total} ${point}.`,
+          `Optional image backing up "${point}"`,
+        ),
+      ),
+      part(`${total}/${total} ${cta}`, assetBriefFor(idea, draft.platform)),
+    ],
+  };
 }
 
-export function scoreDraft(draft: ContentDraft) {
-  const base = draft.caption.length;
-  const emojiBonus = (draft.caption.match(/[\u{1F300}-\u{1FAD0}]/gu) ?? []).length * 40;
-  const hashtagBonus = draft.hashtags.length * 25;
-  const ctaBonus = draft.caption.includes("CTA:") ? 60 : 0;
-  const platformWeight = draft.platform === "LinkedIn" ? 1.05 : 1;
+export type RegenerableField = "caption" | "hashtags" | "assetBrief";
 
-  return Math.round((base + emojiBonus + hashtagBonus + ctaBonus) / 10 * platformWeight);
+export function regenerateDraftField(
+  draft: ContentDraft,
+  field: RegenerableField,
+  idea: ContentIdea,
+  brand: BrandProfile,
+): Partial<ContentDraft> {
+  switch (field) {
+    case "caption":
+      return {
+        caption: platformCaption(idea, brand, draft.platform, draft.hashtags),
+      };
+    case "hashtags":
+      return { hashtags: buildHashtags(brand.hashtags, draft.platform) };
+    case "assetBrief":
+      return { assetBrief: assetBriefFor(idea, draft.platform) };
+  }
 }
@@ -0,0 +1,258 @@
+import {
+  Campaign,
+  ContentDraft,
+  ContentIdea,
+  MetricSample,
+  Platform,
+  VariantTag,
+} from "../types";
+import { hookPatternOf, templateChoicesOf } from "./agent";
+import { tallyPerformance, TemplatePerformance } from "./bandit";
+import { audienceTimezone, browserTimezone, zonedTime } from "./timezone";
+
+export const latestSample = (draft: Pick<ContentDraft, "metrics">) =>
+  draft.metrics?.[draft.metrics.length - 1];
+
+export const engagementRate = (impressions: number, engagements: number) =>
+  impressions > 0 ? engagements / impressions : null;
+
+export const formatRate = (rate: number | null) =>
+  rate === null ? "—" : `${(rate * 100).toFixed(rate < 0.1 ? 2 : 1)}%`;
+
+/** Returns an error message, or null when the reading can be stored. */
+export function checkMetricReading(impressions: number, engagements: number) {
+  if (![impressions, engagements].every(Number.isFinite)) {
+    return "Impressions and engagements must be numbers";
+  }
+  if (!Number.isInteger(impressions) || !Number.isInteger(engagements)) {
+    return "Impressions and engagements must be whole numbers";
+  }
+  if (impressions < 0 || engagements < 0) {
+    return "Impressions and engagements can't be negative";
+  }
+  return null;
+}
+
+/**
+ * Adds a reading in time order. A reading from the same source at the same
+ * instant replaces the old one, so re-importing a file doesn't duplicate it.
+ */
+export function withMetricSample(
+  draft: ContentDraft,
+  sample: MetricSample,
+): ContentDraft {
+  const metrics = (draft.metrics ?? []).filter(
+    (existing) =>
+      existing.capturedAt !== sample.capturedAt ||
+      existing.source !== sample.source,
+  );
+  metrics.push(sample);
+  metrics.sort(
+    (a, b) =>
+      new Date(a.capturedAt).getTime() - new Date(b.capturedAt).getTime(),
+  );
+
+  return { ...draft, metrics };
+}
+
+export type AnalyticsDimension = "platform" | "angle" | "hook" | "hour";
+
+export const analyticsDimensions: Record<AnalyticsDimension, string> = {
+  platform: "Platform",
+  angle: "Angle",
+  hook: "Hook pattern",
+  hour: "Posting hour",
+};
+
+export interface EngagementBucket {
+  key: string;
+  label: string;
+  posts: number;
+  impressions: number;
+  engagements: number;
+  /** Engagements over impressions across the bucket, not a mean of rates. */
+  rate: number | null;
+}
+
+function bucketFor(
+  dimension: AnalyticsDimension,
+  draft: ContentDraft,
+  idea: ContentIdea | undefined,
+  campaign: Campaign | undefined,
+) {
+  switch (dimension) {
+    case "platform":
+      return { key: draft.platform, label: draft.platform };
+    case "angle": {
+      const angle = idea?.angle.trim() || "Unknown angle";
+      return { key: angle, label: angle };
+    }
+    case "hook": {
+      // Caption variants can open on another hook than their idea.
+      const pattern =
+        draft.variant?.hook ?? (idea ? hookPatternOf(idea) : "Unknown idea");
+      return { key: pattern, label: pattern };
+    }
+    case "hour": {
+      // On the audience's clock, which is what the hour says something about.
+      const { hour } = zonedTime(
+        new Date(draft.schedule),
+        campaign
+          ? audienceTimezone(campaign, draft.platform)
+          : browserTimezone(),
+      );
+      return {
+        key: String(hour).padStart(2, "0"),
+        label: `${String(hour).padStart(2, "0")}:00`,
+      };
+    }
+  }
+}
+
+/** Totals the latest reading of every measured draft. */
+export function summarizeEngagement(drafts: ContentDraft[]): EngagementBucket {
+  const measured = drafts
+    .map(latestSample)
+    .filter((sample): sample is MetricSample => !!sample);
+  const impressions = measured.reduce((sum, item) => sum + item.impressions, 0);
+  const engagements = measured.reduce((sum, item) => sum + item.engagements, 0);
+
+  return {
+    key: "all",
+    label: "All posts",
+    posts: measured.length,
+    impressions,
+    engagements,
+    rate: engagementRate(impressions, engagements),
+  };
+}
+
+/**
+ * Groups measured drafts by `dimension`. Hours come back in clock order,
+ * everything else best rate first.
+ */
+export function engagementBreakdown(
+  drafts: ContentDraft[],
+  ideas: ContentIdea[],
+  campaigns: Campaign[],
+  dimension: AnalyticsDimension,
+): EngagementBucket[] {
+  const ideasById = new Map(ideas.map((idea) => [idea.id, idea]));
+  const campaignsById = new Map(
+    campaigns.map((campaign) => [campaign.id, campaign]),
+  );
+  const groups = new Map<string, { label: string; drafts: ContentDraft[] }>();
+
+  drafts.forEach((draft) => {
+    if (!latestSample(draft)) return;
+    const { key, label } = bucketFor(
+      dimension,
+      draft,
+      ideasById.get(draft.ideaId),
+      campaignsById.get(draft.campaignId),
+    );
+    const group = groups.get(key) ?? { label, drafts: [] };
+    group.drafts.push(draft);
+    groups.set(key, group);
+  });
+
+  const buckets = [...groups.entries()].map(([key, group]) => ({
+    ...summarizeEngagement(group.drafts),
+    key,
+    label: group.label,
+  }));
+
+  return buckets.sort((a, b) =>
+    dimension === "hour"
+      ? a.key.localeCompare(b.key)
+      : (b.rate ?? -1) - (a.rate ?? -1) || b.impressions - a.impressions,
+  );
+}
+
+/**
+ * Credits each measured post to the templates behind its idea, as its
+ * engagement rate over its platform's average. Only posts on `platforms`
+ * count, so ideas for a LinkedIn campaign learn from LinkedIn posts.
+ */
+export function templatePerformance(
+  ideas: ContentIdea[],
+  drafts: ContentDraft[],
+  platforms: Platform[],
+): TemplatePerformance {
+  const ideasById = new Map(ideas.map((idea) => [idea.id, idea]));
+  const baselines = new Map(
+    platforms.map((platform) => [
+      platform,
+      summarizeEngagement(drafts.filter((draft) => draft.platform === platform))
+        .rate,
+    ]),
+  );
+
+  return tallyPerformance(
+    drafts.flatMap((draft) => {
+      const baseline = baselines.get(draft.platform);
+      const idea = ideasById.get(draft.ideaId);
+      const sample = latestSample(draft);
+      if (!baseline || !idea || !sample) return [];
+
+      const rate = engagementRate(sample.impressions, sample.engagements);
+      return rate === null
+        ? []
+        : [{ choices: templateChoicesOf(idea, draft), lift: rate / baseline }];
+    }),
+  );
+}
+
+export interface SplitTestArm {
+  draft: ContentDraft;
+  variant: VariantTag;
+  impressions: number;
+  rate: number | null;
+}
+
+export interface SplitTestResult {
+  testId: string;
+  platform: Platform;
+  /** In variant order. */
+  arms: SplitTestArm[];
+  /** Label of the best-performing variant, once two or more are measured. */
+  leader?: string;
+}
+
+/** Every split test among `drafts`, each arm with its latest reading. */
+export function splitTestResults(drafts: ContentDraft[]): SplitTestResult[] {
+  const tests = new Map<string, SplitTestArm[]>();
+  drafts.forEach((draft) => {
+    const testId = draft.variant?.testId;
+    if (!draft.variant || !testId) return;
+
+    const sample = latestSample(draft);
+    tests.set(testId, [
+      ...(tests.get(testId) ?? []),
+      {
+        draft,
+        variant: draft.variant,
+        impressions: sample?.impressions ?? 0,
+        rate: sample
+          ? engagementRate(sample.impressions, sample.engagements)
+          : null,
+      },
+    ]);
+  });
+
+  return [...tests.entries()].map(([testId, arms]) => {
+    const measured = arms.filter((arm) => arm.rate !== null);
+    const leader =
+      measured.length > 1
+        ? measured.reduce((best, arm) =>
+            (arm.rate ?? 0) > (best.rate ?? 0) ? arm : best,
+          ).variant.label
+        : undefined;
+    return {
+      testId,
+      platform: arms[0].draft.platform,
+      arms: arms.sort((a, b) => a.variant.label.localeCompare(b.variant.label)),
+      leader,
+    };
+  });
+}
@@ -0,0 +1,138 @@
+import { AssetKind, ContentDraft, MediaAsset } from "../types";
+
+/** Files the library takes, with the extension they're stored under. */
+export const ASSET_TYPES: Record<
+  string,
+  { kind: AssetKind; extension: string }
+> = {
+  "image/jpeg": { kind: "image", extension: "jpg" },
+  "image/png": { kind: "image", extension: "png" },
+  "image/gif": { kind: "image", extension: "gif" },
+  "image/webp": { kind: "image", extension: "webp" },
+  "video/mp4": { kind: "video", extension: "mp4" },
+  "video/quicktime": { kind: "video", extension: "mov" },
+  "video/webm": { kind: "video", extension: "webm" },
+};
+
+export const MAX_ASSET_BYTES = 200 * 1024 * 1024;
+
+export const isAssetId = (value: string) => /^[a-z0-9-]+$/.test(value);
+
+/** Where the browser loads an asset's file from. */
+export const assetUrl = (workspaceId: string, assetId: string) =>
+  `/api/assets/${encodeURIComponent(assetId)}?workspace=${encodeURIComponent(workspaceId)}`;
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+/** Reads an image's size or a video's size and length in the browser. */
+function readMediaInfo(
+  file: File,
+  kind: AssetKind,
+): Promise<Pick<MediaAsset, "width" | "height" | "duration">> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const done = (info: Pick<MediaAsset, "width" | "height" | "duration">) => {
+      URL.revokeObjectURL(url);
+      resolve(info);
+    };
+
+    if (kind === "image") {
+      const image = new window.Image();
+      image.onload = () =>
+        done({ width: image.naturalWidth, height: image.naturalHeight });
+      image.onerror = () => done({ width: 0, height: 0 });
+      image.src = url;
+      return;
+    }
+
+    const video = document.createElement("video");
+    video.preload = "metadata";
+    video.onloadedmetadata = () =>
+      done({
+        width: video.videoWidth,
+        height: video.videoHeight,
+        duration: Number.isFinite(video.duration) ? video.duration : undefined,
+      });
+    video.onerror = () => done({ width: 0, height: 0 });
+    video.src = url;
+  });
+}
+
+/**
+ * Sends a file to the workspace's library on the server and describes it
+ * for the asset record. Throws with the server's reason when it's refused.
+ */
+export async function uploadAsset(
+  workspaceId: string,
+  file: File,
+  now = new Date(),
+): Promise<MediaAsset> {
+  const type = ASSET_TYPES[file.type];
+  if (!type) throw new Error(`${file.type || "unknown type"} isn't supported`);
+
+  const info = await readMediaInfo(file, type.kind);
+  const response = await fetch(
+    `/api/assets?workspace=${encodeURIComponent(workspaceId)}`,
+    { method: "POST", headers: { "Content-Type": file.type }, body: file },
+  );
+  const body = (await response.json().catch(() => ({}))) as {
+    id?: string;
+    error?: string;
+  };
+  if (!response.ok || !body.id) {
+    throw new Error(body.error ?? `Upload failed with HTTP ${response.status}`);
+  }
+
+  return {
+    id: body.id,
+    name: file.name,
+    kind: type.kind,
+    mimeType: file.type,
+    bytes: file.size,
+    ...info,
+    tags: [],
+    uploadedAt: now.toISOString(),
+  };
+}
+
+/** `1080×1350 · 2.4 MB`, `1080×1920 · 0:42 · 18.0 MB`. */
+export function describeAsset({ width, height, duration, bytes }: MediaAsset) {
+  const seconds = Math.round(duration ?? 0);
+  const length =
+    duration === undefined
+      ? ""
+      : `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+  return [
+    width && height ? `${width}×${height}` : "",
+    length,
+    formatBytes(bytes),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/** Every word of `query` appears in the asset's name or tags. */
+export function matchesAssetQuery(asset: MediaAsset, query: string) {
+  const haystack = [asset.name, ...asset.tags].join(" ").toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => haystack.includes(word));
+}
+
+/** Tags as typed: `#launch, Quote card` → `launch`, `quote card`. */
+export const parseTags = (text: string) => [
+  ...new Set(
+    text
+      .split(",")
+      .map((tag) => tag.trim().replace(/^#/, "").toLowerCase())
+      .filter(Boolean),
+  ),
+];
+
+export const draftsUsing = (asset: MediaAsset, drafts: ContentDraft[]) =>
+  drafts.filter((draft) => draft.assetIds?.includes(asset.id));
@@ -0,0 +1,141 @@
+import { TemplatePick, TemplatePicks, TemplateSlot } from "../types";
+import { Rng } from "./random";
+
+export interface ArmStats {
+  posts: number;
+  /** Sum of each post's engagement relative to its platform average. */
+  totalLift: number;
+}
+
+export type TemplatePerformance = Record<
+  TemplateSlot,
+  Record<string, ArmStats>
+>;
+
+export interface TemplateObservation {
+  choices: Partial<Record<TemplateSlot, string>>;
+  lift: number;
+}
+
+export const templateSlots: Record<TemplateSlot, string> = {
+  angle: "Angle",
+  visual: "Visual",
+  hook: "Hook",
+  cta: "CTA",
+};
+
+export function tallyPerformance(
+  observations: TemplateObservation[],
+): TemplatePerformance {
+  const performance: TemplatePerformance = {
+    angle: {},
+    visual: {},
+    hook: {},
+    cta: {},
+  };
+
+  observations.forEach(({ choices, lift }) => {
+    (Object.keys(choices) as TemplateSlot[]).forEach((slot) => {
+      const value = choices[slot];
+      if (!value) return;
+      const arm = performance[slot][value] ?? { posts: 0, totalLift: 0 };
+      performance[slot][value] = {
+        posts: arm.posts + 1,
+        totalLift: arm.totalLift + lift,
+      };
+    });
+  });
+
+  return performance;
+}
+
+/**
+ * Every template starts as if it had `PRIOR_POSTS` posts at exactly the
+ * platform average, so one lucky post can't crown it.
+ */
+const PRIOR_POSTS = 2;
+/** Spread of a template's lift around its mean, in multiples of the average. */
+const LIFT_SPREAD = 0.5;
+
+const expectedLift = (arm?: ArmStats) =>
+  (PRIOR_POSTS + (arm?.totalLift ?? 0)) / (PRIOR_POSTS + (arm?.posts ?? 0));
+
+/** Standard normal draw (Box–Muller), seeded like every other pick. */
+const gaussian = (rng: Rng) =>
+  Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng());
+
+/** Labels `value` against the other `options` without drawing anything. */
+export function describePick(
+  value: string,
+  options: string[],
+  arms: Record<string, ArmStats> = {},
+): TemplatePick {
+  const arm = arms[value];
+  if (!arm?.posts) {
+    return { value, posts: 0, lift: null, reason: "untested" };
+  }
+
+  const best = Math.max(...options.map((option) => expectedLift(arms[option])));
+  return {
+    value,
+    posts: arm.posts,
+    lift: arm.totalLift / arm.posts,
+    reason: expectedLift(arm) >= best ? "exploit" : "explore",
+  };
+}
+
+/**
+ * Thompson sampling: draws a plausible lift for every option from what its
+ * posts have shown so far and keeps the highest. Proven templates win most
+ * draws; thinly measured ones still win sometimes, which is how they get
+ * measured. Returns null when no option has data, so callers can keep
+ * their uniform pick and old seeds still reproduce the same ideas.
+ */
+export function pickTemplate(
+  rng: Rng,
+  options: string[],
+  arms: Record<string, ArmStats> = {},
+): TemplatePick | null {
+  if (!options.some((option) => arms[option]?.posts)) return null;
+
+  let chosen = options[0];
+  let bestDraw = -Infinity;
+  options.forEach((option) => {
+    const arm = arms[option];
+    const draw =
+      expectedLift(arm) +
+      (LIFT_SPREAD / Math.sqrt(PRIOR_POSTS + (arm?.posts ?? 0))) *
+        gaussian(rng);
+    if (draw > bestDraw) {
+      bestDraw = draw;
+      chosen = option;
+    }
+  });
+
+  return describePick(chosen, options, arms);
+}
+
+const formatLift = (lift: number) =>
+  `${lift.toFixed(2).replace(/\.?0+$/, "")}×`;
+
+export function explainPick(pick: TemplatePick) {
+  const posts = `${pick.posts} measured post${pick.posts === 1 ? "" : "s"}`;
+
+  switch (pick.reason) {
+    case "exploit":
+      return `Favoured: ${formatLift(pick.lift ?? 1)} the platform average engagement across ${posts}`;
+    case "explore":
+      return `Exploring: ${formatLift(pick.lift ?? 1)} average across ${posts}, less proven than the leader`;
+    case "untested":
+      return "Untested: no measured posts yet";
+  }
+}
+
+/** One line per slot, e.g. for a tooltip. */
+export const explainPicks = (picks: TemplatePicks) =>
+  (Object.keys(templateSlots) as TemplateSlot[])
+    .flatMap((slot) => {
+      const pick = picks[slot];
+      return pick ? [`${templateSlots[slot]}: ${explainPick(pick)}`] : [];
+    })
+    .join("\n");
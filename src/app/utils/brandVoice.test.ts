@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { BrandProfile } from "../types";
+import { generateIdeas, platformCaption } from "./agent";
+import { lintBrandVoice } from "./brandVoice";
+import { blankWorkspaceState } from "./workspaces";
+
+const brand: BrandProfile = {
+  name: "Orbit",
+  mission: "ship calmer launches",
+  tone: "Calm strategist",
+  pillars: [],
+  hashtags: [],
+  callToAction: "Book an async audit today",
+  primaryAudience: "founders",
+  bannedPhrases: [],
+};
+
+const [campaign] = blankWorkspaceState("Orbit").campaigns;
+
+const ctaIssues = (caption: string, profile = brand) =>
+  lintBrandVoice(
+    { caption, hashtags: [], platform: "LinkedIn" },
+    profile,
+  ).filter((issue) => issue.code === "wrong-cta");
+
+describe("brand CTA", () => {
+  it("closes generated ideas and captions on the brand CTA", () => {
+    const ideas = generateIdeas(brand, campaign, 4, undefined, "seed-7");
+
+    ideas.forEach((idea) => {
+      expect(idea.suggestedCta).toBe(brand.callToAction);
+      expect(idea.templates?.cta).toBeUndefined();
+      expect(ctaIssues(platformCaption(idea, brand, "LinkedIn"))).toEqual([]);
+    });
+  });
+
+  it("lets the template picker choose a CTA for brands without one", () => {
+    const [idea] = generateIdeas(
+      { ...brand, callToAction: "" },
+      campaign,
+      1,
+      undefined,
+      "seed-7",
+    );
+
+    expect(idea.templates?.cta?.value).toBe(idea.suggestedCta);
+    expect(platformCaption(idea, brand, "LinkedIn")).toContain(
+      brand.callToAction,
+    );
+  });
+
+  it("flags any other CTA", () => {
+    expect(ctaIssues("CTA: Save this post for later")).toEqual([
+      {
+        code: "wrong-cta",
+        message:
+          "CTA “Save this post for later” isn't the brand CTA “Book an async audit today”",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,158 @@
+import { BrandProfile, ContentDraft } from "../types";
+import { PLATFORM_RULES } from "./platformRules";
+
+export type VoiceIssueCode =
+  | "missing-pillar"
+  | "banned-phrase"
+  | "off-tone"
+  | "wrong-cta"
+  | "missing-hashtag";
+
+export interface VoiceIssue {
+  code: VoiceIssueCode;
+  message: string;
+}
+
+export const voiceIssueLabels: Record<VoiceIssueCode, string> = {
+  "missing-pillar": "no pillar tie-in",
+  "banned-phrase": "banned phrase",
+  "off-tone": "off tone",
+  "wrong-cta": "wrong CTA",
+  "missing-hashtag": "missing signature hashtag",
+};
+
+type LintedDraft = Pick<ContentDraft, "caption" | "hashtags" | "platform">;
+
+/** Trims suffixes so "creative" also matches "creativity". */
+const stem = (word: string) => (word.length > 5 ? word.slice(0, -2) : word);
+
+/** Pillars the caption mentions, matched on any word of four letters or more. */
+export function pillarsCoveredBy(caption: string, pillars: string[]) {
+  const text = caption.toLowerCase();
+  return pillars.filter((pillar) =>
+    (pillar.toLowerCase().match(/[a-z]{4,}/g) ?? []).some((word) =>
+      text.includes(stem(word)),
+    ),
+  );
+}
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Whole-word, case-insensitive, and tolerant of "-" vs " " in phrases. */
+const phrasePattern = (phrase: string) =>
+  new RegExp(
+    `(^|[^\\p{L}\\p{N}])${escapeRegExp(phrase.trim()).replace(/[\s-]+/g, "[\\s-]+")}(?=$|[^\\p{L}\\p{N}])`,
+    "iu",
+  );
+
+/**
+ * Constructions that clash with a voice. Each applies only when the brand's
+ * `tone` description matches `voice`, so a playful brand can still say "!!".
+ */
+const TONE_RULES: { voice: RegExp; pattern: RegExp; message: string }[] = [
+  {
+    voice: /confident|bold|direct|authoritative|strategist|accountable|clear/i,
+    pattern:
+      /\b(maybe|perhaps|kind of|sort of|i think|we think|might be|hopefully)\b/i,
+    message: "Hedging undercuts a confident voice",
+  },
+  {
+    voice: /professional|strategist|expert|authoritative|calm|premium/i,
+    pattern: /!{2,}|\b[A-Z]{4,}\b(?:\s+\b[A-Z]{4,}\b)+/,
+    message: "Shouting (caps runs or !!) reads off-brand for this voice",
+  },
+  {
+    voice: /friendly|playful|casual|warm|fun|approachable/i,
+    pattern:
+      /\b(utili[sz]e|synerg\w*|stakeholders?|going forward|leverag\w*)\b/i,
+    message: "Corporate jargon sounds stiff in a friendly voice",
+  },
+];
+
+const normalizeTag = (tag: string) =>
+  tag.trim().replace(/^#/, "").toLowerCase();
+
+export function lintBrandVoice(
+  draft: LintedDraft,
+  brand: BrandProfile,
+): VoiceIssue[] {
+  const issues: VoiceIssue[] = [];
+  const text = [draft.caption, ...draft.hashtags].join("\n");
+
+  const pillars = brand.pillars.filter((pillar) => pillar.trim());
+  if (pillars.length && !pillarsCoveredBy(draft.caption, pillars).length) {
+    issues.push({
+      code: "missing-pillar",
+      message: `Doesn't tie back to a pillar (${pillars.join(", ")})`,
+    });
+  }
+
+  brand.bannedPhrases
+    .filter((phrase) => phrase.trim() && phrasePattern(phrase).test(text))
+    .forEach((phrase) =>
+      issues.push({
+        code: "banned-phrase",
+        message: `Uses banned phrase “${phrase.trim()}”`,
+      }),
+    );
+
+  TONE_RULES.filter(
+    (rule) => rule.voice.test(brand.tone) && rule.pattern.test(draft.caption),
+  ).forEach((rule) => {
+    const match = draft.caption.match(rule.pattern)?.[0].trim();
+    issues.push({ code: "off-tone", message: `${rule.message}: “${match}”` });
+  });
+
+  const brandCta = brand.callToAction.trim();
+  if (
+    brandCta &&
+    !draft.caption.toLowerCase().includes(brandCta.toLowerCase())
+  ) {
+    const used = draft.caption.match(/^CTA:\s*(.+)$/im)?.[1].trim();
+    issues.push({
+      code: "wrong-cta",
+      message: used
+        ? `CTA “${used}” isn't the brand CTA “${brandCta}”`
+        : `Missing the brand CTA “${brandCta}”`,
+    });
+  }
+
+  // Only as many signature tags as the network allows are expected.
+  const signature = brand.hashtags
+    .filter((tag) => normalizeTag(tag))
+    .slice(0, PLATFORM_RULES[draft.platform].maxHashtags);
+  const used = new Set(draft.hashtags.map(normalizeTag));
+  const missing = signature.filter((tag) => !used.has(normalizeTag(tag)));
+  if (missing.length) {
+    issues.push({
+      code: "missing-hashtag",
+      message: `Missing signature hashtag${missing.length === 1 ? "" : "s"} ${missing.join(" ")}`,
+    });
+  }
+
+  return issues;
+}
+
+export interface VoiceCompliance {
+  checked: number;
+  compliant: number;
+  /** Drafts with at least one issue of each kind. */
+  byCode: Partial<Record<VoiceIssueCode, number>>;
+}
+
+export function summarizeVoice(issuesByDraft: VoiceIssue[][]): VoiceCompliance {
+  const byCode: Partial<Record<VoiceIssueCode, number>> = {};
+
+  issuesByDraft.forEach((issues) => {
+    new Set(issues.map((issue) => issue.code)).forEach((code) => {
+      byCode[code] = (byCode[code] ?? 0) + 1;
+    });
+  });
+
+  return {
+    checked: issuesByDraft.length,
+    compliant: issuesByDraft.filter((issues) => !issues.length).length,
+    byCode,
+  };
+}
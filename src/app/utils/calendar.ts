@@ -0,0 +1,134 @@
+import { Campaign, ContentDraft, Platform } from "../types";
+import {
+  addDaysToKey,
+  isDayKey,
+  zonedDayKey,
+  zonedTime,
+  zonedToInstant,
+} from "./timezone";
+
+export type CalendarView = "month" | "week" | "day";
+
+/**
+ * Views step through calendar days held as local-midnight `Date`s. Drops are
+ * matched to them by `YYYY-MM-DD` key on the clocks of the zone on display.
+ */
+
+/** Calendar day as `YYYY-MM-DD`, the key every view groups by. */
+export function dayKey(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function startOfDay(date: Date) {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+/** Steps by calendar days, so DST changes don't shift the time of day. */
+export function addDays(date: Date, days: number) {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+/** Weeks start on Monday. */
+export const startOfWeek = (date: Date) =>
+  addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+
+/** The days a view shows around `anchor`; months pad out to whole weeks. */
+export function visibleDays(view: CalendarView, anchor: Date) {
+  if (view === "day") return [startOfDay(anchor)];
+  if (view === "week") {
+    const monday = startOfWeek(anchor);
+    return Array.from({ length: 7 }, (_, index) => addDays(monday, index));
+  }
+
+  const first = new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+  const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+  const days: Date[] = [];
+  for (
+    let day = startOfWeek(first);
+    day <= last || days.length % 7;
+    day = addDays(day, 1)
+  ) {
+    days.push(day);
+  }
+  return days;
+}
+
+/** Moves `anchor` one view-length forwards (`1`) or backwards (`-1`). */
+export function shiftAnchor(view: CalendarView, anchor: Date, step: 1 | -1) {
+  if (view === "day") return addDays(anchor, step);
+  if (view === "week") return addDays(anchor, step * 7);
+  return new Date(anchor.getFullYear(), anchor.getMonth() + step, 1);
+}
+
+/** Drafts grouped by the day they go out in `zone`, earliest first. */
+export function draftsByDay(drafts: ContentDraft[], zone: string) {
+  const byDay = new Map<string, ContentDraft[]>();
+  drafts
+    .filter((draft) => !Number.isNaN(new Date(draft.schedule).getTime()))
+    .sort(
+      (a, b) => new Date(a.schedule).getTime() - new Date(b.schedule).getTime(),
+    )
+    .forEach((draft) => {
+      const key = zonedDayKey(new Date(draft.schedule), zone);
+      byDay.set(key, [...(byDay.get(key) ?? []), draft]);
+    });
+  return byDay;
+}
+
+/**
+ * The drop moved to `day`, keeping its time of day in `zone`, or to `hour`
+ * on that day (keeping its minutes) when dropped onto the day view's grid.
+ */
+export function rescheduleTo(
+  schedule: string,
+  day: Date,
+  zone: string,
+  hour?: number,
+) {
+  const current = new Date(schedule);
+  const time = Number.isNaN(current.getTime())
+    ? { hour: 9, minute: 0 }
+    : zonedTime(current, zone);
+  return zonedToInstant(
+    {
+      year: day.getFullYear(),
+      month: day.getMonth() + 1,
+      day: day.getDate(),
+      hour: hour ?? time.hour,
+      minute: time.minute,
+    },
+    zone,
+  ).toISOString();
+}
+
+/**
+ * Days inside the campaign's timeline without a single `platform` drop from
+ * that campaign.
+ */
+export function coverageGaps(
+  campaign: Campaign,
+  drafts: ContentDraft[],
+  platform: Platform,
+) {
+  const { start, end } = campaign.timeline;
+  const gaps = new Set<string>();
+  if (!isDayKey(start) || !isDayKey(end)) return gaps;
+
+  const covered = draftsByDay(
+    drafts.filter(
+      (draft) =>
+        draft.campaignId === campaign.id && draft.platform === platform,
+    ),
+    campaign.timezone,
+  );
+  for (let key = start; key <= end; key = addDaysToKey(key, 1)) {
+    if (!covered.has(key)) gaps.add(key);
+  }
+  return gaps;
+}
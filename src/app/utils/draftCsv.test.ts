@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { Campaign, ContentDraft } from "../types";
+import { parseCsv } from "./csv";
+import {
+  exportDraftsCsv,
+  importDraftsCsv,
+  parseScheduleCell,
+} from "./draftCsv";
+import { audienceTimezone } from "./timezone";
+
+const campaign: Campaign = {
+  id: "c1",
+  title: "Launch",
+  objective: "",
+  audience: "",
+  offer: "",
+  platforms: ["LinkedIn", "X"],
+  timeline: { start: "2026-03-01", end: "2026-03-31" },
+  timezone: "Asia/Tokyo",
+  audienceTimezones: { X: "America/New_York" },
+  requiresApproval: false,
+  reviewers: [],
+  series: [],
+  evergreen: { enabled: false, cooldownDays: 30, minLift: 1.2 },
+};
+
+const draft = (
+  platform: ContentDraft["platform"],
+  schedule: string,
+): ContentDraft => ({
+  id: `${platform}-draft`,
+  ideaId: "i1",
+  campaignId: campaign.id,
+  platform,
+  caption: `Launch day on ${platform}`,
+  hashtags: [],
+  assetBrief: "",
+  schedule,
+  stage: "drafts",
+  createdAt: "2026-03-01T00:00:00.000Z",
+});
+
+const drafts = [
+  draft("LinkedIn", "2026-03-10T00:00:00.000Z"),
+  draft("X", "2026-03-10T13:00:00.000Z"),
+];
+
+describe("draft CSV times", () => {
+  it("writes each row on its network's audience clock", () => {
+    expect(exportDraftsCsv(drafts, [], campaign, "buffer")).toContain(
+      "2026-03-10 09:00",
+    );
+    expect(exportDraftsCsv(drafts, [], campaign, "hootsuite")).toContain(
+      "10/03/2026 09:00",
+    );
+  });
+
+  it.each([
+    ["buffer", 3],
+    ["hootsuite", 0],
+  ] as const)(
+    "reads a %s export back to the same instants",
+    (layout, column) => {
+      const rows = parseCsv(exportDraftsCsv(drafts, [], campaign, layout));
+      const cells = (layout === "buffer" ? rows.slice(1) : rows).map(
+        (row) => row[column],
+      );
+
+      expect(
+        cells.map((cell, index) =>
+          parseScheduleCell(
+            cell,
+            audienceTimezone(campaign, drafts[index].platform),
+          )?.toISOString(),
+        ),
+      ).toEqual(drafts.map((item) => item.schedule));
+    },
+  );
+
+  it("imports local times on the row's audience clock", () => {
+    const result = importDraftsCsv(
+      [
+        "Platform,Caption,Schedule",
+        "X,Launch day,2026-03-10 09:00",
+        "LinkedIn,Launch day,10/03/2026 09:00",
+      ].join("\n"),
+      campaign,
+      [],
+    );
+
+    expect(result.issues).toEqual([]);
+    expect(result.drafts.map((item) => item.schedule)).toEqual([
+      "2026-03-10T13:00:00.000Z",
+      "2026-03-10T00:00:00.000Z",
+    ]);
+  });
+
+  it("reads local cells in the given zone and keeps ISO instants as they are", () => {
+    expect(
+      parseScheduleCell("2026-03-08 02:30", "America/New_York")?.toISOString(),
+    ).toBe("2026-03-08T07:30:00.000Z");
+    expect(
+      parseScheduleCell("2026-03-08T02:30:00Z", "Asia/Tokyo")?.toISOString(),
+    ).toBe("2026-03-08T02:30:00.000Z");
+    expect(parseScheduleCell("31/02/2026 09:00", "UTC")).toBeNull();
+  });
+});
@@ -0,0 +1,396 @@
+import {
+  Campaign,
+  ContentDraft,
+  ContentIdea,
+  PipelineStage,
+  Platform,
+} from "../types";
+import { createId, normalizeHashtag } from "./agent";
+import { parseCsv, toCsv } from "./csv";
+import { isCompliant, validateDraft, validateMedia } from "./platformRules";
+import { audienceTimezone, toZonedInput, zonedToInstant } from "./timezone";
+
+export type CsvLayout = "orbit" | "buffer" | "hootsuite";
+
+interface LayoutSpec {
+  label: string;
+  header: string[] | null;
+  /** `zone` is the clock the draft's audience reads. */
+  row: (
+    draft: ContentDraft,
+    idea: ContentIdea | undefined,
+    zone: string,
+  ) => string[];
+}
+
+/** `YYYY-MM-DD HH:mm` on the clocks in `zone`, as Buffer expects. */
+const toIsoMinute = (value: string, zone: string) =>
+  toZonedInput(value, zone).replace("T", " ");
+
+/** `DD/MM/YYYY HH:mm` on the clocks in `zone`, as Hootsuite expects. */
+const toDayFirst = (value: string, zone: string) => {
+  const [day, time] = toZonedInput(value, zone).split("T");
+  return `${day.split("-").reverse().join("/")} ${time}`;
+};
+
+const withHashtags = (draft: ContentDraft) =>
+  draft.hashtags.length
+    ? `${draft.caption}\n\n${draft.hashtags.join(" ")}`
+    : draft.caption;
+
+export const csvLayouts: Record<CsvLayout, LayoutSpec> = {
+  orbit: {
+    label: "Orbit (full)",
+    header: [
+      "Platform",
+      "Caption",
+      "Hashtags",
+      "Schedule",
+      "Stage",
+      "Asset Brief",
+      "Idea Headline",
+    ],
+    row: (draft, idea) => [
+      draft.platform,
+      draft.caption,
+      draft.hashtags.join(" "),
+      draft.schedule,
+      draft.stage,
+      draft.assetBrief,
+      idea?.headline ?? "",
+    ],
+  },
+  buffer: {
+    label: "Buffer",
+    header: ["Text", "Image URL", "Tags", "Posting Time"],
+    row: (draft, _idea, zone) => [
+      withHashtags(draft),
+      "",
+      draft.platform,
+      toIsoMinute(draft.schedule, zone),
+    ],
+  },
+  hootsuite: {
+    label: "Hootsuite",
+    // Hootsuite's bulk composer expects no header row.
+    header: null,
+    row: (draft, _idea, zone) => [
+      toDayFirst(draft.schedule, zone),
+      withHashtags(draft),
+      "",
+    ],
+  },
+};
+
+/** Local times are written on each platform's audience clock in `campaign`. */
+export function exportDraftsCsv(
+  drafts: ContentDraft[],
+  ideas: ContentIdea[],
+  campaign: Campaign,
+  layout: CsvLayout,
+) {
+  const spec = csvLayouts[layout];
+  const rows = drafts
+    .filter((draft) => !Number.isNaN(new Date(draft.schedule).getTime()))
+    .sort(
+      (a, b) => new Date(a.schedule).getTime() - new Date(b.schedule).getTime(),
+    )
+    .map((draft) =>
+      spec.row(
+        draft,
+        ideas.find((idea) => idea.id === draft.ideaId),
+        audienceTimezone(campaign, draft.platform),
+      ),
+    );
+
+  return toCsv(spec.header ? [spec.header, ...rows] : rows);
+}
+
+type ImportColumn =
+  | "platform"
+  | "caption"
+  | "hashtags"
+  | "schedule"
+  | "stage"
+  | "assetBrief"
+  | "ideaHeadline";
+
+const COLUMN_ALIASES: Record<ImportColumn, string[]> = {
+  platform: ["platform", "network", "channel"],
+  caption: ["caption", "text", "message", "post", "content"],
+  hashtags: ["hashtags", "hashtag"],
+  schedule: ["schedule", "posting time", "date", "publish date", "scheduled at"],
+  stage: ["stage", "status"],
+  assetBrief: ["asset brief", "asset", "visual"],
+  ideaHeadline: ["idea headline", "idea", "headline"],
+};
+
+const PLATFORM_ALIASES: Record<string, Platform> = {
+  instagram: "Instagram",
+  linkedin: "LinkedIn",
+  tiktok: "TikTok",
+  x: "X",
+  twitter: "X",
+};
+
+const STAGES: PipelineStage[] = [
+  "drafts",
+  "in_review",
+  "scheduled",
+  "published",
+];
+
+/**
+ * Accepts ISO instants plus the local formats the exports above produce,
+ * read on the clocks in `zone`.
+ */
+export function parseScheduleCell(value: string, zone: string): Date | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const local = (
+    year: number,
+    month: number,
+    day: number,
+    hour: number,
+    minute: number,
+  ) => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year &&
+      date.getUTCMonth() === month - 1 &&
+      date.getUTCDate() === day &&
+      hour < 24 &&
+      minute < 60
+      ? zonedToInstant({ year, month, day, hour, minute }, zone)
+      : null;
+  };
+
+  const isoLocal = trimmed.match(
+    /^(\d{4})-(\d{2})-(\d{2})[ T](\d{1,2}):(\d{2})$/,
+  );
+  if (isoLocal) {
+    const [, year, month, day, hour, minute] = isoLocal.map(Number);
+    return local(year, month, day, hour, minute);
+  }
+
+  const dayFirst = trimmed.match(
+    /^(\d{1,2})\/(\d{1,2})\/(\d{4}) (\d{1,2}):(\d{2})$/,
+  );
+  if (dayFirst) {
+    const [, day, month, year, hour, minute] = dayFirst.map(Number);
+    return local(year, month, day, hour, minute);
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed)) {
+    const date = new Date(trimmed);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+
+  return null;
+}
+
+export interface CsvRowIssue {
+  /** 1-based record number, counting the header row. */
+  row: number;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface CsvImportResult {
+  drafts: ContentDraft[];
+  ideas: ContentIdea[];
+  issues: CsvRowIssue[];
+  totalRows: number;
+}
+
+/**
+ * Turns a CSV with a recognisable header into drafts for `campaign`. Bad
+ * rows are reported individually and skipped; the rest still import.
+ */
+export function importDraftsCsv(
+  text: string,
+  campaign: Campaign,
+  existingIdeas: ContentIdea[],
+): CsvImportResult {
+  const [header, ...rows] = parseCsv(text);
+  const result: CsvImportResult = {
+    drafts: [],
+    ideas: [],
+    issues: [],
+    totalRows: rows.length,
+  };
+
+  if (!header) {
+    result.issues.push({ row: 1, severity: "error", message: "File is empty" });
+    return result;
+  }
+
+  const columns = new Map<ImportColumn, number>();
+  header.forEach((cell, index) => {
+    const name = cell.trim().toLowerCase();
+    (Object.keys(COLUMN_ALIASES) as ImportColumn[]).forEach((column) => {
+      if (!columns.has(column) && COLUMN_ALIASES[column].includes(name)) {
+        columns.set(column, index);
+      }
+    });
+  });
+
+  const missing = (["platform", "caption", "schedule"] as ImportColumn[]).filter(
+    (column) => !columns.has(column),
+  );
+  if (missing.length) {
+    result.issues.push({
+      row: 1,
+      severity: "error",
+      message: `Header row is missing ${missing.join(", ")} columns`,
+    });
+    result.totalRows = 0;
+    return result;
+  }
+
+  const ideasByHeadline = new Map(
+    existingIdeas
+      .filter((idea) => idea.campaignId === campaign.id)
+      .map((idea) => [idea.headline.trim().toLowerCase(), idea]),
+  );
+  const now = new Date().toISOString();
+
+  rows.forEach((cells, index) => {
+    const line = index + 2;
+    const cell = (column: ImportColumn) => {
+      const position = columns.get(column);
+      return position === undefined ? "" : (cells[position] ?? "").trim();
+    };
+    const errors: string[] = [];
+
+    const platformCell = cell("platform");
+    const platform = PLATFORM_ALIASES[platformCell.toLowerCase()];
+    if (!platform) {
+      errors.push(
+        platformCell
+          ? `Unknown platform “${platformCell}”`
+          : "Missing platform",
+      );
+    }
+
+    const caption = cell("caption");
+    if (!caption) errors.push("Missing caption");
+
+    // Local times are on the audience's clock, as the export writes them.
+    const scheduleCell = cell("schedule");
+    const schedule = parseScheduleCell(
+      scheduleCell,
+      platform ? audienceTimezone(campaign, platform) : campaign.timezone,
+    );
+    if (!schedule) {
+      errors.push(
+        scheduleCell ? `Bad date “${scheduleCell}”` : "Missing schedule",
+      );
+    }
+
+    const stageCell = cell("stage").toLowerCase();
+    let stage: PipelineStage = "drafts";
+    if (stageCell) {
+      if (STAGES.includes(stageCell as PipelineStage)) {
+        stage = stageCell as PipelineStage;
+      } else {
+        result.issues.push({
+          row: line,
+          severity: "warning",
+          message: `Unknown stage “${cell("stage")}”, imported as drafts`,
+        });
+      }
+    }
+
+    if (errors.length || !platform || !schedule) {
+      errors.forEach((message) =>
+        result.issues.push({ row: line, severity: "error", message }),
+      );
+      return;
+    }
+
+    const hashtags = [
+      ...new Set(
+        cell("hashtags")
+          .split(/[\s,]+/)
+          .filter((tag) => tag && tag !== "#")
+          .map(normalizeHashtag),
+      ),
+    ];
+
+    if (
+      stage !== "drafts" &&
+      !isCompliant(validateDraft({ caption, hashtags, platform }))
+    ) {
+      stage = "drafts";
+      result.issues.push({
+        row: line,
+        severity: "warning",
+        message: `Breaks ${platform} rules, imported as drafts`,
+      });
+    }
+
+    // Rows bring no files, so one whose post needs an asset can't be scheduled.
+    if (
+      stage === "scheduled" &&
+      !isCompliant(
+        validateMedia({ platform, assetBrief: cell("assetBrief") }, []),
+      )
+    ) {
+      stage = "drafts";
+      result.issues.push({
+        row: line,
+        severity: "warning",
+        message: "Needs an asset from the library, imported as drafts",
+      });
+    }
+
+    // Rows can't skip sign-off: they wait in review like any other draft.
+    if (stage === "scheduled" && campaign.requiresApproval) {
+      stage = "in_review";
+      result.issues.push({
+        row: line,
+        severity: "warning",
+        message: `${campaign.title} requires approval, imported for review`,
+      });
+    }
+
+    const headline = cell("ideaHeadline") || caption.split("\n")[0];
+    const key = headline.toLowerCase();
+    let idea = ideasByHeadline.get(key);
+
+    if (!idea) {
+      idea = {
+        id: createId(),
+        campaignId: campaign.id,
+        headline,
+        hook: headline.split(" ").slice(0, 7).join(" "),
+        angle: "Imported from CSV",
+        formats: [platform],
+        supportingPoints: [],
+        recommendedVisual: "",
+        suggestedCta: "",
+        createdAt: now,
+      };
+      ideasByHeadline.set(key, idea);
+      result.ideas.push(idea);
+    } else if (!idea.formats.includes(platform) && result.ideas.includes(idea)) {
+      idea.formats = [...idea.formats, platform];
+    }
+
+    result.drafts.push({
+      id: createId(),
+      ideaId: idea.id,
+      campaignId: campaign.id,
+      platform,
+      caption,
+      hashtags,
+      assetBrief: cell("assetBrief"),
+      schedule: schedule.toISOString(),
+      stage,
+      createdAt: now,
+    });
+  });
+
+  return result;
+}
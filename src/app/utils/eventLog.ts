@@ -0,0 +1,142 @@
+import {
+  AgentEvent,
+  AgentState,
+  EntityRef,
+  EntityType,
+  StateChange,
+} from "../types";
+
+/**
+ * Events the working state keeps for undo, offline use and new tabs. The
+ * complete log lives server-side (`server/eventLog.ts`) and is never capped.
+ */
+export const RECENT_EVENT_LIMIT = 200;
+
+const ENTITY_TYPES: Partial<Record<StateChange["collection"], EntityType>> = {
+  campaigns: "campaign",
+  ideas: "idea",
+  drafts: "draft",
+};
+
+const TONES: AgentEvent["tone"][] = ["info", "success", "warning"];
+
+export const uniqueEntities = (refs: EntityRef[]) => [
+  ...new Map(refs.map((ref) => [`${ref.type}:${ref.id}`, ref])).values(),
+];
+
+/** A draft or idea together with the campaign it belongs to. */
+export const entitiesOf = (
+  type: Exclude<EntityType, "campaign">,
+  record: { id: string; campaignId: string },
+): EntityRef[] => [
+  { type, id: record.id },
+  { type: "campaign", id: record.campaignId },
+];
+
+/**
+ * Links an event to every record its changes touched, plus the campaign of
+ * each idea and draft so filtering by campaign finds them too.
+ */
+export function entitiesFromChanges(
+  changes: StateChange[],
+  state: AgentState,
+): EntityRef[] {
+  const refs: EntityRef[] = [];
+  const add = (type: EntityType, id: string) => refs.push({ type, id });
+
+  changes.forEach((change) => {
+    const type = ENTITY_TYPES[change.collection];
+    if (!type || !change.id) return;
+    add(type, change.id);
+    if (type === "campaign") return;
+
+    const records: { id: string; campaignId: string }[] =
+      type === "idea" ? state.ideas : state.drafts;
+    const campaignId = [
+      change.after?.campaignId,
+      change.before?.campaignId,
+      records.find((record) => record.id === change.id)?.campaignId,
+    ].find((value): value is string => typeof value === "string");
+    if (campaignId) add("campaign", campaignId);
+  });
+
+  return uniqueEntities(refs);
+}
+
+export interface EventFilter {
+  tones?: AgentEvent["tone"][];
+  /** Only events linked to this campaign, idea or draft. */
+  entityId?: string;
+  /** Inclusive ISO instants. */
+  from?: string;
+  to?: string;
+  /** Every word must appear in the label or details. */
+  query?: string;
+}
+
+export function matchesEventFilter(event: AgentEvent, filter: EventFilter) {
+  if (filter.tones?.length && !filter.tones.includes(event.tone)) {
+    return false;
+  }
+  if (
+    filter.entityId &&
+    !event.entities?.some((ref) => ref.id === filter.entityId)
+  ) {
+    return false;
+  }
+
+  const time = new Date(event.timestamp).getTime();
+  if (filter.from && time < new Date(filter.from).getTime()) return false;
+  if (filter.to && time > new Date(filter.to).getTime()) return false;
+
+  const text = `${event.label}\n${event.details}`.toLowerCase();
+  return (filter.query ?? "")
+    .toLowerCase()
+    .split(/\s+/)
+    .every((term) => text.includes(term));
+}
+
+export function eventFilterParams(filter: EventFilter) {
+  const params = new URLSearchParams();
+  if (filter.tones?.length) params.set("tone", filter.tones.join(","));
+  if (filter.entityId) params.set("entity", filter.entityId);
+  if (filter.from) params.set("from", filter.from);
+  if (filter.to) params.set("to", filter.to);
+  if (filter.query?.trim()) params.set("q", filter.query.trim());
+  return params;
+}
+
+export function readEventFilter(params: URLSearchParams): EventFilter {
+  const isDate = (value: string | null): value is string =>
+    !!value && !Number.isNaN(new Date(value).getTime());
+  const from = params.get("from");
+  const to = params.get("to");
+
+  return {
+    tones: (params.get("tone") ?? "")
+      .split(",")
+      .filter((tone): tone is AgentEvent["tone"] =>
+        TONES.includes(tone as AgentEvent["tone"]),
+      ),
+    entityId: params.get("entity") ?? undefined,
+    from: isDate(from) ? from : undefined,
+    to: isDate(to) ? to : undefined,
+    query: params.get("q") ?? undefined,
+  };
+}
+
+/** Newest first, with duplicates (same id) collapsed to the last copy seen. */
+export function mergeEvents(...lists: AgentEvent[][]) {
+  const byId = new Map<string, AgentEvent>();
+  lists.flat().forEach((event) => byId.set(event.id, event));
+  return [...byId.values()].sort(
+    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
+  );
+}
+
+/** One JSON object per line, oldest first, for audit tooling. */
+export const toJsonLines = (events: AgentEvent[]) =>
+  [...events]
+    .reverse()
+    .map((event) => `${JSON.stringify(event)}\n`)
+    .join("");
@@ -0,0 +1,169 @@
+import {
+  Campaign,
+  ContentDraft,
+  EvergreenSettings,
+  MediaAsset,
+} from "../types";
+import { createId } from "./agent";
+import { engagementRate, latestSample, summarizeEngagement } from "./analytics";
+import {
+  isCompliant,
+  measureCaption,
+  PLATFORM_RULES,
+  validateDraft,
+  validateMedia,
+} from "./platformRules";
+import { isReschedulable, placeNewDrafts } from "./scheduler";
+
+export const DEFAULT_EVERGREEN: EvergreenSettings = {
+  enabled: false,
+  cooldownDays: 30,
+  minLift: 1.2,
+};
+
+const DAY = 86_400_000;
+
+/** Rotated through on each re-run so a post never goes out twice the same. */
+const RERUN_PREFIXES = [
+  "In case you missed it:",
+  "Worth another look:",
+  "Back by popular demand:",
+  "Still one of our favourites:",
+];
+
+export interface EvergreenCandidate {
+  /** The post the re-run is copied from: the original or its latest re-run. */
+  source: ContentDraft;
+  /** The original post every re-run points back to. */
+  originalId: string;
+  /** The source's engagement relative to its platform's average. */
+  lift: number;
+  /** When the cooldown since the last run ends. */
+  dueAt: string;
+  /** Re-runs so far. */
+  reruns: number;
+}
+
+const time = (draft: ContentDraft) => new Date(draft.schedule).getTime();
+
+/**
+ * The campaign's live posts that beat their platform's average engagement
+ * by `minLift`, one entry per original post, soonest due first. Posts with a
+ * re-run still waiting to go out are left out.
+ */
+export function evergreenQueue(
+  campaign: Campaign,
+  drafts: ContentDraft[],
+): EvergreenCandidate[] {
+  const { cooldownDays, minLift } = campaign.evergreen;
+  const baselines = new Map(
+    [...new Set(drafts.map((draft) => draft.platform))].map((platform) => [
+      platform,
+      summarizeEngagement(drafts.filter((draft) => draft.platform === platform))
+        .rate,
+    ]),
+  );
+
+  const runs = new Map<string, ContentDraft[]>();
+  drafts
+    .filter((draft) => draft.campaignId === campaign.id)
+    .forEach((draft) => {
+      const originalId = draft.recycledFrom ?? draft.id;
+      runs.set(originalId, [...(runs.get(originalId) ?? []), draft]);
+    });
+
+  const candidates: EvergreenCandidate[] = [];
+  runs.forEach((group, originalId) => {
+    if (group.some(isReschedulable)) return;
+
+    const measured = group
+      .filter((draft) => draft.stage === "published" && latestSample(draft))
+      .sort((a, b) => time(a) - time(b));
+    const source = measured.at(-1);
+    const sample = source && latestSample(source);
+    const baseline = source && baselines.get(source.platform);
+    const rate =
+      sample && engagementRate(sample.impressions, sample.engagements);
+    if (!source || !baseline || rate === null || rate === undefined) return;
+
+    const lift = rate / baseline;
+    if (lift < minLift) return;
+
+    const lastRun = Math.max(...group.map(time).filter(Number.isFinite));
+    candidates.push({
+      source,
+      originalId,
+      lift,
+      dueAt: new Date(lastRun + cooldownDays * DAY).toISOString(),
+      reruns: group.length - 1,
+    });
+  });
+
+  return candidates.sort(
+    (a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime(),
+  );
+}
+
+export const isDue = (candidate: EvergreenCandidate, now = new Date()) =>
+  new Date(candidate.dueAt) <= now;
+
+/**
+ * Opens the caption with the next re-run line, replacing an earlier one.
+ * Captions the line would push over the platform limit are kept as they are.
+ */
+export function varyCaption(
+  draft: Pick<ContentDraft, "caption" | "hashtags" | "platform">,
+  rerun: number,
+) {
+  const used = RERUN_PREFIXES.find((prefix) =>
+    draft.caption.startsWith(`${prefix} `),
+  );
+  const base = used ? draft.caption.slice(used.length + 1) : draft.caption;
+  const varied = `${RERUN_PREFIXES[rerun % RERUN_PREFIXES.length]} ${base}`;
+  return measureCaption(varied, draft.hashtags, draft.platform) <=
+    PLATFORM_RULES[draft.platform].maxCaptionLength
+    ? varied
+    : draft.caption;
+}
+
+/**
+ * Copies each candidate into a fresh post in the campaign's next open slots,
+ * posting the same parts and assets. Re-runs skip straight to scheduled
+ * unless the campaign wants a reviewer's approval, the copy breaks a platform
+ * rule or its assets are no longer in `assets`.
+ */
+export function recycleDrafts(
+  candidates: EvergreenCandidate[],
+  campaign: Campaign,
+  drafts: ContentDraft[],
+  assets: MediaAsset[],
+  now = new Date(),
+): ContentDraft[] {
+  const copies = candidates.map(({ source, originalId, reruns }) => {
+    const copy: ContentDraft = {
+      id: createId(),
+      ideaId: source.ideaId,
+      campaignId: campaign.id,
+      platform: source.platform,
+      caption: varyCaption(source, reruns),
+      hashtags: source.hashtags,
+      assetBrief: source.assetBrief,
+      schedule: "",
+      stage: "drafts",
+      createdAt: now.toISOString(),
+      generatedBy: source.generatedBy,
+      recycledFrom: originalId,
+      parts: source.parts,
+      assetIds: source.assetIds,
+    };
+    const stage: ContentDraft["stage"] = campaign.requiresApproval
+      ? "in_review"
+      : isCompliant([...validateDraft(copy), ...validateMedia(copy, assets)])
+        ? "scheduled"
+        : "drafts";
+    return { ...copy, stage };
+  });
+
+  const { schedules } = placeNewDrafts(copies, campaign, drafts, now);
+  return copies.map((copy) => ({ ...copy, schedule: schedules[copy.id] }));
+}
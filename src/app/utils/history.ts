@@ -0,0 +1,242 @@
+import { AgentState, ChangedCollection, StateChange } from "../types";
+
+type RecordCollection = Extract<
+  ChangedCollection,
+  "campaigns" | "ideas" | "drafts" | "assets"
+>;
+type SingletonCollection = Extract<ChangedCollection, "brand" | "scoreWeights">;
+type Fields = Record<string, unknown>;
+
+const RECORD_COLLECTIONS: RecordCollection[] = [
+  "campaigns",
+  "ideas",
+  "drafts",
+  "assets",
+];
+const SINGLETONS: SingletonCollection[] = ["brand", "scoreWeights"];
+
+const collectionLabels: Record<ChangedCollection, string> = {
+  brand: "Brand",
+  scoreWeights: "Score weights",
+  campaigns: "Campaign",
+  ideas: "Idea",
+  drafts: "Draft",
+  assets: "Asset",
+};
+
+/** Stored state is plain JSON, so JSON equality is value equality. */
+const same = (a: unknown, b: unknown) =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+function fieldChanges(before: Fields, after: Fields) {
+  const changed = [
+    ...new Set([...Object.keys(before), ...Object.keys(after)]),
+  ].filter((key) => !same(before[key], after[key]));
+  if (!changed.length) return null;
+
+  return {
+    before: Object.fromEntries(changed.map((key) => [key, before[key]])),
+    after: Object.fromEntries(changed.map((key) => [key, after[key]])),
+  };
+}
+
+/**
+ * Records the brand, score weights, campaigns, ideas, drafts and assets that
+ * differ between two states. The event log itself is left out, so an event
+ * never has to describe its own insertion.
+ */
+export function diffStates(
+  before: AgentState,
+  after: AgentState,
+): StateChange[] {
+  const changes: StateChange[] = [];
+
+  SINGLETONS.forEach((collection) => {
+    if (before[collection] === after[collection]) return;
+    const fields = fieldChanges(
+      before[collection] as unknown as Fields,
+      after[collection] as unknown as Fields,
+    );
+    if (fields) changes.push({ collection, kind: "changed", ...fields });
+  });
+
+  RECORD_COLLECTIONS.forEach((collection) => {
+    const previous: Fields[] = before[collection] as unknown as Fields[];
+    const next: Fields[] = after[collection] as unknown as Fields[];
+    if (previous === next) return;
+
+    const nextById = new Map(next.map((record) => [record.id, record]));
+    const previousIds = new Set(previous.map((record) => record.id));
+
+    previous.forEach((record, index) => {
+      const id = record.id as string;
+      const updated = nextById.get(id);
+      if (!updated) {
+        changes.push({
+          collection,
+          id,
+          kind: "removed",
+          before: record,
+          index,
+        });
+        return;
+      }
+      if (updated === record) return;
+      const fields = fieldChanges(record, updated);
+      if (fields) changes.push({ collection, id, kind: "changed", ...fields });
+    });
+
+    next
+      .filter((record) => !previousIds.has(record.id))
+      .forEach((record) =>
+        changes.push({
+          collection,
+          id: record.id as string,
+          kind: "added",
+          after: record,
+        }),
+      );
+  });
+
+  return changes;
+}
+
+/** Fields cleared to `undefined` drop out of stored JSON; check both sides. */
+const changedKeys = (change: StateChange) => [
+  ...new Set([
+    ...Object.keys(change.before ?? {}),
+    ...Object.keys(change.after ?? {}),
+  ]),
+];
+
+function restoreFields(current: Fields, change: StateChange) {
+  const restored = { ...current };
+  let conflicts = 0;
+
+  changedKeys(change).forEach((key) => {
+    // A field edited again since is left alone rather than clobbered.
+    if (!same(current[key], change.after?.[key])) {
+      conflicts += 1;
+      return;
+    }
+    const value = change.before?.[key];
+    if (value === undefined) delete restored[key];
+    else restored[key] = value;
+  });
+
+  return { restored, conflicts };
+}
+
+/**
+ * Undoes `changes` on top of whatever the state is now. Each record appears
+ * once per event, so order only matters for removals, which go back in by
+ * ascending position so every one lands where it was. Later edits win: a
+ * field that changed again since is skipped and counted as a conflict, and a
+ * record that is gone can't have its edits undone.
+ */
+export function revertChanges(
+  state: AgentState,
+  changes: StateChange[],
+): { state: AgentState; conflicts: number } {
+  let working = state;
+  let conflicts = 0;
+
+  changes.forEach((change) => {
+    const { collection } = change;
+
+    if (collection === "brand" || collection === "scoreWeights") {
+      const result = restoreFields(
+        working[collection] as unknown as Fields,
+        change,
+      );
+      conflicts += result.conflicts;
+      working = { ...working, [collection]: result.restored };
+      return;
+    }
+
+    const records = working[collection] as unknown as Fields[];
+    const position = records.findIndex((record) => record.id === change.id);
+
+    if (change.kind === "added") {
+      if (position < 0) return;
+      working = {
+        ...working,
+        [collection]: records.filter((_, index) => index !== position),
+      };
+      return;
+    }
+
+    if (change.kind === "removed") {
+      if (position >= 0 || !change.before) return;
+      const next = [...records];
+      next.splice(change.index ?? 0, 0, change.before);
+      working = { ...working, [collection]: next };
+      return;
+    }
+
+    if (position < 0) {
+      conflicts += 1;
+      return;
+    }
+    const result = restoreFields(records[position], change);
+    conflicts += result.conflicts;
+    working = {
+      ...working,
+      [collection]: records.map((record, index) =>
+        index === position ? result.restored : record,
+      ),
+    };
+  });
+
+  return { state: working, conflicts };
+}
+
+const preview = (value: unknown) => {
+  if (value === undefined) return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}…` : text;
+};
+
+const recordName = (record: Fields = {}) =>
+  [record.title, record.headline, record.caption, record.name]
+    .find((value): value is string => typeof value === "string" && !!value)
+    ?.split("\n")[0];
+
+export interface ChangeSummary {
+  title: string;
+  /** One `field: before → after` line per changed field. */
+  lines: string[];
+}
+
+/** Human-readable rendering of a change; `state` names edited records. */
+export function summarizeChange(
+  change: StateChange,
+  state: AgentState,
+): ChangeSummary {
+  const label = collectionLabels[change.collection];
+
+  if (change.kind === "added" || change.kind === "removed") {
+    const record = change.kind === "added" ? change.after : change.before;
+    const name = recordName(record);
+    return {
+      title: `${label} ${change.kind}${name ? `: ${preview(name)}` : ""}`,
+      lines: [],
+    };
+  }
+
+  const current =
+    change.collection === "brand" || change.collection === "scoreWeights"
+      ? undefined
+      : (state[change.collection] as unknown as Fields[]).find(
+          (record) => record.id === change.id,
+        );
+  const name = recordName(current);
+
+  return {
+    title: `${label} changed${name ? `: ${preview(name)}` : ""}`,
+    lines: changedKeys(change).map(
+      (key) =>
+        `${key}: ${preview(change.before?.[key])} → ${preview(change.after?.[key])}`,
+    ),
+  };
+}
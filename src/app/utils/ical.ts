@@ -0,0 +1,123 @@
+import { Campaign, ContentDraft, ContentIdea } from "../types";
+import { slugify } from "./agent";
+
+const PRODUCT_ID = "-//Orbit Control//Social Content Agent//EN";
+const UID_DOMAIN = "orbit-control";
+const EVENT_MINUTES = 30;
+
+/** RFC 5545 UTC timestamp, e.g. `20260105T091500Z`. */
+const toIcsDate = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/** Folds content lines at 75 octets as RFC 5545 requires. */
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length ? 74 : 75;
+
+    if (size + bytes > limit) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+
+    current += char;
+    size += bytes;
+  }
+
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/** Stable per draft so re-importing updates events instead of duplicating. */
+export const draftEventUid = (draft: ContentDraft) =>
+  `draft-${draft.id}@${UID_DOMAIN}`;
+
+function draftEvent(
+  draft: ContentDraft,
+  idea: ContentIdea | undefined,
+  stamp: string,
+) {
+  // `schedule` is an ISO instant, so emitting UTC keeps it exact in every zone.
+  const start = new Date(draft.schedule);
+  if (Number.isNaN(start.getTime())) return null;
+
+  const end = new Date(start.getTime() + EVENT_MINUTES * 60_000);
+  const firstLine = draft.caption.split("\n")[0]?.trim() || "Untitled drop";
+  const description = [
+    `Platform: ${draft.platform}`,
+    `Stage: ${draft.stage}`,
+    `Hook: ${firstLine}`,
+    `Asset brief: ${draft.assetBrief}`,
+    draft.hashtags.length ? `Hashtags: ${draft.hashtags.join(" ")}` : "",
+    idea ? `Idea: ${idea.headline}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${draftEventUid(draft)}`,
+    `DTSTAMP:${stamp}`,
+    `LAST-MODIFIED:${stamp}`,
+    `DTSTART:${toIcsDate(start)}`,
+    `DTEND:${toIcsDate(end)}`,
+    `SUMMARY:${escapeText(`[${draft.platform}] ${firstLine}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `CATEGORIES:${escapeText(draft.platform)},${escapeText(draft.stage)}`,
+    `STATUS:${["drafts", "in_review"].includes(draft.stage) ? "TENTATIVE" : "CONFIRMED"}`,
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+  ];
+}
+
+/** Builds an iCalendar feed with one VEVENT per draft of the campaign. */
+export function buildCampaignCalendar(
+  campaign: Campaign,
+  drafts: ContentDraft[],
+  ideas: ContentIdea[],
+  now = new Date(),
+) {
+  const stamp = toIcsDate(now);
+  const events = drafts
+    .filter((draft) => draft.campaignId === campaign.id)
+    .map((draft) =>
+      draftEvent(
+        draft,
+        ideas.find((idea) => idea.id === draft.ideaId),
+        stamp,
+      ),
+    )
+    .filter((lines): lines is string[] => lines !== null)
+    .flat();
+
+  return (
+    [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      `PRODID:${PRODUCT_ID}`,
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      `X-WR-CALNAME:${escapeText(`${campaign.title} — Orbit Control`)}`,
+      ...events,
+      "END:VCALENDAR",
+    ]
+      .map(foldLine)
+      .join("\r\n") + "\r\n"
+  );
+}
+
+export const calendarFileName = (campaign: Campaign) =>
+  `${slugify(campaign.title) || "campaign"}.ics`;
@@ -0,0 +1,176 @@
+import { ContentDraft, MetricSample } from "../types";
+import { checkMetricReading } from "./analytics";
+import { parseCsv, toCsv } from "./csv";
+import { CsvRowIssue, parseScheduleCell } from "./draftCsv";
+import { browserTimezone } from "./timezone";
+
+const TEMPLATE_HEADER = [
+  "Draft ID",
+  "Post ID",
+  "Platform",
+  "Caption",
+  "Captured At",
+  "Impressions",
+  "Engagements",
+];
+
+/** One row per published draft, ready to fill in from a network export. */
+export function metricsTemplateCsv(drafts: ContentDraft[]) {
+  const rows = drafts
+    .filter((draft) => draft.stage === "published")
+    .map((draft) => [
+      draft.id,
+      draft.publication?.externalId ?? "",
+      draft.platform,
+      draft.caption.split("\n")[0] ?? "",
+      "",
+      "",
+      "",
+    ]);
+
+  return toCsv([TEMPLATE_HEADER, ...rows]);
+}
+
+type MetricsColumn =
+  | "draftId"
+  | "postId"
+  | "capturedAt"
+  | "impressions"
+  | "engagements";
+
+const COLUMN_ALIASES: Record<MetricsColumn, string[]> = {
+  draftId: ["draft id", "draft"],
+  postId: ["post id", "external id", "tweet id", "media id"],
+  capturedAt: ["captured at", "date", "recorded at", "as of"],
+  impressions: ["impressions", "views"],
+  engagements: ["engagements", "interactions", "total engagements"],
+};
+
+export interface MetricsImportResult {
+  readings: { draftId: string; sample: MetricSample }[];
+  issues: CsvRowIssue[];
+  totalRows: number;
+}
+
+/** Accepts thousands separators, as spreadsheet exports often include them. */
+const parseCount = (value: string) =>
+  value ? Number(value.replace(/[\s,_]/g, "")) : Number.NaN;
+
+/**
+ * Reads metric rows matched to drafts by draft id or the network's post id.
+ * Readings without a date are stamped `now`.
+ */
+export function importMetricsCsv(
+  text: string,
+  drafts: ContentDraft[],
+  now = new Date(),
+): MetricsImportResult {
+  const [header, ...rows] = parseCsv(text);
+  const result: MetricsImportResult = {
+    readings: [],
+    issues: [],
+    totalRows: rows.length,
+  };
+
+  if (!header) {
+    result.issues.push({ row: 1, severity: "error", message: "File is empty" });
+    return result;
+  }
+
+  const columns = new Map<MetricsColumn, number>();
+  header.forEach((cell, index) => {
+    const name = cell.trim().toLowerCase();
+    (Object.keys(COLUMN_ALIASES) as MetricsColumn[]).forEach((column) => {
+      if (!columns.has(column) && COLUMN_ALIASES[column].includes(name)) {
+        columns.set(column, index);
+      }
+    });
+  });
+
+  const missing = [
+    columns.has("draftId") || columns.has("postId")
+      ? null
+      : "draft id or post id",
+    columns.has("impressions") ? null : "impressions",
+    columns.has("engagements") ? null : "engagements",
+  ].filter(Boolean);
+  if (missing.length) {
+    result.issues.push({
+      row: 1,
+      severity: "error",
+      message: `Header row is missing ${missing.join(", ")} columns`,
+    });
+    result.totalRows = 0;
+    return result;
+  }
+
+  const byId = new Map(drafts.map((draft) => [draft.id, draft]));
+  const byPostId = new Map(
+    drafts
+      .filter((draft) => draft.publication?.externalId)
+      .map((draft) => [draft.publication?.externalId as string, draft]),
+  );
+
+  rows.forEach((cells, index) => {
+    const line = index + 2;
+    const cell = (column: MetricsColumn) => {
+      const position = columns.get(column);
+      return position === undefined ? "" : (cells[position] ?? "").trim();
+    };
+    const reject = (message: string) =>
+      result.issues.push({ row: line, severity: "error", message });
+
+    const draft = byId.get(cell("draftId")) ?? byPostId.get(cell("postId"));
+    if (!draft) {
+      reject(
+        `No draft matches ${cell("draftId") || cell("postId") || "an empty id"}`,
+      );
+      return;
+    }
+
+    const impressions = parseCount(cell("impressions"));
+    const engagements = parseCount(cell("engagements"));
+    const problem = checkMetricReading(impressions, engagements);
+    if (problem) {
+      reject(problem);
+      return;
+    }
+
+    // Readings are noted down from the viewer's own clock.
+    const dateCell = cell("capturedAt");
+    const capturedAt = dateCell
+      ? parseScheduleCell(
+          /^\d{4}-\d{2}-\d{2}$/.test(dateCell) ? `${dateCell} 00:00` : dateCell,
+          browserTimezone(),
+        )
+      : now;
+    if (!capturedAt) {
+      reject(`Bad date “${dateCell}”`);
+      return;
+    }
+    if (capturedAt.getTime() > now.getTime()) {
+      reject(`Captured At “${dateCell}” is in the future`);
+      return;
+    }
+
+    if (draft.stage !== "published") {
+      result.issues.push({
+        row: line,
+        severity: "warning",
+        message: `${draft.platform} draft isn't published yet`,
+      });
+    }
+
+    result.readings.push({
+      draftId: draft.id,
+      sample: {
+        capturedAt: capturedAt.toISOString(),
+        impressions,
+        engagements,
+        source: "csv",
+      },
+    });
+  });
+
+  return result;
+}
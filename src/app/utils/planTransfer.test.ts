@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { AgentState, ContentDraft } from "../types";
+import { buildPlanBlueprint, importPlan } from "./planTransfer";
+import { blankWorkspaceState } from "./workspaces";
+
+const now = new Date("2026-03-01T12:00:00.000Z");
+const base = blankWorkspaceState("Orbit", now);
+const [campaign] = base.campaigns;
+
+const draft = (id: string, schedule: string): ContentDraft => ({
+  id,
+  ideaId: "i1",
+  campaignId: campaign.id,
+  platform: "X",
+  caption: "Launch week without the panic",
+  hashtags: [],
+  assetBrief: "",
+  schedule,
+  stage: "scheduled",
+  createdAt: "2026-02-20T00:00:00.000Z",
+});
+
+const state: AgentState = {
+  ...base,
+  drafts: [
+    {
+      ...draft("live", "2026-03-05T09:00:00.000Z"),
+      publication: {
+        status: "failed",
+        attempts: 1,
+        lastAttemptAt: "2026-02-28T09:00:00.000Z",
+        error: "Rate limited",
+      },
+    },
+    draft("past", "2026-02-25T09:00:00.000Z"),
+  ],
+};
+
+const stages = (drafts: ContentDraft[]) =>
+  Object.fromEntries(drafts.map((item) => [item.schedule, item.stage]));
+
+describe("importPlan", () => {
+  it("unschedules merged copies of drops the workspace already has", () => {
+    const { state: next, summary } = importPlan(
+      state,
+      buildPlanBlueprint(state, campaign),
+      "merge",
+      now,
+    );
+    const copies = next.drafts.slice(0, 2);
+
+    expect(copies.map((item) => item.stage)).toEqual(["drafts", "drafts"]);
+    expect(copies.every((item) => !item.publication)).toBe(true);
+    expect(summary).toMatchObject({ remapped: 3, unscheduled: 2 });
+    // The originals keep their slots.
+    expect(next.drafts.slice(2)).toEqual(state.drafts);
+  });
+
+  it("restores upcoming drops but not ones whose slot has passed", () => {
+    const { state: next, summary } = importPlan(
+      state,
+      buildPlanBlueprint(state, campaign),
+      "replace",
+      now,
+    );
+
+    expect(stages(next.drafts)).toEqual({
+      "2026-03-05T09:00:00.000Z": "scheduled",
+      "2026-02-25T09:00:00.000Z": "drafts",
+    });
+    expect(next.drafts[0].publication).toEqual(state.drafts[0].publication);
+    expect(summary).toMatchObject({ remapped: 0, unscheduled: 1 });
+  });
+
+  it("unschedules drops that break the network's rules", () => {
+    const blueprint = buildPlanBlueprint(
+      {
+        ...base,
+        drafts: [
+          {
+            ...draft("long", "2026-03-05T09:00:00.000Z"),
+            caption: "x".repeat(400),
+          },
+        ],
+      },
+      campaign,
+    );
+
+    expect(
+      importPlan(base, blueprint, "replace", now).state.drafts[0].stage,
+    ).toBe("drafts");
+  });
+});
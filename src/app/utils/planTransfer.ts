@@ -0,0 +1,256 @@
+import {
+  AgentState,
+  BrandProfile,
+  Campaign,
+  ContentDraft,
+  ContentIdea,
+} from "../types";
+import { createId } from "./agent";
+import { isCompliant, validateDraft, validateMedia } from "./platformRules";
+import { DEFAULT_SCORE_WEIGHTS } from "./quality";
+import { needsApproval } from "./review";
+import { isTooSoon } from "./scheduler";
+import { CURRENT_SCHEMA_VERSION, migrateAgentState } from "./schema";
+
+/** The campaign-scoped JSON produced by "Copy Plan JSON". */
+export interface PlanBlueprint {
+  schemaVersion: number;
+  brand?: BrandProfile;
+  campaign: Campaign;
+  ideas: ContentIdea[];
+  drafts: ContentDraft[];
+}
+
+export type ImportMode = "merge" | "replace";
+
+export type ParsedPlan =
+  | { ok: true; blueprint: PlanBlueprint; repaired: number; skipped: number }
+  | { ok: false; error: string };
+
+export interface ImportSummary {
+  mode: ImportMode;
+  campaignId: string;
+  campaignTitle: string;
+  ideas: number;
+  drafts: number;
+  /** Ids that collided with existing records and were reassigned. */
+  remapped: number;
+  /** Scheduled drafts without a valid approval, moved back to review. */
+  sentToReview: number;
+  /**
+   * Scheduled drafts moved back to drafts: copies of drops the workspace
+   * already has, slots that have passed, and rule or asset failures.
+   */
+  unscheduled: number;
+}
+
+export const buildPlanBlueprint = (
+  state: AgentState,
+  campaign: Campaign,
+): PlanBlueprint => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  brand: state.brand,
+  campaign,
+  ideas: state.ideas.filter((idea) => idea.campaignId === campaign.id),
+  drafts: state.drafts.filter((draft) => draft.campaignId === campaign.id),
+});
+
+/**
+ * Parses and validates a blueprint, running it through the same migrations
+ * and record repair as stored state. Records that can't be repaired are
+ * skipped rather than failing the whole import.
+ */
+export function parsePlanBlueprint(text: string): ParsedPlan {
+  let raw: unknown;
+
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "Not valid JSON" };
+  }
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { ok: false, error: "Expected a JSON object" };
+  }
+
+  const payload = raw as Record<string, unknown>;
+  if (!payload.campaign || typeof payload.campaign !== "object") {
+    return { ok: false, error: "Blueprint has no `campaign`" };
+  }
+
+  const hasBrand = !!payload.brand && typeof payload.brand === "object";
+  const { state, report } = migrateAgentState(
+    {
+      schemaVersion: payload.schemaVersion,
+      brand: payload.brand,
+      campaigns: [payload.campaign],
+      ideas: payload.ideas,
+      drafts: payload.drafts,
+      events: [],
+    },
+    {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      brand: {
+        name: "",
+        mission: "",
+        tone: "",
+        pillars: [],
+        hashtags: [],
+        callToAction: "",
+        primaryAudience: "",
+        bannedPhrases: [],
+      },
+      campaigns: [],
+      ideas: [],
+      drafts: [],
+      assets: [],
+      events: [],
+      scoreWeights: DEFAULT_SCORE_WEIGHTS,
+      quarantine: [],
+    },
+  );
+
+  const [campaign] = state.campaigns;
+  if (!campaign) {
+    return { ok: false, error: "Blueprint campaign is missing an id" };
+  }
+
+  return {
+    ok: true,
+    blueprint: {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      brand: hasBrand ? state.brand : undefined,
+      campaign,
+      ideas: state.ideas.filter((idea) => idea.campaignId === campaign.id),
+      drafts: state.drafts.filter((draft) => draft.campaignId === campaign.id),
+    },
+    repaired: report.repaired,
+    skipped:
+      report.quarantined +
+      state.ideas.filter((idea) => idea.campaignId !== campaign.id).length +
+      state.drafts.filter((draft) => draft.campaignId !== campaign.id).length,
+  };
+}
+
+/**
+ * Folds a blueprint into the workspace.
+ *
+ * - `merge` adds the campaign alongside existing ones and keeps the brand.
+ * - `replace` swaps out the campaign with the same id (and its ideas and
+ *   drafts) and adopts the blueprint brand, which is how backups restore.
+ *
+ * Any id that would collide with a record the import doesn't replace gets a
+ * fresh one, with references rewritten to match. A scheduled draft only
+ * stays scheduled when it would pass the same checks as scheduling it by
+ * hand: copies of drafts already here (the publisher would post them a second
+ * time under their new id), slots that have passed and rule or asset failures
+ * go back to drafts, and drafts the campaign would not let through without an
+ * approval wait in review, as CSV rows do.
+ */
+export function importPlan(
+  state: AgentState,
+  blueprint: PlanBlueprint,
+  mode: ImportMode,
+  now = new Date(),
+): { state: AgentState; summary: ImportSummary } {
+  const replacedCampaignId =
+    mode === "replace" &&
+    state.campaigns.some((campaign) => campaign.id === blueprint.campaign.id)
+      ? blueprint.campaign.id
+      : null;
+
+  const keptIdeas = state.ideas.filter(
+    (idea) => idea.campaignId !== replacedCampaignId,
+  );
+  const keptDrafts = state.drafts.filter(
+    (draft) => draft.campaignId !== replacedCampaignId,
+  );
+  const keptCampaigns = state.campaigns.filter(
+    (campaign) => campaign.id !== replacedCampaignId,
+  );
+
+  const taken = new Set([
+    ...keptCampaigns.map((campaign) => campaign.id),
+    ...keptIdeas.map((idea) => idea.id),
+    ...keptDrafts.map((draft) => draft.id),
+  ]);
+  const idMap = new Map<string, string>();
+  let remapped = 0;
+
+  const claim = (id: string) => {
+    const existing = idMap.get(id);
+    if (existing) return existing;
+
+    const next = taken.has(id) ? createId() : id;
+    if (next !== id) remapped += 1;
+    taken.add(next);
+    idMap.set(id, next);
+    return next;
+  };
+
+  const campaign: Campaign = {
+    ...blueprint.campaign,
+    id: claim(blueprint.campaign.id),
+  };
+  const ideas = blueprint.ideas.map((idea) => ({
+    ...idea,
+    id: claim(idea.id),
+    campaignId: campaign.id,
+  }));
+  const kept = new Set(keptDrafts.map((draft) => draft.id));
+  const canSchedule = (draft: ContentDraft) =>
+    !kept.has(draft.id) &&
+    !isTooSoon(draft, draft.schedule, now) &&
+    isCompliant(validateDraft(draft)) &&
+    isCompliant(validateMedia(draft, state.assets));
+  const stageOf = new Map(
+    blueprint.drafts
+      .filter((draft) => draft.stage === "scheduled")
+      .map((draft): [string, ContentDraft["stage"]] => [
+        draft.id,
+        !canSchedule(draft)
+          ? "drafts"
+          : needsApproval(draft, campaign)
+            ? "in_review"
+            : "scheduled",
+      ]),
+  );
+  const countOf = (stage: ContentDraft["stage"]) =>
+    [...stageOf.values()].filter((item) => item === stage).length;
+
+  const drafts = blueprint.drafts.map((draft): ContentDraft => {
+    const stage = stageOf.get(draft.id) ?? draft.stage;
+    return {
+      ...draft,
+      id: claim(draft.id),
+      ideaId: idMap.get(draft.ideaId) ?? draft.ideaId,
+      campaignId: campaign.id,
+      stage,
+      publication: stage === "drafts" ? undefined : draft.publication,
+      // Claiming is idempotent, so an original listed after its re-run still
+      // ends up with the id the re-run points to.
+      recycledFrom: draft.recycledFrom && claim(draft.recycledFrom),
+    };
+  });
+
+  return {
+    state: {
+      ...state,
+      brand:
+        mode === "replace" && blueprint.brand ? blueprint.brand : state.brand,
+      campaigns: [campaign, ...keptCampaigns],
+      ideas: [...ideas, ...keptIdeas],
+      drafts: [...drafts, ...keptDrafts],
+    },
+    summary: {
+      mode,
+      campaignId: campaign.id,
+      campaignTitle: campaign.title,
+      ideas: ideas.length,
+      drafts: drafts.length,
+      remapped,
+      sentToReview: countOf("in_review"),
+      unscheduled: countOf("drafts"),
+    },
+  };
+}
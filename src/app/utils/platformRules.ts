@@ -0,0 +1,409 @@
+import { ContentDraft, DraftFormat, MediaAsset, Platform } from "../types";
+
+/** How a draft splits into a thread or a carousel on networks that allow it. */
+export interface PartRules {
+  format: DraftFormat;
+  minParts: number;
+  /** Parts after the caption: a thread's replies or a carousel's slides. */
+  maxParts: number;
+  /** A hard limit for thread posts; for slides, what still reads at a glance. */
+  maxPartLength: number;
+}
+
+/** What images and videos the network accepts. */
+export interface MediaRules {
+  /** Width ÷ height range, with how the network phrases it. */
+  aspectRatio: { min: number; max: number; label: string };
+  /** Shortest and longest video, in seconds. */
+  videoSeconds: [number, number];
+  /** Whether every post needs an image or video. */
+  required: boolean;
+}
+
+export interface PlatformRules {
+  maxCaptionLength: number;
+  maxHashtags: number;
+  /** How URLs inside the caption behave once posted. */
+  links: "clickable" | "shortened" | "unclickable";
+  /** Length every URL is counted as when the network shortens links. */
+  shortenedLinkLength?: number;
+  /** Whether empty lines survive posting or get collapsed by the network. */
+  lineBreaks: "preserve" | "collapse-blank";
+  /** Characters shown before the feed truncates with "…more". */
+  truncateAt: number;
+  parts?: PartRules;
+  media: MediaRules;
+}
+
+export const PLATFORM_RULES: Record<Platform, PlatformRules> = {
+  Instagram: {
+    maxCaptionLength: 2200,
+    maxHashtags: 30,
+    links: "unclickable",
+    lineBreaks: "collapse-blank",
+    truncateAt: 125,
+    parts: {
+      format: "carousel",
+      minParts: 2,
+      maxParts: 20,
+      maxPartLength: 200,
+    },
+    media: {
+      aspectRatio: { min: 9 / 16, max: 1.91, label: "9:16 to 1.91:1" },
+      videoSeconds: [3, 90],
+      required: true,
+    },
+  },
+  LinkedIn: {
+    maxCaptionLength: 3000,
+    maxHashtags: 5,
+    links: "clickable",
+    lineBreaks: "preserve",
+    truncateAt: 210,
+    parts: {
+      format: "carousel",
+      minParts: 2,
+      maxParts: 20,
+      maxPartLength: 300,
+    },
+    media: {
+      aspectRatio: { min: 1 / 2.4, max: 2.4, label: "1:2.4 to 2.4:1" },
+      videoSeconds: [3, 600],
+      required: false,
+    },
+  },
+  TikTok: {
+    maxCaptionLength: 2200,
+    maxHashtags: 8,
+    links: "unclickable",
+    lineBreaks: "collapse-blank",
+    truncateAt: 100,
+    media: {
+      aspectRatio: { min: 9 / 16, max: 1, label: "9:16 to 1:1" },
+      videoSeconds: [3, 600],
+      required: true,
+    },
+  },
+  X: {
+    maxCaptionLength: 280,
+    maxHashtags: 2,
+    links: "shortened",
+    shortenedLinkLength: 23,
+    lineBreaks: "preserve",
+    truncateAt: 280,
+    parts: {
+      format: "thread",
+      minParts: 1,
+      maxParts: 24,
+      maxPartLength: 280,
+    },
+    media: {
+      aspectRatio: { min: 1 / 3, max: 3, label: "1:3 to 3:1" },
+      videoSeconds: [0.5, 140],
+      required: false,
+    },
+  },
+};
+
+/** Invisible glyph networks keep on otherwise blank lines. */
+export const BLANK_LINE_SPACER = "⠀";
+
+export type RuleViolationCode =
+  | "empty-caption"
+  | "caption-too-long"
+  | "too-many-hashtags"
+  | "unclickable-link"
+  | "blank-lines-collapsed"
+  | "hook-truncated"
+  | "parts-unsupported"
+  | "too-few-parts"
+  | "too-many-parts"
+  | "empty-part"
+  | "part-too-long"
+  | "missing-asset"
+  | "asset-aspect-ratio"
+  | "asset-duration";
+
+export interface RuleViolation {
+  code: RuleViolationCode;
+  severity: "error" | "warning";
+  message: string;
+  /** Index into the draft's parts when the violation is about one of them. */
+  part?: number;
+}
+
+const URL_PATTERN = /https?:\/\/\S+/g;
+
+/**
+ * Counts characters the way the network does: hashtags are appended to the
+ * caption and shortened links count as a fixed length.
+ */
+export function measureCaption(
+  caption: string,
+  hashtags: string[],
+  platform: Platform,
+) {
+  const rules = PLATFORM_RULES[platform];
+  const text = hashtags.length ? `${caption}\n\n${hashtags.join(" ")}` : caption;
+  const characters = [...text].length;
+
+  if (rules.links !== "shortened" || !rules.shortenedLinkLength) {
+    return characters;
+  }
+
+  const links = text.match(URL_PATTERN) ?? [];
+  return links.reduce(
+    (total, link) => total - [...link].length + (rules.shortenedLinkLength ?? 0),
+    characters,
+  );
+}
+
+/** Replaces empty lines with a spacer on networks that collapse them. */
+export function applyLineBreakRules(caption: string, platform: Platform) {
+  if (PLATFORM_RULES[platform].lineBreaks !== "collapse-blank") {
+    return caption;
+  }
+
+  return caption
+    .split("\n")
+    .map((line) => (line.trim() ? line : BLANK_LINE_SPACER))
+    .join("\n");
+}
+
+/** The exact text sent to the network: caption, hashtags and spacer lines. */
+export const composePost = (
+  caption: string,
+  hashtags: string[],
+  platform: Platform,
+) =>
+  applyLineBreakRules(
+    hashtags.length ? `${caption}\n\n${hashtags.join(" ")}` : caption,
+    platform,
+  );
+
+export const partFormat = (platform: Platform) =>
+  PLATFORM_RULES[platform].parts?.format;
+
+/** `Post 3` of a thread (the caption is post 1) or `Slide 2` of a carousel. */
+export const partLabel = (platform: Platform, index: number) =>
+  partFormat(platform) === "thread"
+    ? `Post ${index + 2}`
+    : `Slide ${index + 1}`;
+
+/** A thread's follow-up posts as sent to the network; carousels send none. */
+export const composeReplies = (
+  draft: Pick<ContentDraft, "parts" | "platform">,
+) =>
+  partFormat(draft.platform) === "thread"
+    ? (draft.parts ?? []).map((part) =>
+        applyLineBreakRules(part.text, draft.platform),
+      )
+    : [];
+
+function validateParts(
+  draft: Pick<ContentDraft, "parts" | "platform">,
+): RuleViolation[] {
+  const parts = draft.parts ?? [];
+  if (!parts.length) return [];
+
+  const rules = PLATFORM_RULES[draft.platform].parts;
+  if (!rules) {
+    return [
+      {
+        code: "parts-unsupported",
+        severity: "error",
+        message: `${draft.platform} has no threads or carousels — merge the parts into the caption`,
+      },
+    ];
+  }
+
+  const noun = rules.format === "thread" ? "follow-up posts" : "slides";
+  const violations: RuleViolation[] = [];
+  if (parts.length < rules.minParts) {
+    violations.push({
+      code: "too-few-parts",
+      severity: "error",
+      message: `A ${rules.format} needs at least ${rules.minParts} ${noun}`,
+    });
+  }
+  if (parts.length > rules.maxParts) {
+    violations.push({
+      code: "too-many-parts",
+      severity: "error",
+      message: `${parts.length}/${rules.maxParts} ${noun} allowed on ${draft.platform}`,
+    });
+  }
+
+  parts.forEach((part, index) => {
+    const label = partLabel(draft.platform, index);
+    if (!part.text.trim()) {
+      violations.push({
+        code: "empty-part",
+        severity: "error",
+        message: `${label} is empty`,
+        part: index,
+      });
+      return;
+    }
+
+    const length = measureCaption(part.text, [], draft.platform);
+    if (length > rules.maxPartLength) {
+      violations.push(
+        rules.format === "thread"
+          ? {
+              code: "part-too-long",
+              severity: "error",
+              message: `${label}: ${length}/${rules.maxPartLength} characters`,
+              part: index,
+            }
+          : {
+              code: "part-too-long",
+              severity: "warning",
+              message: `${label}: ${length} characters is more than reads at a glance (${rules.maxPartLength})`,
+              part: index,
+            },
+      );
+    }
+  });
+
+  return violations;
+}
+
+export function validateDraft(
+  draft: Pick<ContentDraft, "caption" | "hashtags" | "platform" | "parts">,
+): RuleViolation[] {
+  const rules = PLATFORM_RULES[draft.platform];
+  const violations: RuleViolation[] = [];
+
+  if (!draft.caption.trim()) {
+    violations.push({
+      code: "empty-caption",
+      severity: "error",
+      message: "Caption is empty",
+    });
+  }
+
+  const length = measureCaption(draft.caption, draft.hashtags, draft.platform);
+  if (length > rules.maxCaptionLength) {
+    violations.push({
+      code: "caption-too-long",
+      severity: "error",
+      message: `${length}/${rules.maxCaptionLength} characters including hashtags`,
+    });
+  }
+
+  if (draft.hashtags.length > rules.maxHashtags) {
+    violations.push({
+      code: "too-many-hashtags",
+      severity: "error",
+      message: `${draft.hashtags.length}/${rules.maxHashtags} hashtags allowed on ${draft.platform}`,
+    });
+  }
+
+  if (rules.links === "unclickable" && /https?:\/\/\S+/.test(draft.caption)) {
+    violations.push({
+      code: "unclickable-link",
+      severity: "warning",
+      message: `Links aren't clickable in ${draft.platform} captions — point to the bio instead`,
+    });
+  }
+
+  if (
+    rules.lineBreaks === "collapse-blank" &&
+    draft.caption.split("\n").slice(1, -1).some((line) => !line.trim())
+  ) {
+    violations.push({
+      code: "blank-lines-collapsed",
+      severity: "warning",
+      message: `${draft.platform} collapses empty lines — use a spacer line`,
+    });
+  }
+
+  const firstLine = draft.caption.split("\n")[0] ?? "";
+  if ([...firstLine].length > rules.truncateAt) {
+    violations.push({
+      code: "hook-truncated",
+      severity: "warning",
+      message: `First line runs past the ${rules.truncateAt}-character fold`,
+    });
+  }
+
+  return [...violations, ...validateParts(draft)];
+}
+
+/** Aspect ratios are rounded by encoders, so allow a little slack. */
+const ASPECT_TOLERANCE = 0.01;
+
+/**
+ * Checks a draft's attached assets: that there are enough of them (one per
+ * slide for carousels, one for any other post with an asset brief or on a
+ * network that needs media) and that each fits the network's aspect ratios
+ * and video lengths.
+ */
+export function validateMedia(
+  draft: Pick<ContentDraft, "platform" | "assetBrief" | "parts" | "assetIds">,
+  assets: MediaAsset[],
+): RuleViolation[] {
+  const rules = PLATFORM_RULES[draft.platform].media;
+  const ids = draft.assetIds ?? [];
+  const attached = ids.flatMap(
+    (id) => assets.find((asset) => asset.id === id) ?? [],
+  );
+  const slides =
+    partFormat(draft.platform) === "carousel" ? (draft.parts?.length ?? 0) : 0;
+  const needed = slides || (rules.required || draft.assetBrief.trim() ? 1 : 0);
+  const violations: RuleViolation[] = [];
+
+  if (attached.length < ids.length) {
+    const lost = ids.length - attached.length;
+    violations.push({
+      code: "missing-asset",
+      severity: "error",
+      message: `${lost} attached asset${lost === 1 ? " is" : "s are"} no longer in the library`,
+    });
+  }
+  if (attached.length < needed) {
+    violations.push({
+      code: "missing-asset",
+      severity: "error",
+      message: slides
+        ? `${attached.length}/${slides} slides have an asset`
+        : rules.required
+          ? `${draft.platform} can't post without an image or video`
+          : "No asset attached for the asset brief",
+    });
+  }
+
+  attached.forEach((asset) => {
+    const ratio = asset.height ? asset.width / asset.height : 0;
+    if (
+      ratio &&
+      (ratio < rules.aspectRatio.min - ASPECT_TOLERANCE ||
+        ratio > rules.aspectRatio.max + ASPECT_TOLERANCE)
+    ) {
+      violations.push({
+        code: "asset-aspect-ratio",
+        severity: "error",
+        message: `${asset.name} is ${asset.width}×${asset.height}; ${draft.platform} takes ${rules.aspectRatio.label}`,
+      });
+    }
+
+    const [shortest, longest] = rules.videoSeconds;
+    if (
+      asset.kind === "video" &&
+      asset.duration !== undefined &&
+      (asset.duration < shortest || asset.duration > longest)
+    ) {
+      violations.push({
+        code: "asset-duration",
+        severity: "error",
+        message: `${asset.name} runs ${Math.round(asset.duration)}s; ${draft.platform} takes ${shortest}–${longest}s videos`,
+      });
+    }
+  });
+
+  return violations;
+}
+
+export const isCompliant = (violations: RuleViolation[]) =>
+  violations.every((violation) => violation.severity !== "error");
@@ -0,0 +1,431 @@
+import {
+  BrandProfile,
+  Campaign,
+  ContentDraft,
+  ContentIdea,
+  GenerationSource,
+  Platform,
+  ProviderId,
+} from "../types";
+import {
+  createId,
+  draftsFromIdea,
+  generateIdeas,
+  platformCaption,
+} from "./agent";
+import { TemplatePerformance } from "./bandit";
+import { applyLineBreakRules, measureCaption, PLATFORM_RULES } from "./platformRules";
+import { hashSeed } from "./random";
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  /** Root of an OpenAI-compatible API, e.g. `http://localhost:11434/v1`. */
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+export const defaultProviderSettings: ProviderSettings = {
+  provider: "templates",
+  baseUrl: "http://localhost:11434/v1",
+  model: "llama3.1",
+  apiKey: "",
+};
+
+export const providerLabels: Record<ProviderId, string> = {
+  templates: "Template engine",
+  "openai-compatible": "OpenAI-compatible",
+};
+
+export const describeSource = (source: GenerationSource) =>
+  [
+    providerLabels[source.provider],
+    source.model ? `(${source.model})` : "",
+    source.fallbackFrom
+      ? `— fallback from ${providerLabels[source.fallbackFrom]}`
+      : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+export interface IdeaRequest {
+  brand: BrandProfile;
+  campaign: Campaign;
+  total: number;
+  creativeBrief?: string;
+  seed: string;
+  /** How earlier template choices performed; only the template provider uses it. */
+  performance?: TemplatePerformance;
+}
+
+export interface CaptionRequest {
+  idea: ContentIdea;
+  brand: BrandProfile;
+  platform: Platform;
+  hashtags: string[];
+}
+
+export interface ContentProvider {
+  id: ProviderId;
+  model?: string;
+  generateIdeas(request: IdeaRequest): Promise<ContentIdea[]>;
+  writeCaption(request: CaptionRequest): Promise<string>;
+}
+
+export class ProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+export const templateProvider: ContentProvider = {
+  id: "templates",
+  generateIdeas: async ({
+    brand,
+    campaign,
+    total,
+    creativeBrief,
+    seed,
+    performance,
+  }) => generateIdeas(brand, campaign, total, creativeBrief, seed, performance),
+  writeCaption: async ({ idea, brand, platform, hashtags }) =>
+    platformCaption(idea, brand, platform, hashtags),
+};
+
+const REQUEST_TIMEOUT_MS = 45_000;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+/** Pulls the first JSON object out of a completion, tolerating code fences. */
+function parseJsonObject(content: string): Record<string, unknown> {
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+
+  if (start === -1 || end <= start) {
+    throw new ProviderError("Completion did not contain a JSON object");
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(content.slice(start, end + 1));
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Reported below with the same message as a non-object payload.
+  }
+
+  throw new ProviderError("Completion JSON could not be parsed");
+}
+
+function toIdea(
+  raw: unknown,
+  request: IdeaRequest,
+  index: number,
+): ContentIdea | null {
+  if (!raw || typeof raw !== "object") return null;
+  const candidate = raw as Record<string, unknown>;
+
+  const supportingPoints = Array.isArray(candidate.supportingPoints)
+    ? candidate.supportingPoints.filter(isNonEmptyString).map((point) => point.trim())
+    : [];
+
+  if (
+    !isNonEmptyString(candidate.headline) ||
+    !isNonEmptyString(candidate.angle) ||
+    !isNonEmptyString(candidate.recommendedVisual) ||
+    !isNonEmptyString(candidate.suggestedCta) ||
+    !supportingPoints.length
+  ) {
+    return null;
+  }
+
+  const headline = candidate.headline.trim();
+
+  return {
+    id: createId(),
+    campaignId: request.campaign.id,
+    headline,
+    hook: isNonEmptyString(candidate.hook)
+      ? candidate.hook.trim()
+      : headline.split(" ").slice(0, 7).join(" "),
+    angle: candidate.angle.trim(),
+    formats: request.campaign.platforms,
+    supportingPoints,
+    recommendedVisual: candidate.recommendedVisual.trim(),
+    suggestedCta: candidate.suggestedCta.trim(),
+    createdAt: new Date().toISOString(),
+    generation: {
+      seed: request.seed,
+      index,
+      batchSize: request.total,
+      creativeBrief: request.creativeBrief,
+    },
+  };
+}
+
+export function parseIdeasCompletion(
+  content: string,
+  request: IdeaRequest,
+): ContentIdea[] {
+  const payload = parseJsonObject(content);
+
+  if (!Array.isArray(payload.ideas)) {
+    throw new ProviderError("Completion is missing an `ideas` array");
+  }
+
+  const ideas = payload.ideas
+    .map((raw, index) => toIdea(raw, request, index))
+    .filter((idea): idea is ContentIdea => idea !== null)
+    .slice(0, request.total);
+
+  if (!ideas.length) {
+    throw new ProviderError("Completion contained no valid ideas");
+  }
+
+  return ideas;
+}
+
+export function parseCaptionCompletion(
+  content: string,
+  request: CaptionRequest,
+): string {
+  const payload = parseJsonObject(content);
+
+  if (!isNonEmptyString(payload.caption)) {
+    throw new ProviderError("Completion is missing a `caption` string");
+  }
+
+  const caption = applyLineBreakRules(payload.caption.trim(), request.platform);
+  const { maxCaptionLength } = PLATFORM_RULES[request.platform];
+
+  if (measureCaption(caption, request.hashtags, request.platform) > maxCaptionLength) {
+    throw new ProviderError(
+      `Caption exceeds the ${maxCaptionLength}-character ${request.platform} limit`,
+    );
+  }
+
+  return caption;
+}
+
+const describeBrand = (brand: BrandProfile) =>
+  [
+    `Brand: ${brand.name}`,
+    `Mission: ${brand.mission}`,
+    `Voice: ${brand.tone}`,
+    `Pillars: ${brand.pillars.join(", ")}`,
+    `Primary audience: ${brand.primaryAudience}`,
+    `Default CTA: ${brand.callToAction}`,
+  ].join("\n");
+
+export function createOpenAICompatibleProvider(
+  settings: ProviderSettings,
+): ContentProvider {
+  const endpoint = `${settings.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  const complete = async (prompt: string, seed?: string) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        signal: controller.signal,
+        headers: {
+          "Content-Type": "application/json",
+          ...(settings.apiKey
+            ? { Authorization: `Bearer ${settings.apiKey}` }
+            : {}),
+        },
+        body: JSON.stringify({
+          model: settings.model,
+          temperature: 0.8,
+          // Honoured by servers that support it; best-effort reproducibility.
+          seed: seed ? hashSeed(seed) : undefined,
+          messages: [
+            {
+              role: "system",
+              content:
+                "You are a social media content strategist. Reply with a single JSON object and nothing else.",
+            },
+            { role: "user", content: prompt },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        throw new ProviderError(`Provider responded with HTTP ${response.status}`);
+      }
+
+      const body = (await response.json()) as {
+        choices?: { message?: { content?: unknown } }[];
+      };
+      const content = body.choices?.[0]?.message?.content;
+
+      if (!isNonEmptyString(content)) {
+        throw new ProviderError("Provider returned an empty completion");
+      }
+
+      return content;
+    } catch (error) {
+      if (error instanceof ProviderError) throw error;
+      throw new ProviderError(
+        controller.signal.aborted
+          ? `Provider timed out after ${REQUEST_TIMEOUT_MS / 1000}s`
+          : `Provider request failed: ${(error as Error).message}`,
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  return {
+    id: "openai-compatible",
+    model: settings.model,
+    async generateIdeas(request) {
+      const prompt = [
+        describeBrand(request.brand),
+        "",
+        `Campaign: ${request.campaign.title}`,
+        `Objective: ${request.campaign.objective}`,
+        `Audience: ${request.campaign.audience}`,
+        `Offer: ${request.campaign.offer}`,
+        `Platforms: ${request.campaign.platforms.join(", ")}`,
+        ...(request.creativeBrief
+          ? [`Creative brief: ${request.creativeBrief}`]
+          : []),
+        "",
+        `Write ${request.total} distinct content ideas as {"ideas": [...]}.`,
+        'Each idea: {"headline": string, "hook": string, "angle": string, "supportingPoints": string[], "recommendedVisual": string, "suggestedCta": string}.',
+      ].join("\n");
+
+      return parseIdeasCompletion(await complete(prompt, request.seed), request);
+    },
+    async writeCaption(request) {
+      const { maxCaptionLength } = PLATFORM_RULES[request.platform];
+      const budget =
+        maxCaptionLength - measureCaption("", request.hashtags, request.platform);
+      const prompt = [
+        describeBrand(request.brand),
+        "",
+        `Idea headline: ${request.idea.headline}`,
+        `Angle: ${request.idea.angle}`,
+        `Supporting points: ${request.idea.supportingPoints.join("; ")}`,
+        `CTA: ${request.brand.callToAction.trim() || request.idea.suggestedCta}`,
+        "",
+        `Write a ${request.platform} caption of at most ${budget} characters without hashtags.`,
+        'Reply as {"caption": string}.',
+      ].join("\n");
+
+      return parseCaptionCompletion(
+        await complete(prompt, request.idea.generation?.seed),
+        request,
+      );
+    },
+  };
+}
+
+export const resolveProvider = (settings: ProviderSettings): ContentProvider =>
+  settings.provider === "openai-compatible"
+    ? createOpenAICompatibleProvider(settings)
+    : templateProvider;
+
+const sourceOf = (provider: ContentProvider): GenerationSource =>
+  provider.model
+    ? { provider: provider.id, model: provider.model }
+    : { provider: provider.id };
+
+const fallbackSource = (provider: ContentProvider): GenerationSource => ({
+  provider: "templates",
+  fallbackFrom: provider.id,
+});
+
+export interface ProviderResult<T> {
+  value: T;
+  /** Failures that were absorbed by falling back to templates. */
+  errors: string[];
+}
+
+/** Generates ideas through the configured provider, falling back to templates. */
+export async function generateIdeasWithProvider(
+  settings: ProviderSettings,
+  request: IdeaRequest,
+): Promise<ProviderResult<ContentIdea[]>> {
+  const provider = resolveProvider(settings);
+
+  try {
+    const ideas = await provider.generateIdeas(request);
+    const generatedBy = sourceOf(provider);
+    return {
+      value: ideas.map((idea) => ({ ...idea, generatedBy })),
+      errors: [],
+    };
+  } catch (error) {
+    if (provider === templateProvider) throw error;
+
+    const ideas = await templateProvider.generateIdeas(request);
+    const generatedBy = fallbackSource(provider);
+    return {
+      value: ideas.map((idea) => ({ ...idea, generatedBy })),
+      errors: [(error as Error).message],
+    };
+  }
+}
+
+/** Writes one caption through the configured provider, falling back to templates. */
+export async function writeCaptionWithProvider(
+  settings: ProviderSettings,
+  request: CaptionRequest,
+): Promise<ProviderResult<{ caption: string; generatedBy: GenerationSource }>> {
+  const provider = resolveProvider(settings);
+
+  try {
+    return {
+      value: {
+        caption: await provider.writeCaption(request),
+        generatedBy: sourceOf(provider),
+      },
+      errors: [],
+    };
+  } catch (error) {
+    if (provider === templateProvider) throw error;
+
+    return {
+      value: {
+        caption: await templateProvider.writeCaption(request),
+        generatedBy: fallbackSource(provider),
+      },
+      errors: [(error as Error).message],
+    };
+  }
+}
+
+/** Builds template drafts, then asks the provider to write each caption. */
+export async function draftsFromIdeaWithProvider(
+  settings: ProviderSettings,
+  idea: ContentIdea,
+  brand: BrandProfile,
+  campaign: Campaign,
+  existing: ContentDraft[] = [],
+): Promise<ProviderResult<ContentDraft[]>> {
+  const drafts = draftsFromIdea(idea, brand, campaign, existing);
+  const results = await Promise.all(
+    drafts.map((draft) =>
+      writeCaptionWithProvider(settings, {
+        idea,
+        brand,
+        platform: draft.platform,
+        hashtags: draft.hashtags,
+      }),
+    ),
+  );
+
+  return {
+    value: drafts.map((draft, index) => ({
+      ...draft,
+      ...results[index].value,
+    })),
+    errors: [...new Set(results.flatMap((result) => result.errors))],
+  };
+}
@@ -0,0 +1,280 @@
+import {
+  BrandProfile,
+  ContentDraft,
+  Platform,
+  ScoreCriterion,
+  ScoreWeights,
+} from "../types";
+import { pillarsCoveredBy } from "./brandVoice";
+import {
+  BLANK_LINE_SPACER,
+  measureCaption,
+  PLATFORM_RULES,
+} from "./platformRules";
+
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  hook: 3,
+  cta: 2,
+  readability: 2,
+  hashtags: 1,
+  length: 2,
+  pillars: 1,
+};
+
+/** Upper bound of the weight sliders; weights are relative, so any scale works. */
+export const MAX_SCORE_WEIGHT = 5;
+
+export const scoreCriteria: Record<ScoreCriterion, string> = {
+  hook: "Hook strength",
+  cta: "Call to action",
+  readability: "Readability",
+  hashtags: "Hashtag relevance",
+  length: "Length",
+  pillars: "Pillar coverage",
+};
+
+/** Measured length, hashtags included, that tends to perform per network. */
+const SWEET_SPOTS: Record<Platform, [number, number]> = {
+  Instagram: [125, 500],
+  LinkedIn: [600, 1300],
+  TikTok: [60, 300],
+  X: [70, 200],
+};
+
+/** Flesch reading ease a caption should reach; LinkedIn readers tolerate denser prose. */
+const READING_EASE_TARGETS: Record<Platform, number> = {
+  Instagram: 60,
+  LinkedIn: 50,
+  TikTok: 65,
+  X: 60,
+};
+
+const HOOK_SIGNALS: { label: string; pattern: RegExp }[] = [
+  { label: "a number", pattern: /\d/ },
+  { label: "a question", pattern: /\?/ },
+  { label: "direct address", pattern: /\byou(r|'re|’re)?\b/i },
+  { label: "an emoji", pattern: /\p{Extended_Pictographic}/u },
+  {
+    label: "a bold opener",
+    pattern: /^\W*(stop|steal|how|why|what|nobody|never|the secret)\b/i,
+  },
+];
+
+const CTA_LINE =
+  /^(cta:\s*)?(book|comment|dm|download|follow|grab|join|learn|register|reply|save|send|share|shop|sign up|subscribe|tap|tell|try|visit)\b/i;
+
+export interface CriterionScore {
+  id: ScoreCriterion;
+  label: string;
+  /** 0–1 before weighting. */
+  score: number;
+  weight: number;
+  /** Share of the 100-point total this criterion earned. */
+  points: number;
+  /** Share of the 100-point total this criterion could earn. */
+  maxPoints: number;
+  note: string;
+}
+
+export interface QualityBreakdown {
+  total: number;
+  criteria: CriterionScore[];
+}
+
+type ScoredDraft = Pick<ContentDraft, "caption" | "hashtags" | "platform">;
+type Evaluation = { score: number; note: string };
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const contentLines = (caption: string) =>
+  caption
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(
+      (line) =>
+        line && line !== BLANK_LINE_SPACER && !/^(#\S+\s*)+$/.test(line),
+    );
+
+function evaluateHook(draft: ScoredDraft): Evaluation {
+  const [firstLine = ""] = contentLines(draft.caption);
+  const fold = PLATFORM_RULES[draft.platform].truncateAt;
+  const length = [...firstLine].length;
+  if (!length) return { score: 0, note: "No opening line" };
+
+  const signals = HOOK_SIGNALS.filter(({ pattern }) => pattern.test(firstLine));
+  const fits = length <= fold;
+  const score =
+    (fits ? 0.4 : 0.1) +
+    Math.min(signals.length, 2) * 0.3 -
+    (length < 15 ? 0.2 : 0);
+
+  return {
+    score: clamp(score),
+    note: [
+      fits
+        ? `Opens in ${length} chars, above the fold`
+        : `Opening line runs past the ${fold}-char fold`,
+      signals.length
+        ? `uses ${signals.map(({ label }) => label).join(", ")}`
+        : "no number, question or direct address",
+    ].join("; "),
+  };
+}
+
+function evaluateCta(draft: ScoredDraft, brand: BrandProfile): Evaluation {
+  const lines = contentLines(draft.caption);
+  const brandCta = brand.callToAction.trim().toLowerCase();
+  const ctaIndex = lines.findIndex(
+    (line) =>
+      CTA_LINE.test(line) ||
+      (!!brandCta && line.toLowerCase().includes(brandCta)),
+  );
+
+  if (ctaIndex === -1) {
+    return { score: 0, note: "No call to action found" };
+  }
+  if (ctaIndex >= lines.length - 2) {
+    return { score: 1, note: "Closes with a call to action" };
+  }
+  return {
+    score: 0.6,
+    note: "Call to action is buried mid-caption; move it to the end",
+  };
+}
+
+/** Vowel groups, minus a silent trailing "e": close enough for English. */
+const syllables = (word: string) => {
+  const groups = word
+    .toLowerCase()
+    .replace(/e$/, "")
+    .match(/[aeiouy]+/g);
+  return Math.max(1, groups?.length ?? 0);
+};
+
+function evaluateReadability(draft: ScoredDraft): Evaluation {
+  const text = contentLines(draft.caption).join("\n");
+  const words = text.match(/[A-Za-z][A-Za-z'’-]*/g) ?? [];
+  if (!words.length) return { score: 0, note: "No words to read" };
+
+  const sentences = Math.max(
+    1,
+    text.split(/[.!?]+|\n+/).filter((part) => /[A-Za-z]/.test(part)).length,
+  );
+  const wordsPerSentence = words.length / sentences;
+  const syllablesPerWord =
+    words.reduce((sum, word) => sum + syllables(word), 0) / words.length;
+  const ease = 206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord;
+  const target = READING_EASE_TARGETS[draft.platform];
+
+  return {
+    score: clamp((ease - (target - 40)) / 40),
+    note: `Reading ease ${Math.round(ease)} (aim for ${target}+), ${wordsPerSentence.toFixed(1)} words per sentence`,
+  };
+}
+
+const normalizeTag = (tag: string) =>
+  tag.trim().replace(/^#/, "").toLowerCase();
+
+function evaluateHashtags(draft: ScoredDraft, brand: BrandProfile): Evaluation {
+  const brandTags = new Set(brand.hashtags.map(normalizeTag).filter(Boolean));
+  if (!draft.hashtags.length) {
+    return { score: 0, note: "No hashtags" };
+  }
+  if (!brandTags.size) {
+    return { score: 1, note: "Brand has no hashtags to match against" };
+  }
+
+  const relevant = draft.hashtags.filter((tag) =>
+    brandTags.has(normalizeTag(tag)),
+  ).length;
+
+  return {
+    score: relevant ? 0.6 + 0.4 * (relevant / draft.hashtags.length) : 0.2,
+    note: `${relevant} of ${draft.hashtags.length} hashtags come from the brand set`,
+  };
+}
+
+function evaluateLength(draft: ScoredDraft): Evaluation {
+  const length = measureCaption(draft.caption, draft.hashtags, draft.platform);
+  const [min, max] = SWEET_SPOTS[draft.platform];
+  const range = `${draft.platform} sweet spot is ${min}–${max}`;
+
+  if (length < min) {
+    return {
+      score: clamp(length / min),
+      note: `${length} chars, short; ${range}`,
+    };
+  }
+  if (length > max) {
+    return {
+      score: clamp(1 - (length - max) / max),
+      note: `${length} chars, long; ${range}`,
+    };
+  }
+  return { score: 1, note: `${length} chars; ${range}` };
+}
+
+function evaluatePillars(draft: ScoredDraft, brand: BrandProfile): Evaluation {
+  const pillars = brand.pillars.filter((pillar) => pillar.trim());
+  if (!pillars.length) {
+    return { score: 1, note: "Brand has no pillars defined" };
+  }
+
+  const covered = pillarsCoveredBy(draft.caption, pillars);
+
+  return covered.length
+    ? {
+        score: clamp(0.7 + 0.3 * (covered.length - 1)),
+        note: `Touches ${covered.join(", ")}`,
+      }
+    : { score: 0, note: "Doesn't mention any brand pillar" };
+}
+
+const evaluators: Record<
+  ScoreCriterion,
+  (draft: ScoredDraft, brand: BrandProfile) => Evaluation
+> = {
+  hook: evaluateHook,
+  cta: evaluateCta,
+  readability: evaluateReadability,
+  hashtags: evaluateHashtags,
+  length: evaluateLength,
+  pillars: evaluatePillars,
+};
+
+/**
+ * Scores a draft out of 100 as the weighted mean of each criterion, and
+ * keeps the per-criterion notes so the number can be explained.
+ */
+export function scoreDraft(
+  draft: ScoredDraft,
+  brand: BrandProfile,
+  weights: ScoreWeights = DEFAULT_SCORE_WEIGHTS,
+): QualityBreakdown {
+  const ids = Object.keys(scoreCriteria) as ScoreCriterion[];
+  const totalWeight = ids.reduce(
+    (sum, id) => sum + Math.max(0, weights[id]),
+    0,
+  );
+
+  const criteria = ids.map((id) => {
+    const weight = Math.max(0, weights[id]);
+    const { score, note } = evaluators[id](draft, brand);
+    const maxPoints = totalWeight ? (weight / totalWeight) * 100 : 0;
+
+    return {
+      id,
+      label: scoreCriteria[id],
+      score,
+      weight,
+      points: score * maxPoints,
+      maxPoints,
+      note,
+    };
+  });
+
+  return {
+    total: Math.round(criteria.reduce((sum, item) => sum + item.points, 0)),
+    criteria,
+  };
+}
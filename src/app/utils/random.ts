@@ -0,0 +1,36 @@
+/** Returns a float in [0, 1), like `Math.random`. */
+export type Rng = () => number;
+
+export const createSeed = () =>
+  Math.floor(Math.random() * 0xffffffff)
+    .toString(36)
+    .padStart(7, "0");
+
+/** FNV-1a hash so any string can be used as a seed. */
+export function hashSeed(value: string) {
+  let hash = 0x811c9dc5;
+
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+/** Mulberry32: small, fast and good enough for picking templates. */
+export function createRng(seed: string): Rng {
+  let state = hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Integer in [min, max] inclusive. */
+export const randomInt = (rng: Rng, min: number, max: number) =>
+  Math.floor(rng() * (max - min + 1)) + min;
@@ -0,0 +1,93 @@
+import {
+  Campaign,
+  ContentDraft,
+  DraftReview,
+  ReviewComment,
+  ReviewDecision,
+} from "../types";
+
+const emptyReview: DraftReview = { comments: [], decisions: [] };
+
+/** The sign-off that counts: a later decision overrides an earlier one. */
+export const latestDecision = (draft: ContentDraft) =>
+  draft.review?.decisions.at(-1);
+
+/** What a reviewer signs off: the post as it will go out, media included. */
+export const reviewedContent = (draft: ContentDraft) =>
+  JSON.stringify([
+    draft.platform,
+    draft.caption,
+    draft.hashtags,
+    (draft.parts ?? []).map((part) => part.text),
+    draft.assetIds ?? [],
+  ]);
+
+export const isApproved = (draft: ContentDraft) => {
+  const decision = latestDecision(draft);
+  return (
+    decision?.verdict === "approved" &&
+    decision.content === reviewedContent(draft)
+  );
+};
+
+/** Approved, but edited since, e.g. after being sent back or a variant pick. */
+export const isApprovalOutdated = (draft: ContentDraft) =>
+  latestDecision(draft)?.verdict === "approved" && !isApproved(draft);
+
+/** True when the campaign's approval rule still blocks scheduling. */
+export const needsApproval = (draft: ContentDraft, campaign?: Campaign) =>
+  !!campaign?.requiresApproval && !isApproved(draft);
+
+export const describeDecision = (decision: ReviewDecision) =>
+  decision.verdict === "approved"
+    ? `Approved by ${decision.reviewer}`
+    : `Changes requested by ${decision.reviewer}`;
+
+export const withComment = (
+  draft: ContentDraft,
+  comment: ReviewComment,
+): DraftReview => {
+  const review = draft.review ?? emptyReview;
+  return { ...review, comments: [...review.comments, comment] };
+};
+
+export const withDecision = (
+  draft: ContentDraft,
+  decision: ReviewDecision,
+): DraftReview => {
+  const review = draft.review ?? emptyReview;
+  return {
+    ...review,
+    decisions: [
+      ...review.decisions,
+      { ...decision, content: reviewedContent(draft) },
+    ],
+  };
+};
+
+export interface CommentThread {
+  comment: ReviewComment;
+  replies: CommentThread[];
+}
+
+/**
+ * Nests replies under the comment they answer, oldest first. A reply whose
+ * parent is gone starts its own thread rather than disappearing.
+ */
+export function commentThreads(comments: ReviewComment[]): CommentThread[] {
+  const ids = new Set(comments.map((comment) => comment.id));
+  const sorted = [...comments].sort((a, b) =>
+    a.createdAt.localeCompare(b.createdAt),
+  );
+
+  const build = (parentId?: string): CommentThread[] =>
+    sorted
+      .filter((comment) =>
+        parentId
+          ? comment.replyTo === parentId
+          : !comment.replyTo || !ids.has(comment.replyTo),
+      )
+      .map((comment) => ({ comment, replies: build(comment.id) }));
+
+  return build();
+}
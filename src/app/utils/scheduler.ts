@@ -0,0 +1,381 @@
+import { Campaign, ContentDraft, Platform } from "../types";
+import {
+  addDaysToKey,
+  audienceTimezone,
+  isDayKey,
+  startOfZonedDay,
+  weekdayOfKey,
+  zonedDayKey,
+  zonedToInstant,
+} from "./timezone";
+
+export interface PostingWindow {
+  /** Days of the week, 0 = Sunday. */
+  days: number[];
+  /** Whole hours on the audience's clock; `to` is exclusive. */
+  from: number;
+  to: number;
+}
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+/** When each network's audience is most likely to be scrolling. */
+export const POSTING_WINDOWS: Record<Platform, PostingWindow[]> = {
+  Instagram: [
+    { days: EVERY_DAY, from: 11, to: 13 },
+    { days: EVERY_DAY, from: 19, to: 21 },
+  ],
+  LinkedIn: [
+    { days: [2, 3, 4], from: 8, to: 10 },
+    { days: WEEKDAYS, from: 12, to: 13 },
+  ],
+  TikTok: [
+    { days: EVERY_DAY, from: 12, to: 14 },
+    { days: EVERY_DAY, from: 18, to: 22 },
+  ],
+  X: [
+    { days: WEEKDAYS, from: 9, to: 11 },
+    { days: WEEKDAYS, from: 17, to: 18 },
+  ],
+};
+
+/** Shortest spacing between two posts on one channel, across campaigns. */
+export const MIN_GAP_HOURS: Record<Platform, number> = {
+  Instagram: 20,
+  LinkedIn: 24,
+  TikTok: 12,
+  X: 4,
+};
+
+const SLOT_MINUTES = 30;
+/** Nothing is placed sooner than this from now. */
+const LEAD_MINUTES = 30;
+/** How far ahead to look when the timeline is over or unset. */
+const FALLBACK_DAYS = 14;
+
+const HOUR = 3_600_000;
+
+export interface ScheduleResult {
+  /** New ISO schedule per draft id, only for drafts that moved. */
+  schedules: Record<string, string>;
+  /** Drafts that could only go closer than their channel's minimum gap. */
+  crowded: string[];
+}
+
+/** Already live or handed to the publisher, so its time is history. */
+export const isReschedulable = (draft: ContentDraft) =>
+  draft.stage !== "published" && !draft.publication;
+
+/**
+ * A scheduled drop moved closer than the lead time (or into the past) would
+ * go out on the publisher's next run instead of at a planned slot.
+ */
+export const isTooSoon = (draft: ContentDraft, schedule: string, now: Date) =>
+  draft.stage === "scheduled" &&
+  !(new Date(schedule).getTime() >= now.getTime() + LEAD_MINUTES * 60_000);
+
+const time = (draft: ContentDraft) => new Date(draft.schedule).getTime();
+
+/**
+ * The stretch of `campaign.timeline` still ahead of `now`, in epoch ms. The
+ * timeline's days begin and end at midnight in the campaign's timezone.
+ */
+export function campaignSpan(campaign: Campaign, now: Date) {
+  const { timezone, timeline } = campaign;
+  const earliest = now.getTime() + LEAD_MINUTES * 60_000;
+  const start = Math.max(
+    isDayKey(timeline.start)
+      ? startOfZonedDay(timeline.start, timezone).getTime()
+      : earliest,
+    earliest,
+  );
+
+  let end = isDayKey(timeline.end)
+    ? startOfZonedDay(addDaysToKey(timeline.end, 1), timezone).getTime()
+    : Number.NaN;
+  if (!(end > start)) {
+    const startKey = zonedDayKey(new Date(start), timezone);
+    end = startOfZonedDay(
+      addDaysToKey(startKey, FALLBACK_DAYS),
+      timezone,
+    ).getTime();
+  }
+
+  return { start, end };
+}
+
+/**
+ * Every slot inside the platform's posting windows between `start` and
+ * `end`, on the clocks of the channel's audience.
+ */
+function candidateSlots(
+  campaign: Campaign,
+  platform: Platform,
+  start: number,
+  end: number,
+) {
+  const zone = audienceTimezone(campaign, platform);
+  const slots = new Set<number>();
+
+  // Stepping calendar days rather than 24h keeps slots on the wall clock
+  // across DST changes.
+  for (
+    let key = zonedDayKey(new Date(start), zone);
+    startOfZonedDay(key, zone).getTime() < end;
+    key = addDaysToKey(key, 1)
+  ) {
+    const [year, month, day] = key.split("-").map(Number);
+    POSTING_WINDOWS[platform]
+      .filter((window) => window.days.includes(weekdayOfKey(key)))
+      .forEach((window) => {
+        for (
+          let minute = window.from * 60;
+          minute < window.to * 60;
+          minute += SLOT_MINUTES
+        ) {
+          const slot = zonedToInstant(
+            {
+              year,
+              month,
+              day,
+              hour: Math.floor(minute / 60),
+              minute: minute % 60,
+            },
+            zone,
+          ).getTime();
+          if (slot >= start && slot < end) slots.add(slot);
+        }
+      });
+  }
+
+  return [...slots].sort((a, b) => a - b);
+}
+
+/** Unparseable schedules are ignored rather than blocking every slot. */
+const distanceTo = (value: number, taken: number[]) =>
+  taken.reduce(
+    (closest, other) =>
+      Number.isNaN(other)
+        ? closest
+        : Math.min(closest, Math.abs(value - other)),
+    Infinity,
+  );
+
+/**
+ * The free slot closest to `target`. When every slot is within `gap` of a
+ * taken one, the slot furthest from its neighbours is used instead.
+ */
+function nearestFreeSlot(
+  slots: number[],
+  target: number,
+  taken: number[],
+  gap: number,
+) {
+  const free = slots.filter((slot) => distanceTo(slot, taken) >= gap);
+  if (free.length) {
+    const best = free.reduce((current, slot) =>
+      Math.abs(slot - target) < Math.abs(current - target) ? slot : current,
+    );
+    return { slot: best, crowded: false };
+  }
+
+  const roomiest = slots.reduce<number | null>(
+    (current, slot) =>
+      current === null || distanceTo(slot, taken) > distanceTo(current, taken)
+        ? slot
+        : current,
+    null,
+  );
+  return { slot: roomiest ?? target, crowded: true };
+}
+
+/** Middle of the widest stretch between `times` inside the span. */
+function widestGapMiddle(times: number[], start: number, end: number) {
+  const edges = [
+    start,
+    ...times.filter((value) => value > start && value < end),
+    end,
+  ].sort((a, b) => a - b);
+
+  let middle = (start + end) / 2;
+  let widest = -1;
+  edges.slice(1).forEach((edge, index) => {
+    const width = edge - edges[index];
+    if (width > widest) {
+      widest = width;
+      middle = edges[index] + width / 2;
+    }
+  });
+  return middle;
+}
+
+/**
+ * Places new drafts for `campaign`, each into the widest opening its channel
+ * has in the campaign, without crowding posts from any campaign.
+ */
+export function placeNewDrafts(
+  drafts: ContentDraft[],
+  campaign: Campaign,
+  existing: ContentDraft[],
+  now = new Date(),
+): ScheduleResult {
+  const { start, end } = campaignSpan(campaign, now);
+  const result: ScheduleResult = { schedules: {}, crowded: [] };
+  const placed: { platform: Platform; campaignId: string; at: number }[] =
+    existing.map((draft) => ({
+      platform: draft.platform,
+      campaignId: draft.campaignId,
+      at: time(draft),
+    }));
+
+  drafts.forEach((draft) => {
+    const channel = placed.filter((item) => item.platform === draft.platform);
+    const target = widestGapMiddle(
+      channel
+        .filter((item) => item.campaignId === campaign.id)
+        .map((item) => item.at),
+      start,
+      end,
+    );
+    const { slot, crowded } = nearestFreeSlot(
+      candidateSlots(campaign, draft.platform, start, end),
+      target,
+      channel.map((item) => item.at),
+      MIN_GAP_HOURS[draft.platform] * HOUR,
+    );
+
+    result.schedules[draft.id] = new Date(slot).toISOString();
+    if (crowded) result.crowded.push(draft.id);
+    placed.push({
+      platform: draft.platform,
+      campaignId: campaign.id,
+      at: slot,
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Spreads the campaign's unpublished drafts evenly over what is left of its
+ * timeline, channel by channel, keeping `pinned` drafts and series episodes
+ * where they are and steering clear of other campaigns' posts.
+ */
+export function reflowCampaign(
+  campaign: Campaign,
+  drafts: ContentDraft[],
+  { pinned = [], now = new Date() }: { pinned?: string[]; now?: Date } = {},
+): ScheduleResult {
+  const { start, end } = campaignSpan(campaign, now);
+  const result: ScheduleResult = { schedules: {}, crowded: [] };
+  const movable = (draft: ContentDraft) =>
+    draft.campaignId === campaign.id &&
+    isReschedulable(draft) &&
+    !draft.seriesId &&
+    !pinned.includes(draft.id);
+
+  new Set(drafts.filter(movable).map((draft) => draft.platform)).forEach(
+    (platform) => {
+      const channel = drafts.filter((draft) => draft.platform === platform);
+      const moving = channel
+        .filter(movable)
+        .sort((a, b) => time(a) - time(b) || a.id.localeCompare(b.id));
+      const taken = channel
+        .filter((draft) => !movable(draft))
+        .map(time)
+        .filter((value) => !Number.isNaN(value));
+      const slots = candidateSlots(campaign, platform, start, end);
+      const step = (end - start) / moving.length;
+
+      moving.forEach((draft, index) => {
+        const { slot, crowded } = nearestFreeSlot(
+          slots,
+          start + step * (index + 0.5),
+          taken,
+          MIN_GAP_HOURS[platform] * HOUR,
+        );
+        taken.push(slot);
+        if (crowded) result.crowded.push(draft.id);
+        if (slot !== time(draft)) {
+          result.schedules[draft.id] = new Date(slot).toISOString();
+        }
+      });
+    },
+  );
+
+  return result;
+}
+
+/**
+ * After `moved` is given a new time, shifts the campaign's other drafts on
+ * the same channel that now sit too close to it to their nearest free slot.
+ * Series episodes keep their slot.
+ */
+export function resolveCollisions(
+  campaign: Campaign,
+  drafts: ContentDraft[],
+  moved: ContentDraft,
+  now = new Date(),
+): ScheduleResult {
+  const { start, end } = campaignSpan(campaign, now);
+  const result: ScheduleResult = { schedules: {}, crowded: [] };
+  const gap = MIN_GAP_HOURS[moved.platform] * HOUR;
+  const channel = drafts.filter(
+    (draft) => draft.platform === moved.platform && draft.id !== moved.id,
+  );
+  const colliding = channel.filter(
+    (draft) =>
+      draft.campaignId === campaign.id &&
+      isReschedulable(draft) &&
+      !draft.seriesId &&
+      Math.abs(time(draft) - time(moved)) < gap,
+  );
+  const taken = [
+    time(moved),
+    ...channel.filter((draft) => !colliding.includes(draft)).map(time),
+  ];
+  const slots = candidateSlots(campaign, moved.platform, start, end);
+
+  colliding.forEach((draft) => {
+    const { slot, crowded } = nearestFreeSlot(slots, time(draft), taken, gap);
+    taken.push(slot);
+    if (crowded) result.crowded.push(draft.id);
+    result.schedules[draft.id] = new Date(slot).toISOString();
+  });
+
+  return result;
+}
+
+/** Other-channel posts are fine; same-channel ones closer than the gap are not. */
+export function crowdedNeighbours(draft: ContentDraft, drafts: ContentDraft[]) {
+  const gap = MIN_GAP_HOURS[draft.platform] * HOUR;
+  return drafts.filter(
+    (other) =>
+      other.id !== draft.id &&
+      other.platform === draft.platform &&
+      Math.abs(time(other) - time(draft)) < gap,
+  );
+}
+
+/** Applies `result.schedules` to the matching drafts. */
+export const withSchedules = (
+  drafts: ContentDraft[],
+  { schedules }: ScheduleResult,
+) =>
+  drafts.map((draft) =>
+    schedules[draft.id] ? { ...draft, schedule: schedules[draft.id] } : draft,
+  );
+
+/** `3 drops re-timed, 1 closer than the channel gap allows`, or "". */
+export function describeSchedule({ schedules, crowded }: ScheduleResult) {
+  const moved = Object.keys(schedules).length;
+  return [
+    moved ? `${moved} drop${moved === 1 ? "" : "s"} re-timed` : "",
+    crowded.length
+      ? `${crowded.length} closer than the channel gap allows`
+      : "",
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
@@ -0,0 +1,245 @@
+import { describe, expect, it } from "vitest";
+import { AgentState } from "../types";
+import { DEFAULT_EVERGREEN } from "./evergreen";
+import { DEFAULT_SCORE_WEIGHTS } from "./quality";
+import {
+  CURRENT_SCHEMA_VERSION,
+  migrateAgentState,
+  migrations,
+} from "./schema";
+import { browserTimezone } from "./timezone";
+import { blankWorkspaceState } from "./workspaces";
+
+const fallback: AgentState = blankWorkspaceState(
+  "Fallback",
+  new Date("2026-03-01T12:00:00Z"),
+);
+
+const campaign = {
+  id: "c1",
+  title: "Launch",
+  objective: "",
+  audience: "",
+  offer: "",
+  platforms: ["X"],
+  timeline: { start: "2026-03-01", end: "2026-03-14" },
+};
+
+const draft = {
+  id: "d1",
+  ideaId: "i1",
+  campaignId: "c1",
+  platform: "X",
+  caption: "Ship it",
+  hashtags: ["#launch"],
+  assetBrief: "",
+  schedule: "2026-03-02T09:00:00.000Z",
+  stage: "drafts",
+};
+
+const step = (from: number, state: Record<string, unknown>) =>
+  migrations[from](state, "UTC");
+
+describe("migrations", () => {
+  it("has one step for every version below the current one", () => {
+    expect(Object.keys(migrations).map(Number)).toEqual(
+      Array.from({ length: CURRENT_SCHEMA_VERSION - 1 }, (_, i) => i + 1),
+    );
+  });
+
+  it("1 → 2 dates drafts and drops non-numeric metrics", () => {
+    const next = step(1, {
+      ideas: [{ id: "i1", createdAt: "2026-02-01T00:00:00.000Z" }],
+      drafts: [
+        { ...draft, metrics: { impressions: "lots", engagements: 3 } },
+        { ...draft, id: "d2", ideaId: "gone" },
+        { ...draft, id: "d3", createdAt: "2026-01-15T00:00:00.000Z" },
+      ],
+    });
+    const [fromIdea, fromSchedule, kept] = next.drafts as Record<
+      string,
+      unknown
+    >[];
+
+    expect(fromIdea.createdAt).toBe("2026-02-01T00:00:00.000Z");
+    expect(fromIdea).not.toHaveProperty("metrics");
+    expect(fromSchedule.createdAt).toBe(draft.schedule);
+    expect(kept.createdAt).toBe("2026-01-15T00:00:00.000Z");
+  });
+
+  it("2 → 3 turns a metrics snapshot into a manual reading", () => {
+    const next = step(2, {
+      drafts: [{ ...draft, metrics: { impressions: 120, engagements: 9 } }],
+    });
+    const [upgraded] = next.drafts as Record<string, unknown>[];
+
+    expect(upgraded.metrics).toEqual([
+      {
+        capturedAt: expect.any(String),
+        impressions: 120,
+        engagements: 9,
+        source: "manual",
+      },
+    ]);
+  });
+
+  it("3 → 4 adds the default score weights", () => {
+    expect(step(3, {}).scoreWeights).toEqual(DEFAULT_SCORE_WEIGHTS);
+  });
+
+  it("4 → 5 gives the brand an empty banned phrase list", () => {
+    expect(step(4, { brand: { name: "Orbit" } }).brand).toEqual({
+      name: "Orbit",
+      bannedPhrases: [],
+    });
+    expect(step(4, { brand: { bannedPhrases: ["synergy"] } }).brand).toEqual({
+      bannedPhrases: ["synergy"],
+    });
+  });
+
+  it("5 → 6 leaves approval off with no reviewers", () => {
+    const next = step(5, {
+      campaigns: [campaign, { ...campaign, requiresApproval: true }],
+    });
+
+    expect(next.campaigns).toEqual([
+      { ...campaign, requiresApproval: false, reviewers: [] },
+      { ...campaign, requiresApproval: true, reviewers: [] },
+    ]);
+  });
+
+  it("6 → 7 plans campaigns on the viewer's clock unless they have a zone", () => {
+    const next = migrations[6](
+      { campaigns: [campaign, { ...campaign, timezone: "Asia/Tokyo" }] },
+      "America/Chicago",
+    );
+    const [guessed, kept] = next.campaigns as Record<string, unknown>[];
+
+    expect(guessed.timezone).toBe("America/Chicago");
+    expect(kept.timezone).toBe("Asia/Tokyo");
+  });
+
+  it("7 → 8 adds no series and the default evergreen settings", () => {
+    const [upgraded] = step(7, { campaigns: [campaign] }).campaigns as Record<
+      string,
+      unknown
+    >[];
+
+    expect(upgraded.series).toEqual([]);
+    expect(upgraded.evergreen).toEqual(DEFAULT_EVERGREEN);
+  });
+
+  it("8 → 9 starts an empty asset library", () => {
+    expect(step(8, { drafts: [] }).assets).toEqual([]);
+  });
+});
+
+describe("migrateAgentState", () => {
+  it("upgrades an unversioned payload through every step", () => {
+    const { state, report } = migrateAgentState(
+      {
+        brand: { ...fallback.brand, bannedPhrases: undefined },
+        campaigns: [campaign],
+        ideas: [],
+        drafts: [{ ...draft, metrics: { impressions: 50, engagements: 5 } }],
+        events: [],
+      },
+      fallback,
+    );
+
+    expect(report).toMatchObject({
+      fromVersion: 1,
+      toVersion: CURRENT_SCHEMA_VERSION,
+    });
+    expect(state.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(state.campaigns[0]).toMatchObject({
+      requiresApproval: false,
+      evergreen: DEFAULT_EVERGREEN,
+    });
+    expect(state.drafts[0].metrics).toHaveLength(1);
+    expect(state.assets).toEqual([]);
+  });
+
+  it("repairs malformed fields with defaults", () => {
+    const { state, report } = migrateAgentState(
+      { ...fallback, drafts: [{ ...draft, stage: "limbo", schedule: "soon" }] },
+      fallback,
+    );
+
+    expect(state.drafts[0].stage).toBe("drafts");
+    expect(state.drafts[0].schedule).toBe(state.drafts[0].createdAt);
+    // Stage, schedule and the missing createdAt.
+    expect(report.repaired).toBe(3);
+    expect(report.quarantined).toBe(0);
+  });
+
+  it("quarantines records it can't repair and keeps the rest", () => {
+    const { state, report } = migrateAgentState(
+      {
+        ...fallback,
+        campaigns: [campaign, { title: "No id" }],
+        drafts: [draft, { ...draft, id: "d2", platform: "Myspace" }],
+        assets: [{ id: "a1", kind: "audio" }],
+      },
+      fallback,
+    );
+
+    expect(state.campaigns.map((item) => item.id)).toEqual(["c1"]);
+    expect(state.drafts.map((item) => item.id)).toEqual(["d1"]);
+    expect(state.assets).toEqual([]);
+    expect(report.quarantined).toBe(3);
+    expect(
+      state.quarantine.map(({ collection, reason }) => [collection, reason]),
+    ).toEqual([
+      ["campaigns", "Campaign has no id"],
+      ["drafts", "Unknown platform Myspace"],
+      ["assets", "Unknown asset kind audio"],
+    ]);
+  });
+
+  it("gives campaigns without a valid zone the caller's, else the viewer's", () => {
+    const payload = {
+      ...fallback,
+      campaigns: [{ ...fallback.campaigns[0], timezone: "Mars/Olympus" }],
+    };
+
+    expect(
+      migrateAgentState(payload, fallback, "UTC").state.campaigns[0].timezone,
+    ).toBe("UTC");
+    expect(
+      migrateAgentState(payload, fallback).state.campaigns[0].timezone,
+    ).toBe(browserTimezone());
+  });
+
+  it("falls back for anything that isn't a state object", () => {
+    expect(migrateAgentState("corrupt", fallback)).toEqual({
+      state: fallback,
+      report: {
+        fromVersion: CURRENT_SCHEMA_VERSION,
+        toVersion: CURRENT_SCHEMA_VERSION,
+        repaired: 0,
+        quarantined: 1,
+      },
+    });
+  });
+
+  it("keeps a workspace whose campaigns were all deleted empty", () => {
+    const { state } = migrateAgentState(
+      { ...fallback, campaigns: [] },
+      fallback,
+    );
+
+    expect(state.campaigns).toEqual([]);
+  });
+
+  it("keeps the version of a payload from a newer app", () => {
+    const newer = CURRENT_SCHEMA_VERSION + 3;
+    const { state, report } = migrateAgentState(
+      { ...fallback, schemaVersion: newer, campaigns: [campaign] },
+      fallback,
+    );
+
+    expect(state.schemaVersion).toBe(newer);
+    expect(report).toMatchObject({ fromVersion: newer, toVersion: newer });
+  });
+});
@@ -0,0 +1,722 @@
+import {
+  AgentEvent,
+  AgentState,
+  BrandProfile,
+  Campaign,
+  CaptionVariant,
+  ContentDraft,
+  ContentIdea,
+  ContentSeries,
+  DraftPart,
+  DraftReview,
+  EntityRef,
+  HashtagSet,
+  MediaAsset,
+  MetricSample,
+  MetricSource,
+  PipelineStage,
+  Platform,
+  QuarantinedRecord,
+  ReviewComment,
+  ReviewDecision,
+  ScoreWeights,
+  StateChange,
+  TemplatePick,
+  VariantTag,
+} from "../types";
+import { DEFAULT_EVERGREEN } from "./evergreen";
+import { DEFAULT_SCORE_WEIGHTS, scoreCriteria } from "./quality";
+import { isRuleTime } from "./series";
+import { browserTimezone, isValidTimezone } from "./timezone";
+
+/**
+ * Version of the persisted `AgentState` shape. Bump it together with a new
+ * entry in `migrations` whenever stored data needs reshaping.
+ */
+export const CURRENT_SCHEMA_VERSION = 9;
+
+/** Payloads saved before versioning existed are treated as version 1. */
+const LEGACY_SCHEMA_VERSION = 1;
+
+type RawRecord = Record<string, unknown>;
+/** `timezone` stands in wherever a record has no zone of its own. */
+type Migration = (state: RawRecord, timezone: string) => RawRecord;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isValidDate = (value: unknown): value is string =>
+  isString(value) && !Number.isNaN(new Date(value).getTime());
+
+const asArray = (value: unknown) => (Array.isArray(value) ? value : []);
+
+const PLATFORMS: Platform[] = ["Instagram", "LinkedIn", "TikTok", "X"];
+const STAGES: PipelineStage[] = [
+  "ideas",
+  "drafts",
+  "in_review",
+  "scheduled",
+  "published",
+];
+const TONES: AgentEvent["tone"][] = ["info", "success", "warning"];
+const METRIC_SOURCES: MetricSource[] = ["manual", "csv", "connector"];
+
+const isPlatform = (value: unknown): value is Platform =>
+  PLATFORMS.includes(value as Platform);
+
+const isCount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+const isMetricSample = (value: unknown): value is MetricSample =>
+  isRecord(value) &&
+  isValidDate(value.capturedAt) &&
+  isCount(value.impressions) &&
+  isCount(value.engagements) &&
+  METRIC_SOURCES.includes(value.source as MetricSource);
+
+const PICK_REASONS: TemplatePick["reason"][] = [
+  "exploit",
+  "explore",
+  "untested",
+];
+
+const isTemplatePick = (value: unknown): value is TemplatePick =>
+  isRecord(value) &&
+  isString(value.value) &&
+  isCount(value.posts) &&
+  (value.lift === null ||
+    (typeof value.lift === "number" && Number.isFinite(value.lift))) &&
+  PICK_REASONS.includes(value.reason as TemplatePick["reason"]);
+
+const isTemplatePicks = (value: unknown) =>
+  isRecord(value) &&
+  ["angle", "visual", "hook"].every((slot) => isTemplatePick(value[slot])) &&
+  (value.cta === undefined || isTemplatePick(value.cta));
+
+const VERDICTS: ReviewDecision["verdict"][] = ["approved", "changes_requested"];
+
+const isReviewComment = (value: unknown): value is ReviewComment =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.author) &&
+  isString(value.body) &&
+  isValidDate(value.createdAt) &&
+  (value.replyTo === undefined || isString(value.replyTo));
+
+const isReviewDecision = (value: unknown): value is ReviewDecision =>
+  isRecord(value) &&
+  isString(value.reviewer) &&
+  VERDICTS.includes(value.verdict as ReviewDecision["verdict"]) &&
+  isValidDate(value.decidedAt) &&
+  (value.content === undefined || isString(value.content));
+
+/** Keeps every intact comment and decision rather than dropping the thread. */
+const repairReview = (value: unknown): DraftReview | undefined => {
+  if (!isRecord(value)) return undefined;
+  const comments = asArray(value.comments).filter(isReviewComment);
+  const decisions = asArray(value.decisions).filter(isReviewDecision);
+  return comments.length || decisions.length
+    ? { comments, decisions }
+    : undefined;
+};
+
+const CHANGED_COLLECTIONS: StateChange["collection"][] = [
+  "brand",
+  "scoreWeights",
+  "campaigns",
+  "ideas",
+  "drafts",
+  "assets",
+];
+const CHANGE_KINDS: StateChange["kind"][] = ["added", "removed", "changed"];
+
+const isStateChange = (value: unknown): value is StateChange =>
+  isRecord(value) &&
+  CHANGED_COLLECTIONS.includes(value.collection as StateChange["collection"]) &&
+  CHANGE_KINDS.includes(value.kind as StateChange["kind"]) &&
+  (value.id === undefined || isString(value.id)) &&
+  (value.before === undefined || isRecord(value.before)) &&
+  (value.after === undefined || isRecord(value.after)) &&
+  (value.index === undefined || isCount(value.index));
+
+const HASHTAG_SETS: HashtagSet[] = ["mixed", "brand", "platform"];
+
+const isVariantTag = (value: unknown): value is VariantTag =>
+  isRecord(value) &&
+  isString(value.label) &&
+  isString(value.hook) &&
+  isString(value.cta) &&
+  HASHTAG_SETS.includes(value.hashtagSet as HashtagSet) &&
+  (value.testId === undefined || isString(value.testId));
+
+const isCaptionVariant = (value: unknown): value is CaptionVariant =>
+  isRecord(value) &&
+  isVariantTag(value) &&
+  isString(value.id) &&
+  isString(value.caption) &&
+  Array.isArray(value.hashtags) &&
+  value.hashtags.every(isString);
+
+const isDraftPart = (value: unknown): value is DraftPart =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.text) &&
+  isString(value.assetBrief);
+
+const isContentSeries = (value: unknown): value is ContentSeries =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  isString(value.brief) &&
+  asArray(value.platforms).every(isPlatform) &&
+  isRecord(value.rule) &&
+  isCount(value.rule.intervalWeeks) &&
+  value.rule.intervalWeeks > 0 &&
+  asArray(value.rule.weekdays).every(
+    (day) => isCount(day) && (day as number) < 7,
+  ) &&
+  isString(value.rule.time) &&
+  isRuleTime(value.rule.time);
+
+const ENTITY_TYPES: EntityRef["type"][] = ["campaign", "idea", "draft"];
+
+const isEntityRef = (value: unknown): value is EntityRef =>
+  isRecord(value) &&
+  ENTITY_TYPES.includes(value.type as EntityRef["type"]) &&
+  isString(value.id);
+
+/**
+ * Step-by-step upgrades keyed by the version they upgrade *from*. Each one
+ * only reshapes data; record-level validation happens afterwards.
+ */
+export const migrations: Record<number, Migration> = {
+  // v1 → v2: every draft carries `createdAt`, and `metrics` must be numeric.
+  1: (state) => {
+    const ideaCreatedAt = new Map(
+      asArray(state.ideas)
+        .filter(isRecord)
+        .map((idea) => [idea.id, idea.createdAt]),
+    );
+
+    return {
+      ...state,
+      drafts: asArray(state.drafts).map((draft) => {
+        if (!isRecord(draft)) return draft;
+
+        const createdAt = [
+          draft.createdAt,
+          ideaCreatedAt.get(draft.ideaId),
+          draft.schedule,
+        ].find(isValidDate);
+        const metrics = isRecord(draft.metrics) ? draft.metrics : undefined;
+        const metricsValid =
+          !!metrics &&
+          typeof metrics.impressions === "number" &&
+          typeof metrics.engagements === "number";
+
+        const next: RawRecord = {
+          ...draft,
+          createdAt: createdAt ?? new Date().toISOString(),
+        };
+        if (!metricsValid) delete next.metrics;
+
+        return next;
+      }),
+    };
+  },
+
+  // v2 → v3: `metrics` becomes a time series of readings instead of one
+  // snapshot. When the snapshot was taken is unknown, so it's dated now.
+  2: (state) => {
+    const now = new Date().toISOString();
+
+    return {
+      ...state,
+      drafts: asArray(state.drafts).map((draft) => {
+        if (!isRecord(draft) || !isRecord(draft.metrics)) return draft;
+
+        return {
+          ...draft,
+          metrics: [
+            {
+              capturedAt: now,
+              impressions: draft.metrics.impressions,
+              engagements: draft.metrics.engagements,
+              source: "manual",
+            },
+          ],
+        };
+      }),
+    };
+  },
+
+  // v3 → v4: quality scoring weights became configurable per workspace.
+  3: (state) => ({ ...state, scoreWeights: DEFAULT_SCORE_WEIGHTS }),
+
+  // v4 → v5: brands gained a banned phrase list for voice linting.
+  4: (state) => ({
+    ...state,
+    brand: isRecord(state.brand)
+      ? { bannedPhrases: [], ...state.brand }
+      : state.brand,
+  }),
+
+  // v5 → v6: campaigns can require review sign-off before scheduling.
+  5: (state) => ({
+    ...state,
+    campaigns: asArray(state.campaigns).map((campaign) =>
+      isRecord(campaign)
+        ? { requiresApproval: false, reviewers: [], ...campaign }
+        : campaign,
+    ),
+  }),
+
+  // v6 → v7: campaigns are planned in an explicit timezone. Until now every
+  // time was read on the viewer's clock, so that is the best guess.
+  6: (state, timezone) => ({
+    ...state,
+    campaigns: asArray(state.campaigns).map((campaign) =>
+      isRecord(campaign) ? { timezone, ...campaign } : campaign,
+    ),
+  }),
+
+  // v7 → v8: campaigns can run recurring series and recycle evergreen posts.
+  7: (state) => ({
+    ...state,
+    campaigns: asArray(state.campaigns).map((campaign) =>
+      isRecord(campaign)
+        ? { series: [], evergreen: DEFAULT_EVERGREEN, ...campaign }
+        : campaign,
+    ),
+  }),
+
+  // v8 → v9: workspaces keep a media library that drafts attach assets from.
+  8: (state) => ({ ...state, assets: [] }),
+};
+
+export interface MigrationReport {
+  fromVersion: number;
+  /** Above `CURRENT_SCHEMA_VERSION` when a newer app saved the payload. */
+  toVersion: number;
+  /** Fields that were missing or malformed and got a default value. */
+  repaired: number;
+  /** Records set aside because they could not be repaired. */
+  quarantined: number;
+}
+
+class RecordRepair {
+  repaired = 0;
+  readonly quarantine: QuarantinedRecord[] = [];
+
+  constructor(private readonly now: string) {}
+
+  /** Returns `raw[key]` if it passes `guard`, otherwise `fallback`. */
+  field<T>(
+    raw: RawRecord,
+    key: string,
+    guard: (value: unknown) => value is T,
+    fallback: T,
+  ): T {
+    if (guard(raw[key])) return raw[key] as T;
+    this.repaired += 1;
+    return fallback;
+  }
+
+  reject(
+    collection: QuarantinedRecord["collection"],
+    record: unknown,
+    reason: string,
+  ) {
+    this.quarantine.push({
+      collection,
+      reason,
+      record,
+      quarantinedAt: this.now,
+    });
+    return null;
+  }
+}
+
+function repairBrand(
+  raw: unknown,
+  fallback: BrandProfile,
+  repair: RecordRepair,
+): BrandProfile {
+  if (!isRecord(raw)) {
+    repair.repaired += 1;
+    return fallback;
+  }
+
+  const strings = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(isString);
+
+  return {
+    ...raw,
+    name: repair.field(raw, "name", isString, fallback.name),
+    mission: repair.field(raw, "mission", isString, fallback.mission),
+    tone: repair.field(raw, "tone", isString, fallback.tone),
+    pillars: repair.field(raw, "pillars", strings, fallback.pillars),
+    hashtags: repair.field(raw, "hashtags", strings, fallback.hashtags),
+    callToAction: repair.field(
+      raw,
+      "callToAction",
+      isString,
+      fallback.callToAction,
+    ),
+    primaryAudience: repair.field(
+      raw,
+      "primaryAudience",
+      isString,
+      fallback.primaryAudience,
+    ),
+    bannedPhrases: repair.field(
+      raw,
+      "bannedPhrases",
+      strings,
+      fallback.bannedPhrases,
+    ),
+  };
+}
+
+function repairScoreWeights(
+  raw: unknown,
+  fallback: ScoreWeights,
+  repair: RecordRepair,
+): ScoreWeights {
+  if (!isRecord(raw)) {
+    repair.repaired += 1;
+    return fallback;
+  }
+
+  const isWeight = (value: unknown): value is number =>
+    typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+  return Object.fromEntries(
+    (Object.keys(scoreCriteria) as (keyof ScoreWeights)[]).map((id) => [
+      id,
+      repair.field(raw, id, isWeight, fallback[id]),
+    ]),
+  ) as ScoreWeights;
+}
+
+function repairCampaign(
+  raw: unknown,
+  repair: RecordRepair,
+  now: string,
+  timezone: string,
+): Campaign | null {
+  if (!isRecord(raw) || !isString(raw.id)) {
+    return repair.reject("campaigns", raw, "Campaign has no id");
+  }
+
+  const timeline = isRecord(raw.timeline) ? raw.timeline : {};
+  const evergreen = isRecord(raw.evergreen) ? raw.evergreen : {};
+  const today = now.slice(0, 10);
+
+  return {
+    ...raw,
+    id: raw.id,
+    title: repair.field(raw, "title", isString, "Untitled campaign"),
+    objective: repair.field(raw, "objective", isString, ""),
+    audience: repair.field(raw, "audience", isString, ""),
+    offer: repair.field(raw, "offer", isString, ""),
+    platforms: asArray(raw.platforms).filter(isPlatform),
+    timeline: {
+      start: repair.field(timeline, "start", isValidDate, today),
+      end: repair.field(timeline, "end", isValidDate, today),
+    },
+    requiresApproval: repair.field(
+      raw,
+      "requiresApproval",
+      (value): value is boolean => typeof value === "boolean",
+      false,
+    ),
+    reviewers: asArray(raw.reviewers).filter(isString),
+    timezone: repair.field(raw, "timezone", isValidTimezone, timezone),
+    audienceTimezones: isRecord(raw.audienceTimezones)
+      ? Object.fromEntries(
+          Object.entries(raw.audienceTimezones).filter(
+            ([platform, zone]) => isPlatform(platform) && isValidTimezone(zone),
+          ),
+        )
+      : undefined,
+    series: asArray(raw.series).filter(isContentSeries),
+    evergreen: {
+      enabled: repair.field(
+        evergreen,
+        "enabled",
+        (value): value is boolean => typeof value === "boolean",
+        DEFAULT_EVERGREEN.enabled,
+      ),
+      cooldownDays: repair.field(
+        evergreen,
+        "cooldownDays",
+        (value): value is number => isCount(value) && value > 0,
+        DEFAULT_EVERGREEN.cooldownDays,
+      ),
+      minLift: repair.field(
+        evergreen,
+        "minLift",
+        (value): value is number =>
+          typeof value === "number" && Number.isFinite(value) && value >= 0,
+        DEFAULT_EVERGREEN.minLift,
+      ),
+    },
+  };
+}
+
+function repairIdea(
+  raw: unknown,
+  repair: RecordRepair,
+  now: string,
+): ContentIdea | null {
+  if (!isRecord(raw) || !isString(raw.id) || !isString(raw.campaignId)) {
+    return repair.reject("ideas", raw, "Idea has no id or campaign");
+  }
+  if (!isString(raw.headline)) {
+    return repair.reject("ideas", raw, "Idea has no headline");
+  }
+
+  return {
+    ...raw,
+    id: raw.id,
+    campaignId: raw.campaignId,
+    headline: raw.headline,
+    hook: repair.field(
+      raw,
+      "hook",
+      isString,
+      raw.headline.split(" ").slice(0, 7).join(" "),
+    ),
+    angle: repair.field(raw, "angle", isString, ""),
+    formats: asArray(raw.formats).filter(isPlatform),
+    supportingPoints: asArray(raw.supportingPoints).filter(isString),
+    recommendedVisual: repair.field(raw, "recommendedVisual", isString, ""),
+    suggestedCta: repair.field(raw, "suggestedCta", isString, ""),
+    createdAt: repair.field(raw, "createdAt", isValidDate, now),
+    // Attribution is a nice-to-have; a damaged record just loses it.
+    templates: isTemplatePicks(raw.templates) ? raw.templates : undefined,
+  } as ContentIdea;
+}
+
+function repairDraft(
+  raw: unknown,
+  repair: RecordRepair,
+  now: string,
+): ContentDraft | null {
+  if (
+    !isRecord(raw) ||
+    !isString(raw.id) ||
+    !isString(raw.campaignId) ||
+    !isString(raw.ideaId)
+  ) {
+    return repair.reject("drafts", raw, "Draft has no id, idea or campaign");
+  }
+  if (!isPlatform(raw.platform)) {
+    return repair.reject(
+      "drafts",
+      raw,
+      `Unknown platform ${String(raw.platform)}`,
+    );
+  }
+  if (!isString(raw.caption)) {
+    return repair.reject("drafts", raw, "Draft has no caption");
+  }
+
+  const createdAt = repair.field(raw, "createdAt", isValidDate, now);
+  const metrics = asArray(raw.metrics).filter(isMetricSample);
+
+  return {
+    ...raw,
+    id: raw.id,
+    ideaId: raw.ideaId,
+    campaignId: raw.campaignId,
+    platform: raw.platform,
+    caption: raw.caption,
+    hashtags: asArray(raw.hashtags).filter(isString),
+    assetBrief: repair.field(raw, "assetBrief", isString, ""),
+    schedule: repair.field(raw, "schedule", isValidDate, createdAt),
+    stage: repair.field(
+      raw,
+      "stage",
+      (value): value is PipelineStage =>
+        STAGES.includes(value as PipelineStage),
+      "drafts",
+    ),
+    createdAt,
+    metrics: metrics.length ? metrics : undefined,
+    review: repairReview(raw.review),
+    seriesId: isString(raw.seriesId) ? raw.seriesId : undefined,
+    occurrence: isString(raw.occurrence) ? raw.occurrence : undefined,
+    recycledFrom: isString(raw.recycledFrom) ? raw.recycledFrom : undefined,
+    variants: Array.isArray(raw.variants)
+      ? raw.variants.filter(isCaptionVariant)
+      : undefined,
+    variant: isVariantTag(raw.variant) ? raw.variant : undefined,
+    parts: Array.isArray(raw.parts) ? raw.parts.filter(isDraftPart) : undefined,
+    assetIds: Array.isArray(raw.assetIds)
+      ? raw.assetIds.filter(isString)
+      : undefined,
+  } as ContentDraft;
+}
+
+const isDimension = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+function repairAsset(
+  raw: unknown,
+  repair: RecordRepair,
+  now: string,
+): MediaAsset | null {
+  if (!isRecord(raw) || !isString(raw.id)) {
+    return repair.reject("assets", raw, "Asset has no id");
+  }
+  if (raw.kind !== "image" && raw.kind !== "video") {
+    return repair.reject(
+      "assets",
+      raw,
+      `Unknown asset kind ${String(raw.kind)}`,
+    );
+  }
+
+  return {
+    ...raw,
+    id: raw.id,
+    name: repair.field(raw, "name", isString, raw.id),
+    kind: raw.kind,
+    mimeType: repair.field(raw, "mimeType", isString, ""),
+    bytes: repair.field(raw, "bytes", isCount, 0),
+    width: repair.field(raw, "width", isDimension, 0),
+    height: repair.field(raw, "height", isDimension, 0),
+    duration: isDimension(raw.duration) ? raw.duration : undefined,
+    tags: asArray(raw.tags).filter(isString),
+    uploadedAt: repair.field(raw, "uploadedAt", isValidDate, now),
+  } as MediaAsset;
+}
+
+function repairEvent(
+  raw: unknown,
+  repair: RecordRepair,
+  now: string,
+): AgentEvent | null {
+  if (!isRecord(raw) || !isString(raw.id) || !isString(raw.label)) {
+    return repair.reject("events", raw, "Event has no id or label");
+  }
+
+  return {
+    ...raw,
+    id: raw.id,
+    label: raw.label,
+    timestamp: repair.field(raw, "timestamp", isValidDate, now),
+    details: repair.field(raw, "details", isString, ""),
+    tone: repair.field(
+      raw,
+      "tone",
+      (value): value is AgentEvent["tone"] =>
+        TONES.includes(value as AgentEvent["tone"]),
+      "info",
+    ),
+    // A partial change list would revert half an edit, so it's all or nothing.
+    changes:
+      Array.isArray(raw.changes) && raw.changes.every(isStateChange)
+        ? raw.changes
+        : undefined,
+    entities: Array.isArray(raw.entities)
+      ? raw.entities.filter(isEntityRef)
+      : undefined,
+  } as AgentEvent;
+}
+
+const notNull = <T>(value: T | null): value is T => value !== null;
+
+/**
+ * Upgrades any stored payload to `CURRENT_SCHEMA_VERSION`, repairing fields
+ * that can be defaulted and quarantining records that cannot. Never throws:
+ * unusable input yields `fallback`.
+ *
+ * A payload saved by a newer app is repaired but keeps its version: stamping
+ * it down would have that app run its migrations again over data they
+ * already reshaped.
+ *
+ * Campaigns without a valid zone get `timezone`: the viewer's in the browser.
+ * Servers have no meaningful local zone and pass UTC.
+ */
+export function migrateAgentState(
+  raw: unknown,
+  fallback: AgentState,
+  timezone = browserTimezone(),
+): { state: AgentState; report: MigrationReport } {
+  const now = new Date().toISOString();
+  const repair = new RecordRepair(now);
+
+  if (!isRecord(raw)) {
+    return {
+      state: fallback,
+      report: {
+        fromVersion: CURRENT_SCHEMA_VERSION,
+        toVersion: CURRENT_SCHEMA_VERSION,
+        repaired: 0,
+        quarantined: raw === null || raw === undefined ? 0 : 1,
+      },
+    };
+  }
+
+  const fromVersion =
+    typeof raw.schemaVersion === "number"
+      ? raw.schemaVersion
+      : LEGACY_SCHEMA_VERSION;
+
+  const toVersion = Math.max(fromVersion, CURRENT_SCHEMA_VERSION);
+
+  let working = raw;
+  for (
+    let version = fromVersion;
+    version < CURRENT_SCHEMA_VERSION;
+    version += 1
+  ) {
+    const migration = migrations[version];
+    if (migration) working = migration(working, timezone);
+  }
+
+  const state: AgentState = {
+    ...working,
+    schemaVersion: toVersion,
+    brand: repairBrand(working.brand, fallback.brand, repair),
+    campaigns: asArray(working.campaigns)
+      .map((item) => repairCampaign(item, repair, now, timezone))
+      .filter(notNull),
+    ideas: asArray(working.ideas)
+      .map((item) => repairIdea(item, repair, now))
+      .filter(notNull),
+    drafts: asArray(working.drafts)
+      .map((item) => repairDraft(item, repair, now))
+      .filter(notNull),
+    assets: asArray(working.assets)
+      .map((item) => repairAsset(item, repair, now))
+      .filter(notNull),
+    events: asArray(working.events)
+      .map((item) => repairEvent(item, repair, now))
+      .filter(notNull),
+    scoreWeights: repairScoreWeights(
+      working.scoreWeights,
+      fallback.scoreWeights,
+      repair,
+    ),
+    quarantine: [
+      ...asArray(working.quarantine).filter(isRecord),
+      ...repair.quarantine,
+    ] as QuarantinedRecord[],
+  };
+
+  return {
+    state,
+    report: {
+      fromVersion,
+      toVersion,
+      repaired: repair.repaired,
+      quarantined: repair.quarantine.length,
+    },
+  };
+}
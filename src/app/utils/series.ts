@@ -0,0 +1,237 @@
+import {
+  BrandProfile,
+  Campaign,
+  ContentDraft,
+  ContentSeries,
+  Platform,
+  RecurrenceRule,
+} from "../types";
+import { buildHashtags, createId } from "./agent";
+import {
+  applyLineBreakRules,
+  measureCaption,
+  PLATFORM_RULES,
+} from "./platformRules";
+import { isReschedulable } from "./scheduler";
+import {
+  addDaysToKey,
+  audienceTimezone,
+  isDayKey,
+  weekdayOfKey,
+  zonedToInstant,
+} from "./timezone";
+
+const DAY = 86_400_000;
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const DEFAULT_RULE: RecurrenceRule = {
+  intervalWeeks: 1,
+  weekdays: [2],
+  time: "09:00",
+};
+
+export const isRuleTime = (value: string) =>
+  /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+/** `Every Tue at 09:00`, `Every 2 weeks on Mon, Thu at 17:30`. */
+export function describeRule({
+  intervalWeeks,
+  weekdays,
+  time,
+}: RecurrenceRule) {
+  const days = [...weekdays]
+    .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+    .map((day) => WEEKDAY_NAMES[day])
+    .join(", ");
+  return intervalWeeks > 1
+    ? `Every ${intervalWeeks} weeks on ${days} at ${time}`
+    : `Every ${days} at ${time}`;
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY,
+  );
+
+/**
+ * The days (`YYYY-MM-DD`, campaign timezone) the series runs on inside the
+ * campaign's timeline. Intervals count weeks from the Monday of the week
+ * the timeline starts in.
+ */
+export function seriesOccurrences(campaign: Campaign, series: ContentSeries) {
+  const { start, end } = campaign.timeline;
+  const { intervalWeeks, weekdays } = series.rule;
+  if (!isDayKey(start) || !isDayKey(end) || intervalWeeks < 1) return [];
+
+  const firstMonday = addDaysToKey(start, -((weekdayOfKey(start) + 6) % 7));
+  const days: string[] = [];
+  for (let key = start; key <= end; key = addDaysToKey(key, 1)) {
+    const week = Math.floor(daysBetween(firstMonday, key) / 7);
+    if (week % intervalWeeks === 0 && weekdays.includes(weekdayOfKey(key))) {
+      days.push(key);
+    }
+  }
+  return days;
+}
+
+/** When an episode goes out: the rule's time on its audience's clock. */
+export function episodeTime(
+  campaign: Campaign,
+  series: ContentSeries,
+  occurrence: string,
+  platform: Platform,
+) {
+  const [year, month, day] = occurrence.split("-").map(Number);
+  const [hour, minute] = series.rule.time.split(":").map(Number);
+  return zonedToInstant(
+    { year, month, day, hour, minute },
+    audienceTimezone(campaign, platform),
+  ).toISOString();
+}
+
+/**
+ * The episode heading, the series brief (or the brand mission) and the CTA,
+ * falling back to the heading and brief alone when that doesn't fit.
+ */
+export function episodeCaption(
+  series: ContentSeries,
+  brand: BrandProfile,
+  platform: Platform,
+  episode: number,
+  hashtags: string[],
+) {
+  const heading = `${series.name} #${episode}`;
+  const brief = series.brief.trim();
+  const body = brief || brand.mission.trim();
+  const cta = brand.callToAction.trim();
+  const full = [
+    heading,
+    ...(body ? ["", `${body}.`] : []),
+    ...(cta ? ["", `CTA: ${cta}`] : []),
+  ].join("\n");
+  const compact = brief ? `${heading}: ${brief}` : heading;
+  const { maxCaptionLength } = PLATFORM_RULES[platform];
+  const caption =
+    measureCaption(full, hashtags, platform) <= maxCaptionLength
+      ? full
+      : compact;
+  return applyLineBreakRules(caption, platform);
+}
+
+export interface SeriesSync {
+  /** Every draft in the workspace, with the campaign's episodes in line. */
+  drafts: ContentDraft[];
+  added: ContentDraft[];
+  removed: ContentDraft[];
+  retimed: ContentDraft[];
+}
+
+/**
+ * Brings a campaign's series episodes in line with its series and timeline:
+ * every future occurrence gets a draft per channel, episodes that haven't
+ * gone out move back onto their rule's slot, and those whose series,
+ * channel or day no longer applies are dropped. Past occurrences are never
+ * back-filled, and episodes already published or handed to the publisher
+ * are left alone.
+ */
+export function syncSeriesDrafts(
+  campaign: Campaign,
+  drafts: ContentDraft[],
+  brand: BrandProfile,
+  now = new Date(),
+): SeriesSync {
+  const expected = new Map<
+    string,
+    {
+      series: ContentSeries;
+      occurrence: string;
+      platform: Platform;
+      episode: number;
+    }
+  >();
+  campaign.series.forEach((series) =>
+    seriesOccurrences(campaign, series).forEach((occurrence, index) =>
+      series.platforms.forEach((platform) =>
+        expected.set(`${series.id}:${occurrence}:${platform}`, {
+          series,
+          occurrence,
+          platform,
+          episode: index + 1,
+        }),
+      ),
+    ),
+  );
+
+  const sync: SeriesSync = { drafts: [], added: [], removed: [], retimed: [] };
+  const covered = new Set<string>();
+
+  drafts.forEach((draft) => {
+    if (draft.campaignId !== campaign.id || !draft.seriesId) {
+      sync.drafts.push(draft);
+      return;
+    }
+
+    const key = `${draft.seriesId}:${draft.occurrence}:${draft.platform}`;
+    const slot = expected.get(key);
+    covered.add(key);
+    if (!isReschedulable(draft)) {
+      sync.drafts.push(draft);
+    } else if (!slot) {
+      sync.removed.push(draft);
+    } else {
+      const schedule = episodeTime(
+        campaign,
+        slot.series,
+        slot.occurrence,
+        slot.platform,
+      );
+      if (schedule === draft.schedule) {
+        sync.drafts.push(draft);
+      } else {
+        const retimed = { ...draft, schedule };
+        sync.retimed.push(retimed);
+        sync.drafts.push(retimed);
+      }
+    }
+  });
+
+  expected.forEach(({ series, occurrence, platform, episode }, key) => {
+    const schedule = episodeTime(campaign, series, occurrence, platform);
+    if (covered.has(key) || new Date(schedule) <= now) return;
+
+    const hashtags = buildHashtags(brand.hashtags, platform);
+    const draft: ContentDraft = {
+      id: createId(),
+      ideaId: "",
+      campaignId: campaign.id,
+      platform,
+      caption: episodeCaption(series, brand, platform, episode, hashtags),
+      hashtags,
+      assetBrief: `${series.name} episode ${episode} — adapt for ${platform}`,
+      schedule,
+      stage: "drafts",
+      createdAt: now.toISOString(),
+      seriesId: series.id,
+      occurrence,
+    };
+    sync.added.push(draft);
+    sync.drafts.push(draft);
+  });
+
+  return sync;
+}
+
+/** `4 episodes slotted, 1 re-timed, 2 dropped`, or "". */
+export function describeSeriesSync({ added, removed, retimed }: SeriesSync) {
+  const count = (items: ContentDraft[], label: string) =>
+    items.length
+      ? `${items.length} episode${items.length === 1 ? "" : "s"} ${label}`
+      : "";
+  return [
+    count(added, "slotted"),
+    count(retimed, "re-timed"),
+    count(removed, "dropped"),
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
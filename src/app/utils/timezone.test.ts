@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  fromZonedInput,
+  startOfZonedDay,
+  toZonedInput,
+  zonedDayKey,
+  zonedTime,
+  zonedToInstant,
+} from "./timezone";
+
+const at = (value: string) => {
+  const [year, month, day, hour, minute] = value.split(/[-T:]/).map(Number);
+  return { year, month, day, hour, minute };
+};
+
+describe("zonedToInstant", () => {
+  it.each([
+    ["America/New_York", "2026-01-15T09:00", "2026-01-15T14:00:00.000Z"],
+    ["America/New_York", "2026-07-15T09:00", "2026-07-15T13:00:00.000Z"],
+    ["Europe/Berlin", "2026-01-15T09:00", "2026-01-15T08:00:00.000Z"],
+    ["Australia/Sydney", "2026-01-15T09:00", "2026-01-14T22:00:00.000Z"],
+    ["UTC", "2026-03-29T02:30", "2026-03-29T02:30:00.000Z"],
+  ])("reads an ordinary %s time", (zone, wall, expected) => {
+    expect(zonedToInstant(at(wall), zone).toISOString()).toBe(expected);
+  });
+
+  it.each([
+    // Clocks jump 02:00 → 03:00, so 02:30 never happens.
+    ["America/New_York", "2026-03-08T02:30", "2026-03-08T07:30:00.000Z"],
+    ["Europe/Berlin", "2026-03-29T02:30", "2026-03-29T01:30:00.000Z"],
+    ["Australia/Sydney", "2026-10-04T02:30", "2026-10-03T16:30:00.000Z"],
+  ])(
+    "moves a %s time skipped by spring-forward later by the jump",
+    (zone, wall, expected) => {
+      const instant = zonedToInstant(at(wall), zone);
+
+      expect(instant.toISOString()).toBe(expected);
+      expect(zonedTime(instant, zone)).toMatchObject({ hour: 3, minute: 30 });
+    },
+  );
+
+  it.each([
+    // Clocks fall back and show the same half hour twice.
+    ["America/New_York", "2026-11-01T01:30", "2026-11-01T05:30:00.000Z"],
+    ["Europe/Berlin", "2026-10-25T02:30", "2026-10-25T00:30:00.000Z"],
+    ["Australia/Sydney", "2026-04-05T02:30", "2026-04-04T15:30:00.000Z"],
+  ])(
+    "resolves a repeated %s time to its first occurrence",
+    (zone, wall, expected) => {
+      const instant = zonedToInstant(at(wall), zone);
+
+      expect(instant.toISOString()).toBe(expected);
+      // An hour later the clocks show the same time again.
+      expect(zonedTime(new Date(instant.getTime() + 3_600_000), zone)).toEqual(
+        at(wall),
+      );
+    },
+  );
+});
+
+describe("zoned inputs", () => {
+  it("round-trips a datetime-local value on either side of a change", () => {
+    ["2026-10-24T18:00", "2026-10-25T18:00"].forEach((value) => {
+      const iso = fromZonedInput(value, "Europe/Berlin");
+
+      expect(iso).not.toBeNull();
+      expect(toZonedInput(iso as string, "Europe/Berlin")).toBe(value);
+    });
+  });
+
+  it("keeps a same-wall-time series at the same local hour across DST", () => {
+    const before = fromZonedInput("2026-03-07T09:00", "America/New_York");
+    const after = fromZonedInput("2026-03-09T09:00", "America/New_York");
+
+    expect(before).toBe("2026-03-07T14:00:00.000Z");
+    expect(after).toBe("2026-03-09T13:00:00.000Z");
+  });
+
+  it("rejects values that aren't datetime-local", () => {
+    expect(fromZonedInput("next tuesday", "UTC")).toBeNull();
+    expect(toZonedInput("not a date", "UTC")).toBe("");
+  });
+});
+
+describe("zoned days", () => {
+  it("starts a day at local midnight, even on a 23-hour day", () => {
+    const start = startOfZonedDay("2026-03-29", "Europe/Berlin");
+    const next = startOfZonedDay("2026-03-30", "Europe/Berlin");
+
+    expect(start.toISOString()).toBe("2026-03-28T23:00:00.000Z");
+    expect(next.getTime() - start.getTime()).toBe(23 * 3_600_000);
+  });
+
+  it("files an instant under the day it falls on in the zone", () => {
+    const instant = new Date("2026-04-04T15:30:00.000Z");
+
+    expect(zonedDayKey(instant, "Australia/Sydney")).toBe("2026-04-05");
+    expect(zonedDayKey(instant, "America/New_York")).toBe("2026-04-04");
+  });
+});
@@ -0,0 +1,175 @@
+import { Campaign, Platform } from "../types";
+
+/** A wall-clock reading in some timezone; months run 1–12. */
+export interface ZonedTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const DAY = 86_400_000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Formatting is the only zone math `Intl` offers, so cache the formatters. */
+function partsFormatter(zone: string) {
+  let formatter = formatters.get(zone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: zone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(zone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimezone(value: unknown): value is string {
+  if (typeof value !== "string" || !value) return false;
+  try {
+    partsFormatter(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The viewer's zone, or UTC where the runtime doesn't report one. */
+export function browserTimezone() {
+  const zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return isValidTimezone(zone) ? zone : "UTC";
+}
+
+/** Every zone the runtime knows, plus UTC and any `current` picks it omits. */
+export function timezoneOptions(current: string[] = []) {
+  const known =
+    typeof Intl.supportedValuesOf === "function"
+      ? Intl.supportedValuesOf("timeZone")
+      : [];
+  return [...new Set([...known, "UTC", ...current])].sort();
+}
+
+/** The wall clock in `zone` at `instant`. */
+export function zonedTime(instant: Date, zone: string): ZonedTime {
+  const parts = Object.fromEntries(
+    partsFormatter(zone)
+      .formatToParts(instant)
+      .map((part) => [part.type, Number(part.value)]),
+  );
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+  };
+}
+
+const asUtc = (time: ZonedTime) =>
+  Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute);
+
+/** How far `zone` is ahead of UTC at `instant`, in ms. */
+const offsetAt = (instant: number, zone: string) =>
+  asUtc(zonedTime(new Date(instant), zone)) -
+  Math.floor(instant / 60_000) * 60_000;
+
+/**
+ * The instant the clocks in `zone` show `time`. Across DST changes a time
+ * that happens twice resolves to the first occurrence, and one skipped by
+ * the spring-forward jump moves later by the length of the jump (02:30
+ * becomes 03:30), the way calendar apps treat them.
+ */
+export function zonedToInstant(time: ZonedTime, zone: string) {
+  const wall = asUtc(time);
+  const candidates = [
+    wall - offsetAt(wall - DAY, zone),
+    wall - offsetAt(wall + DAY, zone),
+  ];
+  const exact = candidates.filter(
+    (instant) => asUtc(zonedTime(new Date(instant), zone)) === wall,
+  );
+  return new Date(exact.length ? Math.min(...exact) : candidates[0]);
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** `YYYY-MM-DD` of the day `instant` falls on in `zone`. */
+export function zonedDayKey(instant: Date, zone: string) {
+  const { year, month, day } = zonedTime(instant, zone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/** `<input type="datetime-local">` value for `iso` on the clocks in `zone`. */
+export function toZonedInput(iso: string, zone: string) {
+  const instant = new Date(iso);
+  if (Number.isNaN(instant.getTime())) return "";
+  const time = zonedTime(instant, zone);
+  return `${zonedDayKey(instant, zone)}T${pad(time.hour)}:${pad(time.minute)}`;
+}
+
+/** Reads a `datetime-local` value as a time in `zone`; null when blank or invalid. */
+export function fromZonedInput(value: string, zone: string) {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  return zonedToInstant({ year, month, day, hour, minute }, zone).toISOString();
+}
+
+export const isDayKey = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+  !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+/** Plain calendar arithmetic on `YYYY-MM-DD` keys, free of any zone. */
+export function addDaysToKey(key: string, days: number) {
+  const [year, month, day] = key.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return date.toISOString().slice(0, 10);
+}
+
+/** 0 = Sunday, like `Date#getDay`. */
+export function weekdayOfKey(key: string) {
+  return new Date(`${key}T00:00:00Z`).getUTCDay();
+}
+
+/** Midnight at the start of day `key` in `zone`. */
+export function startOfZonedDay(key: string, zone: string) {
+  const [year, month, day] = key.split("-").map(Number);
+  return zonedToInstant({ year, month, day, hour: 0, minute: 0 }, zone);
+}
+
+export function formatInZone(
+  iso: string,
+  zone: string,
+  options: Intl.DateTimeFormatOptions = {
+    dateStyle: "medium",
+    timeStyle: "short",
+  },
+) {
+  const instant = new Date(iso);
+  if (Number.isNaN(instant.getTime())) return "—";
+  return new Intl.DateTimeFormat("en", { ...options, timeZone: zone }).format(
+    instant,
+  );
+}
+
+/** Short name such as `CET` or `GMT+2`, as the zone reads at `iso`. */
+export function zoneAbbreviation(iso: string, zone: string) {
+  const instant = new Date(iso);
+  return (
+    new Intl.DateTimeFormat("en", { timeZone: zone, timeZoneName: "short" })
+      .formatToParts(Number.isNaN(instant.getTime()) ? new Date() : instant)
+      .find((part) => part.type === "timeZoneName")?.value ?? zone
+  );
+}
+
+/** The zone a platform's audience reads in: its override, else the campaign's. */
+export const audienceTimezone = (campaign: Campaign, platform: Platform) =>
+  campaign.audienceTimezones?.[platform] ?? campaign.timezone;
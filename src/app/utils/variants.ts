@@ -0,0 +1,59 @@
+import { Campaign, CaptionVariant, ContentDraft, VariantTag } from "../types";
+import { createId } from "./agent";
+import { placeNewDrafts } from "./scheduler";
+
+const tagOf = (
+  { label, hook, cta, hashtagSet }: CaptionVariant,
+  testId?: string,
+): VariantTag => ({ label, hook, cta, hashtagSet, testId });
+
+/** The draft posting `variant`, with the comparison closed. */
+export const withVariant = (
+  draft: ContentDraft,
+  variant: CaptionVariant,
+  testId?: string,
+): ContentDraft => ({
+  ...draft,
+  caption: variant.caption,
+  hashtags: variant.hashtags,
+  variant: tagOf(variant, testId),
+  variants: undefined,
+});
+
+/**
+ * Turns a draft's variants into one draft per variant, all tagged with the
+ * same test id so their metrics can be compared. The draft itself posts the
+ * first variant and keeps its slot; the others get their own slots, spaced
+ * like any other post on the channel.
+ */
+export function splitTestArms(
+  draft: ContentDraft,
+  campaign: Campaign,
+  drafts: ContentDraft[],
+  now = new Date(),
+): ContentDraft[] {
+  const [first, ...rest] = draft.variants ?? [];
+  if (!first) return [draft];
+
+  const testId = createId();
+  const arms = rest.map((variant) =>
+    withVariant(
+      {
+        ...draft,
+        id: createId(),
+        createdAt: now.toISOString(),
+        review: undefined,
+        metrics: undefined,
+        publication: undefined,
+      },
+      variant,
+      testId,
+    ),
+  );
+  const { schedules } = placeNewDrafts(arms, campaign, drafts, now);
+
+  return [
+    withVariant(draft, first, testId),
+    ...arms.map((arm) => ({ ...arm, schedule: schedules[arm.id] })),
+  ];
+}
@@ -0,0 +1,105 @@
+import { AgentState } from "../types";
+import { createId, slugify } from "./agent";
+import { DEFAULT_EVERGREEN } from "./evergreen";
+import { DEFAULT_SCORE_WEIGHTS } from "./quality";
+import { CURRENT_SCHEMA_VERSION } from "./schema";
+import { browserTimezone } from "./timezone";
+
+/** One client: a brand with its own campaigns, ideas, drafts and event log. */
+export interface WorkspaceSummary {
+  id: string;
+  /** The brand name, cached so the switcher can list workspaces unopened. */
+  name: string;
+}
+
+export interface WorkspaceRegistry {
+  activeId: string;
+  workspaces: WorkspaceSummary[];
+}
+
+/** Holds everything created before workspaces existed. */
+export const DEFAULT_WORKSPACE_ID = "default";
+
+const WORKSPACE_ID = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+/** Ids end up in file names and URLs, so only slugs are allowed. */
+export const isWorkspaceId = (value: unknown): value is string =>
+  typeof value === "string" && WORKSPACE_ID.test(value);
+
+export const createWorkspaceId = (name: string) =>
+  `${slugify(name).slice(0, 48) || "workspace"}-${slugify(createId()).slice(0, 6)}`;
+
+/**
+ * Browser storage key for a workspace's copy of `base`. The default
+ * workspace keeps the bare key so existing browsers carry on where they were.
+ */
+export const workspaceStorageKey = (base: string, workspaceId: string) =>
+  workspaceId === DEFAULT_WORKSPACE_ID ? base : `${base}:${workspaceId}`;
+
+/**
+ * A new client starts from an empty brand rather than a copy of another
+ * one, so no pillar, hashtag or CTA can leak between clients.
+ */
+export function blankWorkspaceState(
+  name: string,
+  now = new Date(),
+): AgentState {
+  const end = new Date(now);
+  end.setDate(now.getDate() + 14);
+
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    brand: {
+      name,
+      mission: "",
+      tone: "",
+      pillars: [],
+      hashtags: [],
+      callToAction: "",
+      primaryAudience: "",
+      bannedPhrases: [],
+    },
+    campaigns: [
+      {
+        id: createId(),
+        title: "First Campaign",
+        objective: "",
+        audience: "",
+        offer: "",
+        platforms: ["LinkedIn", "X"],
+        timeline: {
+          start: now.toISOString().slice(0, 10),
+          end: end.toISOString().slice(0, 10),
+        },
+        timezone: browserTimezone(),
+        requiresApproval: false,
+        reviewers: [],
+        series: [],
+        evergreen: DEFAULT_EVERGREEN,
+      },
+    ],
+    ideas: [],
+    drafts: [],
+    assets: [],
+    events: [],
+    scoreWeights: DEFAULT_SCORE_WEIGHTS,
+    quarantine: [],
+  };
+}
+
+/** Adds workspaces first saved elsewhere, e.g. from another browser. */
+export function withServerWorkspaces(
+  registry: WorkspaceRegistry,
+  server: WorkspaceSummary[],
+): WorkspaceRegistry {
+  const known = new Set(registry.workspaces.map((workspace) => workspace.id));
+  const added = server
+    .filter(
+      (workspace) => isWorkspaceId(workspace.id) && !known.has(workspace.id),
+    )
+    .map(({ id, name }) => ({ id, name }));
+
+  return added.length
+    ? { ...registry, workspaces: [...registry.workspaces, ...added] }
+    : registry;
+}
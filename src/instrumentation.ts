@@ -0,0 +1,7 @@
+/** Starts the background jobs once per Node.js server process. */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { startBackgroundJobs } = await import("./app/server/scheduler");
+  startBackgroundJobs();
+}